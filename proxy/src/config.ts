@@ -0,0 +1,48 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+export type Region = 'na' | 'eu' | 'fe';
+
+export interface ProxyConfig {
+  host: string;
+  port: number;
+  allowedOrigins: string[];
+  lwaTokenUrl: string;
+  defaultRegion: Region;
+  requestTimeoutMs: number;
+}
+
+const DEFAULT_CONFIG: ProxyConfig = {
+  host: '127.0.0.1',
+  port: 3001,
+  allowedOrigins: ['http://localhost:8080', 'http://localhost:5173'],
+  lwaTokenUrl: 'https://api.amazon.com/auth/o2/token',
+  defaultRegion: 'na',
+  requestTimeoutMs: 30000
+};
+
+// Reads proxy.config.json (or the file named by PROXY_CONFIG), then applies env overrides
+export function loadConfig(): ProxyConfig {
+  const configPath = resolve(process.env.PROXY_CONFIG ?? 'proxy.config.json');
+  let fileConfig: Partial<ProxyConfig> = {};
+
+  try {
+    fileConfig = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Failed to read proxy config at ${configPath}: ${(error as Error).message}`);
+    }
+    console.warn(`No config file found at ${configPath}, using defaults`);
+  }
+
+  const config: ProxyConfig = { ...DEFAULT_CONFIG, ...fileConfig };
+
+  if (process.env.PORT) {
+    config.port = Number(process.env.PORT);
+  }
+  if (process.env.HOST) {
+    config.host = process.env.HOST;
+  }
+
+  return config;
+}
@@ -0,0 +1,65 @@
+import { ProxyConfig } from './config.js';
+import { InvalidRequestError } from './sp-api.js';
+
+// Report and feed documents are stored in Amazon's S3 buckets and reached through presigned URLs
+const DOCUMENT_HOST = /(^|\.)amazonaws\.com$/;
+
+export interface DocumentDownload {
+  status: number;
+  body: Buffer;
+  contentType: string;
+}
+
+export interface DocumentUpload {
+  status: number;
+  error?: string; // S3's error response, when the upload was rejected
+}
+
+function parseDocumentUrl(url: unknown): URL {
+  let target: URL;
+  try {
+    target = new URL(String(url));
+  } catch {
+    throw new InvalidRequestError('url must be a valid URL');
+  }
+
+  if (target.protocol !== 'https:' || !DOCUMENT_HOST.test(target.hostname)) {
+    throw new InvalidRequestError('url must be an https URL on an Amazon document host');
+  }
+  return target;
+}
+
+// Downloads a document as is: compressed or encrypted contents are left for the app to decode
+export async function downloadDocument(config: ProxyConfig, url: unknown): Promise<DocumentDownload> {
+  const target = parseDocumentUrl(url);
+  const response = await fetch(target, { signal: AbortSignal.timeout(config.requestTimeoutMs) });
+
+  return {
+    status: response.status,
+    body: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get('content-type') ?? 'application/octet-stream'
+  };
+}
+
+// Uploads the contents of a feed document; the content type must be the one the document was created with
+export async function uploadDocument(config: ProxyConfig, url: unknown, contentType: unknown, content: unknown): Promise<DocumentUpload> {
+  const target = parseDocumentUrl(url);
+  if (typeof contentType !== 'string' || !contentType) {
+    throw new InvalidRequestError('contentType must be the content type of the feed document');
+  }
+  if (typeof content !== 'string') {
+    throw new InvalidRequestError('content must be the text of the feed');
+  }
+
+  const response = await fetch(target, {
+    method: 'PUT',
+    headers: { 'Content-Type': contentType },
+    body: content,
+    signal: AbortSignal.timeout(config.requestTimeoutMs)
+  });
+
+  return {
+    status: response.status,
+    error: response.ok ? undefined : await response.text()
+  };
+}
@@ -0,0 +1,34 @@
+import { ProxyConfig } from './config.js';
+
+export interface RefreshTokenGrant {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+}
+
+export interface UpstreamResponse {
+  status: number;
+  body: unknown;
+}
+
+// Exchanges an LWA refresh token for an access token. LWA errors are passed through
+// unchanged so the app can tell invalid_grant apart from invalid_client.
+export async function exchangeRefreshToken(config: ProxyConfig, grant: RefreshTokenGrant): Promise<UpstreamResponse> {
+  const form = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: grant.refreshToken,
+    client_id: grant.clientId,
+    client_secret: grant.clientSecret
+  });
+
+  const response = await fetch(config.lwaTokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8' },
+    body: form,
+    signal: AbortSignal.timeout(config.requestTimeoutMs)
+  });
+
+  const body = await response.json().catch(() => ({ error: 'server_error', error_description: 'LWA returned a non-JSON response' }));
+
+  return { status: response.status, body };
+}
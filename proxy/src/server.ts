@@ -0,0 +1,99 @@
+import express, { NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import { loadConfig } from './config.js';
+import { downloadDocument, uploadDocument } from './documents.js';
+import { exchangeRefreshToken } from './lwa.js';
+import { FORWARDED_HEADERS, InvalidRequestError, forwardRequest } from './sp-api.js';
+
+const config = loadConfig();
+const app = express();
+
+app.use(cors({
+  origin: config.allowedOrigins,
+  exposedHeaders: FORWARDED_HEADERS
+}));
+app.use(express.json({ limit: '10mb' }));
+
+app.get('/health', (_req, res) => {
+  res.status(200).json({ status: 'ok' });
+});
+
+app.post('/api/amazon/token', async (req, res, next) => {
+  try {
+    const { clientId, clientSecret, refreshToken } = req.body ?? {};
+
+    if (!clientId || !clientSecret || !refreshToken) {
+      res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'Missing required parameters: clientId, clientSecret, refreshToken'
+      });
+      return;
+    }
+
+    const result = await exchangeRefreshToken(config, { clientId, clientSecret, refreshToken });
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/amazon/request', async (req, res, next) => {
+  try {
+    const result = await forwardRequest(config, req.body ?? {});
+
+    res.status(result.status);
+    for (const [name, value] of Object.entries(result.headers)) {
+      res.setHeader(name, value);
+    }
+    res.type(result.contentType).send(result.body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/amazon/document', async (req, res, next) => {
+  try {
+    const result = await downloadDocument(config, req.body?.url);
+    res.status(result.status).type(result.contentType).send(result.body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/amazon/document/upload', async (req, res, next) => {
+  try {
+    const { url, contentType, content } = req.body ?? {};
+    const result = await uploadDocument(config, url, contentType, content);
+
+    if (result.error !== undefined) {
+      res.status(result.status).json({ errors: [{ code: 'UploadFailed', message: 'Amazon rejected the feed document', details: result.error }] });
+      return;
+    }
+    res.status(result.status).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Errors are returned in the SP-API `errors` shape so the app parses them the same way
+app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+  if (error instanceof InvalidRequestError) {
+    res.status(400).json({ errors: [{ code: 'InvalidInput', message: error.message }] });
+    return;
+  }
+
+  const timedOut = error.name === 'TimeoutError';
+  console.error('Proxy request failed:', error);
+  res.status(timedOut ? 504 : 502).json({
+    errors: [{
+      code: timedOut ? 'ProxyTimeout' : 'ProxyError',
+      message: timedOut ? 'Upstream request timed out' : 'Failed to reach Amazon',
+      details: error.message
+    }]
+  });
+});
+
+app.listen(config.port, config.host, () => {
+  console.log(`Amazon SP-API proxy server running on http://${config.host}:${config.port}`);
+  console.log(`Health check: http://localhost:${config.port}/health`);
+});
@@ -0,0 +1,98 @@
+import { ProxyConfig, Region } from './config.js';
+
+export const REGION_HOSTS: Record<Region, string> = {
+  na: 'https://sellingpartnerapi-na.amazon.com',
+  eu: 'https://sellingpartnerapi-eu.amazon.com',
+  fe: 'https://sellingpartnerapi-fe.amazon.com'
+};
+
+// Response headers the app needs to see (rate limits, request ids for support cases)
+export const FORWARDED_HEADERS = ['x-amzn-ratelimit-limit', 'x-amzn-requestid', 'retry-after'];
+
+const ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export interface SpApiRequest {
+  endpoint: string;
+  method?: string;
+  region?: Region;
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface SpApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  contentType: string;
+}
+
+export class InvalidRequestError extends Error {}
+
+export function isRegion(value: unknown): value is Region {
+  return typeof value === 'string' && value in REGION_HOSTS;
+}
+
+// SP-API expects list parameters as comma-separated values
+export function buildQueryString(params: Record<string, unknown> = {}): string {
+  const query = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === '') continue;
+    query.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+
+  const serialized = query.toString();
+  return serialized ? `?${serialized}` : '';
+}
+
+export async function forwardRequest(config: ProxyConfig, request: SpApiRequest): Promise<SpApiResponse> {
+  const method = (request.method ?? 'GET').toUpperCase();
+
+  if (!request.endpoint || !request.endpoint.startsWith('/') || request.endpoint.startsWith('//')) {
+    throw new InvalidRequestError('endpoint must be an SP-API path starting with "/"');
+  }
+  if (!ALLOWED_METHODS.includes(method)) {
+    throw new InvalidRequestError(`Unsupported method: ${method}`);
+  }
+  if (request.region !== undefined && !isRegion(request.region)) {
+    throw new InvalidRequestError(`Unknown region: ${request.region}`);
+  }
+
+  const accessToken = request.headers?.['x-amz-access-token'];
+  if (!accessToken) {
+    throw new InvalidRequestError('Missing x-amz-access-token header');
+  }
+
+  const host = REGION_HOSTS[request.region ?? config.defaultRegion];
+  const url = `${host}${request.endpoint}${buildQueryString(request.params)}`;
+  const hasBody = request.body !== undefined && method !== 'GET';
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'x-amz-access-token': accessToken,
+      'x-amz-date': new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''),
+      'user-agent': 'amazon-sp-api-proxy/0.1.0 (Language=TypeScript)',
+      accept: 'application/json',
+      ...(hasBody ? { 'content-type': 'application/json' } : {})
+    },
+    body: hasBody ? JSON.stringify(request.body) : undefined,
+    signal: AbortSignal.timeout(config.requestTimeoutMs)
+  });
+
+  const headers: Record<string, string> = {};
+  for (const name of FORWARDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) {
+      headers[name] = value;
+    }
+  }
+
+  return {
+    status: response.status,
+    headers,
+    body: await response.text(),
+    contentType: response.headers.get('content-type') ?? 'application/json'
+  };
+}
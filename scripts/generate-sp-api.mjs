@@ -0,0 +1,224 @@
+// Generates endpoint metadata and response types from the SP-API models vendored in
+// vendor/sp-api-models (Swagger 2.0 JSON, one file per API) into src/types/sp-api.
+// Run with `npm run generate:sp-api` after adding or updating a model.
+
+import { mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const MODELS_DIR = join(ROOT, 'vendor', 'sp-api-models');
+const OUTPUT_DIR = join(ROOT, 'src', 'types', 'sp-api');
+const HEADER = '// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.\n';
+
+// Query parameters that carry pagination tokens are filled in by the pagination logic, not edited
+const PAGINATION_TOKEN = /^(nextToken|pageToken)$/i;
+// Several models document dates as plain strings, so names are a hint too
+const DATE_NAME = /(After|Before|Since|Until|Date|DateTime)$/;
+const ACRONYMS = { id: 'ID', ids: 'IDs', asin: 'ASIN', asins: 'ASINs', sku: 'SKU', skus: 'SKUs' };
+
+const quote = value => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+const pascalCase = name => name[0].toUpperCase() + name.slice(1);
+const kebabCase = name => name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+const isIdentifier = name => /^[A-Za-z_$][\w$]*$/.test(name);
+const propertyKey = name => (isIdentifier(name) ? name : quote(name));
+const refName = ref => ref.replace('#/definitions/', '');
+
+// First sentence of a model description, without markdown
+function summarize(description) {
+  if (!description) return undefined;
+  const text = description.split('\n\n')[0].replace(/`|\*\*/g, '').replace(/\s+/g, ' ').trim();
+  const sentence = /^(.+?\.)(\s|$)/.exec(text);
+  return sentence ? sentence[1] : text;
+}
+
+// MaxResultsPerPage -> Max results per page, sellerSkus -> Seller SKUs
+function labelFor(name) {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(' ')
+    .map(word => {
+      const acronym = ACRONYMS[word.toLowerCase()];
+      if (acronym) return acronym;
+      return word.length > 1 && word === word.toUpperCase() ? word : word.toLowerCase();
+    });
+  return words[0][0].toUpperCase() + words.join(' ').slice(1);
+}
+
+// Usage plan table of an operation description: | Rate (requests per second) | Burst |
+function parseRateLimit(description = '') {
+  const match = /\|\s*(\d*\.?\d+)\s*\|\s*(\d+)\s*\|/.exec(description);
+  return match ? { rate: Number(match[1]), burst: Number(match[2]) } : undefined;
+}
+
+function toParamField(parameter) {
+  const { name, type, items = {} } = parameter;
+  const field = { name, label: labelFor(name), type: 'text' };
+
+  if (/^marketplaceIds?$/i.test(name)) {
+    field.type = type === 'array' ? 'marketplaces' : 'marketplace';
+    field.label = type === 'array' ? 'Marketplaces' : 'Marketplace';
+  } else if (type === 'boolean') {
+    field.type = 'boolean';
+  } else if (type === 'integer' || type === 'number') {
+    field.type = 'number';
+  } else if (type === 'array') {
+    field.type = items.enum ? 'multi-select' : 'list';
+  } else if (parameter.enum) {
+    field.type = 'select';
+  } else if (parameter.format === 'date-time' || DATE_NAME.test(name)) {
+    field.type = 'date';
+  }
+
+  if (parameter.required) field.required = true;
+  const options = parameter.enum ?? items.enum;
+  if (options) field.options = options;
+  if (parameter.minimum !== undefined) field.min = parameter.minimum;
+  if (parameter.maximum !== undefined) field.max = parameter.maximum;
+  const description = summarize(parameter.description);
+  if (description) field.description = description;
+
+  return field;
+}
+
+function typeOf(schema, indent) {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.enum) return schema.enum.map(quote).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = typeOf(schema.items, indent);
+      return item.includes(' | ') ? `(${item})[]` : `${item}[]`;
+    }
+    default:
+      return schema.properties ? objectType(schema, indent) : 'Record<string, unknown>';
+  }
+}
+
+function objectType(schema, indent) {
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties).flatMap(([name, property]) => {
+    const description = summarize(property.description);
+    return [
+      ...(description ? [`${indent}  /** ${description.replace(/\*\//g, '*\\/')} */`] : []),
+      `${indent}  ${propertyKey(name)}${required.has(name) ? '' : '?'}: ${typeOf(property, `${indent}  `)};`
+    ];
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function emitTypes(model) {
+  const declarations = Object.entries(model.definitions ?? {}).map(([name, schema]) => {
+    const description = summarize(schema.description);
+    const doc = description ? `/** ${description.replace(/\*\//g, '*\\/')} */\n` : '';
+    return schema.properties
+      ? `${doc}export interface ${name} ${objectType(schema, '')}`
+      : `${doc}export type ${name} = ${typeOf(schema, '')};`;
+  });
+  return `${HEADER}// ${model.info.title.trim()}, version ${model.info.version}\n\n${declarations.join('\n\n')}\n`;
+}
+
+// Type of the data a successful call yields: the payload for operations that wrap their result in one
+function dataType(model, namespace, operation) {
+  const success = Object.entries(operation.responses ?? {}).find(([status]) => /^2\d\d$/.test(status));
+  const ref = success?.[1].schema?.$ref;
+  if (!ref) return 'unknown';
+
+  const name = refName(ref);
+  return model.definitions[name]?.properties?.payload
+    ? `NonNullable<${namespace}.${name}['payload']>`
+    : `${namespace}.${name}`;
+}
+
+// Serializes metadata as a TypeScript object literal in the repo's style
+function literal(value, indent = '') {
+  if (Array.isArray(value)) {
+    if (value.every(item => typeof item !== 'object')) return `[${value.map(item => literal(item)).join(', ')}]`;
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${indent}  ${literal(item, `${indent}  `)}`).join(',\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    // Flat objects such as parameter fields and rate limits go on one line
+    const flat = entries.every(([, entry]) => typeof entry !== 'object'
+      || (Array.isArray(entry) && entry.every(item => typeof item !== 'object')));
+    if (flat) {
+      return `{ ${entries.map(([key, entry]) => `${propertyKey(key)}: ${literal(entry)}`).join(', ')} }`;
+    }
+    return `{\n${entries.map(([key, entry]) => `${indent}  ${propertyKey(key)}: ${literal(entry, `${indent}  `)}`).join(',\n')}\n${indent}}`;
+  }
+  return typeof value === 'string' ? quote(value) : String(value);
+}
+
+const models = readdirSync(MODELS_DIR)
+  .filter(file => file.endsWith('.json'))
+  .sort()
+  .map(file => ({
+    api: basename(file, '.json'),
+    model: JSON.parse(readFileSync(join(MODELS_DIR, file), 'utf8'))
+  }));
+
+rmSync(OUTPUT_DIR, { recursive: true, force: true });
+mkdirSync(OUTPUT_DIR, { recursive: true });
+
+const operations = {};
+const dataTypes = [];
+
+for (const { api, model } of models) {
+  const namespace = pascalCase(api);
+  writeFileSync(join(OUTPUT_DIR, `${kebabCase(api)}.ts`), emitTypes(model));
+
+  operations[api] = {};
+  const apiDataTypes = [];
+
+  for (const [path, pathItem] of Object.entries(model.paths)) {
+    for (const [method, operation] of Object.entries(pathItem)) {
+      const parameters = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])];
+      const body = parameters.some(parameter => parameter.in === 'body');
+
+      operations[api][operation.operationId] = {
+        operationId: operation.operationId,
+        path,
+        method: method.toUpperCase(),
+        paramFields: parameters
+          .filter(parameter => (parameter.in === 'query' || parameter.in === 'path') && !PAGINATION_TOKEN.test(parameter.name))
+          .map(toParamField),
+        rateLimit: parseRateLimit(operation.description),
+        hasBody: body || undefined
+      };
+      apiDataTypes.push(`    ${operation.operationId}: ${dataType(model, namespace, operation)};`);
+    }
+  }
+
+  dataTypes.push(`  ${api}: {\n${apiDataTypes.join('\n')}\n  };`);
+}
+
+writeFileSync(join(OUTPUT_DIR, 'operations.ts'), `${HEADER}
+import type { SpApiOperation } from '../amazon-api';
+
+export const SP_API_OPERATIONS = ${literal(operations)} satisfies Record<string, Record<string, SpApiOperation>>;
+`);
+
+const namespaces = models.map(({ api }) => pascalCase(api));
+writeFileSync(join(OUTPUT_DIR, 'index.ts'), `${HEADER}
+${models.map(({ api }) => `import type * as ${pascalCase(api)} from './${kebabCase(api)}';`).join('\n')}
+
+export type { ${namespaces.join(', ')} };
+export { SP_API_OPERATIONS } from './operations';
+
+// Data of a successful call per API and operation: the payload for operations that wrap their result in one
+export interface SpApiOperationData {
+${dataTypes.join('\n')}
+}
+`);
+
+console.log(`Generated ${models.length} APIs into ${OUTPUT_DIR}`);
@@ -10,6 +10,11 @@ import CredentialsPage from "./pages/CredentialsPage";
 import SetupPage from "./pages/SetupPage";
 import NotFound from "./pages/NotFound";
 import HistoricalPage from "./pages/HistoricalPage";
+import EndpointsPage from "./pages/EndpointsPage";
+import ReportsPage from "./pages/ReportsPage";
+import FeedsPage from "./pages/FeedsPage";
+import BulkEditPage from "./pages/BulkEditPage";
+import { UnlockGate } from "./components/ui-components/UnlockGate";
 
 const queryClient = new QueryClient();
 
@@ -18,16 +23,22 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/dashboard" element={<DashboardPage />} />
-          <Route path="/credentials" element={<CredentialsPage />} />
-          <Route path="/setup" element={<SetupPage />} />
-          <Route path="/historical" element={<HistoricalPage />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <UnlockGate>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/dashboard" element={<DashboardPage />} />
+            <Route path="/credentials" element={<CredentialsPage />} />
+            <Route path="/setup" element={<SetupPage />} />
+            <Route path="/historical" element={<HistoricalPage />} />
+            <Route path="/endpoints" element={<EndpointsPage />} />
+            <Route path="/reports" element={<ReportsPage />} />
+            <Route path="/feeds" element={<FeedsPage />} />
+            <Route path="/bulk-edit" element={<BulkEditPage />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </UnlockGate>
     </TooltipProvider>
   </QueryClientProvider>
 );
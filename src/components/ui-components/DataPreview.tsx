@@ -2,13 +2,19 @@
 import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ApiResponse } from '@/types/amazon-api';
+import { SpApiOperationData } from '@/types/sp-api';
+import { isFlatFile } from '@/utils/flat-file';
+import { FlatFileTable } from './FlatFileTable';
+import { EyeOff, ShieldAlert } from 'lucide-react';
 
 interface DataPreviewProps {
   response: ApiResponse;
+  description?: string; // Replaces the line naming the endpoint, e.g. for report documents
 }
 
-export function DataPreview({ response }: DataPreviewProps) {
+export function DataPreview({ response, description }: DataPreviewProps) {
   const [activeTab, setActiveTab] = useState('preview');
   
   const renderPreview = () => {
@@ -20,10 +26,23 @@ export function DataPreview({ response }: DataPreviewProps) {
       );
     }
     
+    // Flat-file report documents are parsed into rows, whichever report they came from
+    if (isFlatFile(response.data)) {
+      return <FlatFileTable file={response.data} />;
+    }
+    if (typeof response.data === 'string') {
+      return (
+        <pre className="bg-gray-50 dark:bg-gray-900 p-4 rounded-md overflow-auto max-h-80 text-sm whitespace-pre">
+          {response.data}
+        </pre>
+      );
+    }
+    
     // Handle different types of data based on the endpoint
     switch (response.endpointId) {
-      case 'listings-items':
-        if (response.data.items && response.data.items.length > 0) {
+      case 'listings-items': {
+        const data = response.data as SpApiOperationData['listingsItems']['searchListingsItems'];
+        if (data.items && data.items.length > 0) {
           return (
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -37,29 +56,35 @@ export function DataPreview({ response }: DataPreviewProps) {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {response.data.items.slice(0, 5).map((item: any, index: number) => (
-                    <tr key={index}>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{item.sku}</td>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{item.asin}</td>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{item.title}</td>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">${item.price}</td>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{item.quantity}</td>
-                    </tr>
-                  ))}
+                  {data.items.slice(0, 5).map((item, index) => {
+                    const summary = item.summaries?.[0];
+                    const price = item.offers?.[0]?.price;
+                    return (
+                      <tr key={index}>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{item.sku}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{summary?.asin}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{summary?.itemName}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{price && `${price.currencyCode} ${price.amount}`}</td>
+                        <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{item.fulfillmentAvailability?.[0]?.quantity}</td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
-              {response.data.items.length > 5 && (
+              {data.items.length > 5 && (
                 <div className="text-center py-2 text-sm text-gray-500">
-                  Showing 5 of {response.data.items.length} items
+                  Showing 5 of {data.items.length} items
                 </div>
               )}
             </div>
           );
         }
         break;
+      }
         
-      case 'orders':
-        if (response.data.orders && response.data.orders.length > 0) {
+      case 'orders': {
+        const data = response.data as SpApiOperationData['ordersV0']['getOrders'];
+        if (data.Orders && data.Orders.length > 0) {
           return (
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -72,27 +97,28 @@ export function DataPreview({ response }: DataPreviewProps) {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {response.data.orders.slice(0, 5).map((order: any, index: number) => (
+                  {data.Orders.slice(0, 5).map((order, index) => (
                     <tr key={index}>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{order.orderId}</td>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{new Date(order.purchaseDate).toLocaleDateString()}</td>
-                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{order.orderStatus}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{order.AmazonOrderId}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{new Date(order.PurchaseDate).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{order.OrderStatus}</td>
                       <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">
-                        {order.orderTotal?.currencyCode} {order.orderTotal?.amount}
+                        {order.OrderTotal?.CurrencyCode} {order.OrderTotal?.Amount}
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
-              {response.data.orders.length > 5 && (
+              {data.Orders.length > 5 && (
                 <div className="text-center py-2 text-sm text-gray-500">
-                  Showing 5 of {response.data.orders.length} orders
+                  Showing 5 of {data.Orders.length} orders
                 </div>
               )}
             </div>
           );
         }
         break;
+      }
         
       // Add cases for other endpoint types as needed
       
@@ -117,14 +143,37 @@ export function DataPreview({ response }: DataPreviewProps) {
       <CardHeader className="pb-2">
         <CardTitle className="text-lg">Data Preview</CardTitle>
         <CardDescription>
-          Viewing data from the {response.endpointId.replace(/-/g, ' ')} endpoint
+          {description ?? `Viewing data from the ${response.endpointId.replace(/-/g, ' ')} endpoint`}
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {response.pii === 'requested' && (
+          <Alert className="mb-4 bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-800">
+            <ShieldAlert className="h-4 w-4 text-amber-500" />
+            <AlertTitle>Contains personal data</AlertTitle>
+            <AlertDescription className="text-sm">
+              Fetched with a Restricted Data Token, so buyer details and addresses are included.
+              Handle this data according to Amazon's Data Protection Policy.
+            </AlertDescription>
+          </Alert>
+        )}
+        
+        {response.pii === 'redacted' && (
+          <Alert className="mb-4">
+            <EyeOff className="h-4 w-4" />
+            <AlertTitle>Personal data redacted</AlertTitle>
+            <AlertDescription className="text-sm">
+              Amazon denied a Restricted Data Token for this endpoint, so buyer details and addresses were left out.
+              The application needs the corresponding restricted roles to receive them.
+            </AlertDescription>
+          </Alert>
+        )}
+        
         <Tabs defaultValue="preview" value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="mb-4">
             <TabsTrigger value="preview">Preview</TabsTrigger>
             <TabsTrigger value="raw">Raw JSON</TabsTrigger>
+            {response.params && <TabsTrigger value="params">Parameters</TabsTrigger>}
           </TabsList>
           
           <TabsContent value="preview" className="border rounded-md p-0 overflow-hidden">
@@ -136,6 +185,14 @@ export function DataPreview({ response }: DataPreviewProps) {
               {JSON.stringify(response.data, null, 2)}
             </pre>
           </TabsContent>
+          
+          {response.params && (
+            <TabsContent value="params" className="border rounded-md p-0 overflow-hidden">
+              <pre className="bg-gray-50 dark:bg-gray-900 p-4 rounded-md overflow-auto max-h-80 text-sm">
+                {JSON.stringify(response.params, null, 2)}
+              </pre>
+            </TabsContent>
+          )}
         </Tabs>
       </CardContent>
     </Card>
@@ -4,18 +4,44 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ApiEndpoint, ApiResponse } from '@/types/amazon-api';
-import { Clock, Database, RefreshCcw } from 'lucide-react';
+import { ApiEndpoint, ApiResponse, EndpointAvailability } from '@/types/amazon-api';
+import { Marketplace, getMarketplace } from '@/types/marketplaces';
+import { getParamFields } from '@/utils/param-schema';
+import { isInterval, isRelativeDate, isRelativeInterval, resolveIntervalEnds, resolveRelativeDate } from '@/utils/relative-date';
+import { ParamEditorDialog } from './ParamEditorDialog';
+import { AlertTriangle, CalendarRange, Clock, Database, GitBranch, Globe, Layers, Lock, RefreshCcw, SlidersHorizontal } from 'lucide-react';
 
 interface EndpointCardProps {
   endpoint: ApiEndpoint;
   response?: ApiResponse;
+  availability?: EndpointAvailability;
   onFetch: (endpoint: ApiEndpoint) => Promise<ApiResponse>;
   isLoading?: boolean;
+  params?: Record<string, unknown>; // Parameters the endpoint is fetched with
+  hasSavedParams?: boolean; // The parameters were edited rather than the defaults
+  marketplaces?: Marketplace[];
+  timeZone?: string; // Zone relative dates in the params are resolved in
+  onSaveParams?: (params: Record<string, unknown> | null) => Promise<void>;
+  parentEndpoint?: ApiEndpoint; // Endpoint whose ids this one is fetched for
 }
 
-export function EndpointCard({ endpoint, response, onFetch, isLoading }: EndpointCardProps) {
+export function EndpointCard({
+  endpoint,
+  response,
+  availability,
+  onFetch,
+  isLoading,
+  params,
+  hasSavedParams,
+  marketplaces = [],
+  timeZone = 'UTC',
+  onSaveParams,
+  parentEndpoint
+}: EndpointCardProps) {
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isEditingParams, setIsEditingParams] = useState(false);
+  const isUnavailable = availability?.status === 'unauthorized';
+  const canEditParams = !!onSaveParams && getParamFields(endpoint).length > 0;
   
   const handleFetch = async () => {
     setIsRefreshing(true);
@@ -26,28 +52,69 @@ export function EndpointCard({ endpoint, response, onFetch, isLoading }: Endpoin
     }
   };
   
+  const handleSaveParams = async (newParams: Record<string, unknown> | null, fetch: boolean) => {
+    await onSaveParams?.(newParams);
+    setIsEditingParams(false);
+    if (fetch) {
+      await handleFetch();
+    }
+  };
+  
   const getStatusBadge = () => {
+    if (isUnavailable) {
+      return <Badge variant="outline" className="bg-gray-100 text-gray-500">No Access</Badge>;
+    }
+    
     if (!response) {
       return <Badge variant="outline" className="bg-gray-100 text-gray-500">No Data</Badge>;
     }
     
+    if (response.skipped) {
+      return <Badge variant="outline" className="bg-gray-100 text-gray-500">Skipped</Badge>;
+    }
+    
     if (!response.success) {
       return <Badge variant="destructive">Error</Badge>;
     }
     
+    if (response.demo) {
+      return <Badge variant="secondary">Demo</Badge>;
+    }
+    
     return <Badge variant="default" className="bg-green-500 hover:bg-green-600">Success</Badge>;
   };
   
   const formattedDate = response?.timestamp 
     ? new Date(response.timestamp).toLocaleString() 
     : 'Never';
+  const marketplace = response?.marketplaceId ? getMarketplace(response.marketplaceId) : undefined;
+  const formatDate = (value: string) => {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toLocaleString(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+  };
+  // The date window the next fetch will cover, with relative dates resolved as of now
+  const dateRange = getParamFields(endpoint)
+    .filter(field => (field.type === 'date' || field.type === 'interval') && typeof params?.[field.name] === 'string')
+    .map(field => {
+      const value = params![field.name] as string;
+      return {
+        label: field.label,
+        value: field.type === 'interval'
+          ? isInterval(value) ? resolveIntervalEnds(value, timeZone).map(formatDate).join(' – ') : value
+          : formatDate(isRelativeDate(value) ? resolveRelativeDate(value, timeZone) : value),
+        expression: isRelativeDate(value) || isRelativeInterval(value) ? value : undefined
+      };
+    });
   
   return (
-    <Card className="glass glass-hover overflow-hidden transition-all duration-300 h-full flex flex-col">
+    <Card className={`glass glass-hover overflow-hidden transition-all duration-300 h-full flex flex-col ${isUnavailable ? 'opacity-60 grayscale' : ''}`}>
       <CardHeader className="pb-2">
         <div className="flex justify-between items-start">
           <CardTitle className="text-lg font-medium">{endpoint.name}</CardTitle>
-          {getStatusBadge()}
+          <div className="flex gap-1.5">
+            {endpoint.custom && <Badge variant="outline">Custom</Badge>}
+            {getStatusBadge()}
+          </div>
         </div>
         <CardDescription className="text-sm">{endpoint.description}</CardDescription>
       </CardHeader>
@@ -61,6 +128,17 @@ export function EndpointCard({ endpoint, response, onFetch, isLoading }: Endpoin
           </div>
         ) : (
           <div className="text-sm">
+            {isUnavailable && (
+              <div className="flex items-start gap-1.5 text-gray-600 dark:text-gray-300 mb-2">
+                <Lock className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>
+                  {endpoint.role
+                    ? `Your application lacks the ${endpoint.role} role. Add it in Developer Central and authorize the application again.`
+                    : 'Amazon denied access to this endpoint for your application.'}
+                </span>
+              </div>
+            )}
+            
             <div className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400 mb-2">
               <Clock className="h-3.5 w-3.5" />
               <span>Last Updated: {formattedDate}</span>
@@ -74,11 +152,101 @@ export function EndpointCard({ endpoint, response, onFetch, isLoading }: Endpoin
                 <span>No data available</span>
               )}
             </div>
+            
+            {dateRange.length > 0 && (
+              <div className="flex items-start gap-1.5 text-gray-500 dark:text-gray-400 mb-2">
+                <CalendarRange className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <div>
+                  {dateRange.map(entry => (
+                    <div key={entry.label}>
+                      {entry.label}: {entry.value}
+                      {entry.expression && <span className="text-xs"> ({entry.expression})</span>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
+            {endpoint.dependsOn && parentEndpoint && (
+              <div className="flex items-start gap-1.5 text-gray-500 dark:text-gray-400 mt-2">
+                <GitBranch className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>Fetched for each {endpoint.dependsOn.param} in the {parentEndpoint.name} data</span>
+              </div>
+            )}
+            
+            {endpoint.manual && (
+              <div className="flex items-start gap-1.5 text-gray-500 dark:text-gray-400 mt-2">
+                <SlidersHorizontal className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>Enter the {getParamFields(endpoint).find(field => field.required)?.label ?? 'parameters'} to fetch; not part of Fetch All</span>
+              </div>
+            )}
+            
+            {hasSavedParams && (
+              <div className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400 mt-2">
+                <SlidersHorizontal className="h-3.5 w-3.5" />
+                <span>Custom parameters</span>
+              </div>
+            )}
+            
+            {marketplace && (
+              <div className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400 mt-2">
+                <Globe className="h-3.5 w-3.5" />
+                <span>Marketplace: {marketplace.name}</span>
+              </div>
+            )}
+            
+            {response?.pageCount && response.pageCount > 1 && (
+              <div className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400 mt-2">
+                <Layers className="h-3.5 w-3.5" />
+                <span>
+                  Pages: {response.pageCount}
+                  {response.truncated && ' (page limit reached, more data available)'}
+                </span>
+              </div>
+            )}
+            
+            {response?.fanOutCount !== undefined && (
+              <div className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400 mt-2">
+                <Layers className="h-3.5 w-3.5" />
+                <span>
+                  Requests: {response.fanOutCount}
+                  {response.truncated && ' (request limit reached, more ids available)'}
+                </span>
+              </div>
+            )}
+            
+            {response?.skipped && (
+              <div className="flex items-start gap-1.5 text-gray-500 dark:text-gray-400 mt-2">
+                <GitBranch className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>Not fetched: {response.error}</span>
+              </div>
+            )}
+            
+            {response && !response.success && response.errorClass && (
+              <div className="flex items-start gap-1.5 text-red-500 dark:text-red-400 mt-2">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                <span>
+                  {response.errorClass === 'transient' ? 'Temporary' : 'Permanent'} failure
+                  {response.attempts ? ` after ${response.attempts} attempt${response.attempts === 1 ? '' : 's'}` : ''}
+                </span>
+              </div>
+            )}
           </div>
         )}
       </CardContent>
       
-      <CardFooter className="pt-2">
+      <CardFooter className="pt-2 gap-2">
+        {canEditParams && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsEditingParams(true)}
+            disabled={isRefreshing || isLoading}
+            title="Edit parameters"
+          >
+            <SlidersHorizontal className="h-3.5 w-3.5" />
+          </Button>
+        )}
         <Button
           variant="outline"
           size="sm"
@@ -99,6 +267,18 @@ export function EndpointCard({ endpoint, response, onFetch, isLoading }: Endpoin
           )}
         </Button>
       </CardFooter>
+      
+      {canEditParams && (
+        <ParamEditorDialog
+          endpoint={endpoint}
+          params={params}
+          marketplaces={marketplaces}
+          timeZone={timeZone}
+          open={isEditingParams}
+          onOpenChange={setIsEditingParams}
+          onSave={handleSaveParams}
+        />
+      )}
     </Card>
   );
 }
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FlatFile, FlatFileColumn, FlatFileValue } from '@/utils/flat-file';
+
+// Rows rendered at first and added per "Show more"; reports can have hundreds of thousands
+const PAGE_SIZE = 50;
+
+interface FlatFileTableProps {
+  file: FlatFile;
+}
+
+const formatValue = (value: FlatFileValue, column: FlatFileColumn) => {
+  if (value === null) return '';
+
+  switch (column.type) {
+    case 'number':
+      return (value as number).toLocaleString(undefined, { maximumFractionDigits: 10 });
+    case 'date':
+      return new Date(value as string).toLocaleString();
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+};
+
+export function FlatFileTable({ file }: FlatFileTableProps) {
+  const [visibleRows, setVisibleRows] = useState(PAGE_SIZE);
+
+  if (file.rows.length === 0) {
+    return (
+      <div className="py-4 text-center text-gray-500">
+        The report has no rows
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="overflow-auto max-h-[60vh]">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="sticky top-0 bg-white dark:bg-gray-900">
+            <tr>
+              {file.columns.map(column => (
+                <th
+                  key={column.key}
+                  title={column.key}
+                  className={`px-4 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap ${column.type === 'number' ? 'text-right' : 'text-left'}`}
+                >
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {file.rows.slice(0, visibleRows).map((row, index) => (
+              <tr key={index}>
+                {file.columns.map(column => (
+                  <td
+                    key={column.key}
+                    className={`px-4 py-2 text-sm text-gray-900 dark:text-gray-100 whitespace-nowrap ${column.type === 'number' ? 'text-right tabular-nums' : ''}`}
+                  >
+                    {formatValue(row[column.key], column)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-center gap-3 py-2 text-sm text-gray-500">
+        <span>
+          Showing {Math.min(visibleRows, file.rows.length).toLocaleString()} of {file.rows.length.toLocaleString()} rows
+          {' · '}
+          {file.columns.length} columns, {file.encoding}
+        </span>
+        {visibleRows < file.rows.length && (
+          <Button variant="ghost" size="sm" onClick={() => setVisibleRows(visibleRows + PAGE_SIZE)}>
+            Show more
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,15 +4,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { HistoricalSnapshot, ApiResponse } from '@/types/amazon-api';
+import { getMarketplace } from '@/types/marketplaces';
 import { DataPreview } from './DataPreview';
 import dbService from '@/services/db-service';
 import { Calendar, Clock } from 'lucide-react';
 
 interface HistoricalDataViewProps {
+  profileId: string;
   className?: string;
 }
 
-export function HistoricalDataView({ className }: HistoricalDataViewProps) {
+export function HistoricalDataView({ profileId, className }: HistoricalDataViewProps) {
   const [snapshots, setSnapshots] = useState<HistoricalSnapshot[]>([]);
   const [selectedSnapshot, setSelectedSnapshot] = useState<HistoricalSnapshot | null>(null);
   const [snapshotResponses, setSnapshotResponses] = useState<Record<string, ApiResponse>>({});
@@ -23,12 +25,11 @@ export function HistoricalDataView({ className }: HistoricalDataViewProps) {
     const loadSnapshots = async () => {
       try {
         setIsLoading(true);
-        const historicalSnapshots = await dbService.getHistoricalSnapshots();
+        const historicalSnapshots = await dbService.getHistoricalSnapshots(profileId);
         setSnapshots(historicalSnapshots);
-        
-        if (historicalSnapshots.length > 0) {
-          setSelectedSnapshot(historicalSnapshots[0]);
-        }
+        setSelectedSnapshot(historicalSnapshots.length > 0 ? historicalSnapshots[0] : null);
+        setSnapshotResponses({});
+        setSelectedEndpoint(null);
       } catch (error) {
         console.error('Failed to load historical snapshots:', error);
       } finally {
@@ -37,7 +38,7 @@ export function HistoricalDataView({ className }: HistoricalDataViewProps) {
     };
     
     loadSnapshots();
-  }, []);
+  }, [profileId]);
   
   useEffect(() => {
     const loadSnapshotData = async () => {
@@ -128,14 +129,19 @@ export function HistoricalDataView({ className }: HistoricalDataViewProps) {
               
               <TabsContent value="endpoints">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-                  {Object.entries(snapshotResponses).map(([endpointId, response]) => (
+                  {Object.entries(snapshotResponses).map(([key, response]) => (
                     <Card 
-                      key={endpointId} 
+                      key={key} 
                       className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                      onClick={() => setSelectedEndpoint(endpointId)}
+                      onClick={() => setSelectedEndpoint(key)}
                     >
                       <CardContent className="p-4">
-                        <div className="font-medium">{response.endpointId}</div>
+                        <div className="font-medium">
+                          {response.endpointId}
+                          {response.marketplaceId && (
+                            <span className="text-gray-500 font-normal"> ({getMarketplace(response.marketplaceId)?.name ?? response.marketplaceId})</span>
+                          )}
+                        </div>
                         <div className="text-sm text-gray-500">
                           Last updated: {formatDate(response.timestamp)}
                         </div>
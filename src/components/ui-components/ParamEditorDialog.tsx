@@ -0,0 +1,264 @@
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { ApiEndpoint, ParamField } from '@/types/amazon-api';
+import { Marketplace } from '@/types/marketplaces';
+import { ParamFormValue, ParamFormValues, buildParamSchema, fromFormValues, getParamFields, toFormValues } from '@/utils/param-schema';
+import { isRelativeDate, isRelativeInterval, resolveIntervalEnds, resolveRelativeDate } from '@/utils/relative-date';
+import { CalendarIcon } from 'lucide-react';
+
+interface ParamEditorDialogProps {
+  endpoint: ApiEndpoint;
+  params?: Record<string, unknown>;
+  marketplaces: Marketplace[]; // Choices for marketplace fields
+  timeZone: string; // Zone relative dates are resolved in
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // null restores the endpoint's defaults; fetch asks for the endpoint to be fetched right away
+  onSave: (params: Record<string, unknown> | null, fetch: boolean) => Promise<void>;
+}
+
+export function ParamEditorDialog({ open, onOpenChange, ...props }: ParamEditorDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        {open && <ParamEditorForm {...props} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ParamEditorForm({ endpoint, params, marketplaces, timeZone, onSave }: Omit<ParamEditorDialogProps, 'open' | 'onOpenChange'>) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [fields] = useState(() => getParamFields(endpoint));
+  const [schema] = useState(() => buildParamSchema(fields));
+
+  const form = useForm<ParamFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: toFormValues(fields, params),
+  });
+
+  const save = async (values: ParamFormValues | null, fetch: boolean) => {
+    setIsSaving(true);
+    try {
+      await onSave(values ? fromFormValues(fields, values, params ?? endpoint.defaultParams) : null, fetch);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => save(values, true))} className="space-y-4">
+        <DialogHeader>
+          <DialogTitle>{endpoint.name} Parameters</DialogTitle>
+          <DialogDescription>
+            These parameters are used for every fetch of this endpoint. Fetch All Data still covers the marketplaces of the profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fields.map(field => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: control }) => (
+              <FormItem>
+                <FormLabel>
+                  {field.label}
+                  {field.required && <span className="text-red-500"> *</span>}
+                </FormLabel>
+                <ParamInput field={field} marketplaces={marketplaces} timeZone={timeZone} value={control.value} onChange={control.onChange} />
+                {field.description && <FormDescription>{field.description}</FormDescription>}
+                {field.type === 'date' && <DateHint value={control.value as string} timeZone={timeZone} />}
+                {field.type === 'interval' && <IntervalHint value={control.value as string} timeZone={timeZone} />}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button type="button" variant="ghost" onClick={() => save(null, false)} disabled={isSaving}>
+            Reset to Defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={form.handleSubmit(values => save(values, false))} disabled={isSaving}>
+              Save
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              Save and Fetch
+            </Button>
+          </div>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
+// Shows what a relative date currently stands for
+function DateHint({ value, timeZone }: { value: string; timeZone: string }) {
+  if (!isRelativeDate(value)) {
+    return <FormDescription>A date, or an expression such as now-30d, yesterday or startOfMonth-1M</FormDescription>;
+  }
+
+  const resolved = new Date(resolveRelativeDate(value, timeZone));
+  return (
+    <FormDescription>
+      Currently {resolved.toLocaleString(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' })} ({timeZone}),
+      resolved again for every fetch
+    </FormDescription>
+  );
+}
+
+// Shows the window a relative interval currently covers
+function IntervalHint({ value, timeZone }: { value: string; timeZone: string }) {
+  if (!isRelativeInterval(value)) {
+    return <FormDescription>Two dates or expressions joined by --, such as now-30d--now or startOfMonth-1M--startOfMonth</FormDescription>;
+  }
+
+  const [start, end] = resolveIntervalEnds(value, timeZone)
+    .map(date => new Date(date).toLocaleString(undefined, { timeZone, dateStyle: 'medium', timeStyle: 'short' }));
+  return (
+    <FormDescription>
+      Currently {start} to {end} ({timeZone}), resolved again for every fetch
+    </FormDescription>
+  );
+}
+
+interface ParamInputProps {
+  field: ParamField;
+  marketplaces: Marketplace[];
+  timeZone: string;
+  value: ParamFormValue;
+  onChange: (value: ParamFormValue) => void;
+}
+
+function ParamInput({ field, marketplaces, timeZone, value, onChange }: ParamInputProps) {
+  switch (field.type) {
+    case 'boolean':
+      return (
+        <FormControl>
+          <Switch checked={value === true} onCheckedChange={onChange} />
+        </FormControl>
+      );
+
+    case 'select':
+      return (
+        <Select value={value as string} onValueChange={onChange}>
+          <FormControl>
+            <SelectTrigger>
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+          </FormControl>
+          <SelectContent>
+            {(field.options ?? []).map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'marketplace':
+      return (
+        <Select value={value as string} onValueChange={onChange}>
+          <FormControl>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a marketplace" />
+            </SelectTrigger>
+          </FormControl>
+          <SelectContent>
+            {marketplaces.map(marketplace => (
+              <SelectItem key={marketplace.id} value={marketplace.id}>
+                {marketplace.name} ({marketplace.countryCode})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'multi-select':
+    case 'marketplaces': {
+      const selected = value as string[];
+      const choices = field.type === 'marketplaces'
+        ? marketplaces.map(marketplace => ({ value: marketplace.id, label: marketplace.name }))
+        : (field.options ?? []).map(option => ({ value: option, label: option }));
+      // Keep values that aren't among the choices, e.g. from older defaults, visible and removable
+      selected
+        .filter(entry => !choices.some(choice => choice.value === entry))
+        .forEach(entry => choices.push({ value: entry, label: entry }));
+
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          {choices.map(choice => (
+            <label key={choice.value} className="flex items-center gap-2 text-sm break-all">
+              <Checkbox
+                checked={selected.includes(choice.value)}
+                onCheckedChange={checked => onChange(checked
+                  ? [...selected, choice.value]
+                  : selected.filter(entry => entry !== choice.value))}
+              />
+              {choice.label}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'date': {
+      const text = value as string;
+      const date = isRelativeDate(text)
+        ? new Date(resolveRelativeDate(text, timeZone))
+        : text && !Number.isNaN(Date.parse(text)) ? new Date(text) : undefined;
+
+      return (
+        <div className="flex gap-2">
+          <FormControl>
+            <Input value={value as string} onChange={event => onChange(event.target.value)} placeholder="now-30d" className="font-mono text-sm" />
+          </FormControl>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" size="icon" title={date ? format(date, 'PPP') : 'Pick a date'}>
+                <CalendarIcon className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="single"
+                selected={date}
+                onSelect={day => day && onChange(day.toISOString())}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <FormControl>
+          <Input
+            type={field.type === 'number' ? 'number' : 'text'}
+            min={field.min}
+            max={field.max}
+            value={value as string}
+            onChange={event => onChange(event.target.value)}
+            placeholder={field.type === 'interval' ? 'now-30d--now' : undefined}
+            className={field.type === 'interval' ? 'font-mono text-sm' : undefined}
+          />
+        </FormControl>
+      );
+  }
+}
@@ -0,0 +1,95 @@
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import profileService from '@/services/profile-service';
+import { useActiveProfile } from '@/hooks/use-active-profile';
+import { useFetchRun } from '@/hooks/use-fetch-run';
+import { UserPlus } from 'lucide-react';
+
+export function ProfileSwitcher() {
+  const navigate = useNavigate();
+  const { profileId, profiles } = useActiveProfile();
+  // A Fetch All run continues in the background and belongs to the profile it started with
+  const { isRunning } = useFetchRun();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleProfileChange = async (value: string) => {
+    try {
+      await profileService.setActiveProfile(value);
+    } catch (error) {
+      console.error('Failed to switch profile:', error);
+      toast.error('Failed to switch profile');
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      const profile = await profileService.createProfile(name.trim());
+      setIsDialogOpen(false);
+      setName('');
+      toast.success(`Profile "${profile.name}" created`, {
+        description: 'Enter the credentials of this seller account'
+      });
+      navigate('/credentials');
+    } catch (error) {
+      console.error('Failed to create profile:', error);
+      toast.error('Failed to create profile');
+    }
+  };
+
+  return (
+    <>
+      <Select value={profileId} onValueChange={handleProfileChange} disabled={isRunning}>
+        <SelectTrigger className="w-40 h-9">
+          <SelectValue placeholder="Profile" />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="icon" onClick={() => setIsDialogOpen(true)} disabled={isRunning} title="New profile">
+        <UserPlus className="h-5 w-5" />
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>New Seller Profile</DialogTitle>
+              <DialogDescription>
+                Each profile has its own credentials, marketplaces and stored data.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="profile-name">Name</Label>
+              <Input
+                id="profile-name"
+                value={name}
+                onChange={event => setName(event.target.value)}
+                placeholder="e.g. Acme EU"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim()}>Create Profile</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ReportDocumentContent, ReportRequest } from '@/types/amazon-api';
+import { getMarketplace } from '@/types/marketplaces';
+import { getReportTypeName } from '@/types/report-types';
+import reportService from '@/services/report-service';
+import { useReports } from '@/hooks/use-reports';
+import { DataPreview } from './DataPreview';
+import { toast } from 'sonner';
+import { Eye, FileText } from 'lucide-react';
+
+interface ReportHistoryProps {
+  className?: string;
+}
+
+// Stored report documents of the active profile, grouped by report type and newest first
+export function ReportHistory({ className }: ReportHistoryProps) {
+  const { reports } = useReports();
+  const [viewing, setViewing] = useState<{ report: ReportRequest; document: ReportDocumentContent } | null>(null);
+
+  const history = new Map<string, ReportRequest[]>();
+  reports
+    .filter(report => report.status === 'DONE' && report.documentStored)
+    .forEach(report => history.set(report.reportType, [...(history.get(report.reportType) ?? []), report]));
+
+  const handleView = async (report: ReportRequest) => {
+    const document = await reportService.getDocument(report.reportId);
+    if (document) {
+      setViewing({ report, document });
+    } else {
+      toast.error('The report document is no longer stored');
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Report History
+        </CardTitle>
+        <CardDescription>
+          Documents of requested and scheduled reports, by report type
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {history.size === 0 && (
+          <div className="text-center text-gray-500 dark:text-gray-400">No report documents stored yet</div>
+        )}
+
+        {[...history].map(([reportType, documents]) => (
+          <div key={reportType}>
+            <div className="flex items-baseline justify-between gap-2 mb-2">
+              <div>
+                <span className="font-medium">{getReportTypeName(reportType)}</span>
+                <span className="ml-2 text-xs font-mono text-gray-500 break-all">{reportType}</span>
+              </div>
+              <span className="text-sm text-gray-500 whitespace-nowrap">{documents.length} documents</span>
+            </div>
+            <div className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              {documents.map(report => (
+                <div key={report.reportId} className="flex items-center justify-between gap-2 py-2">
+                  <div>
+                    {new Date(report.requestedAt).toLocaleString()}
+                    {report.scheduleId && <Badge variant="outline" className="ml-2">Scheduled</Badge>}
+                    <div className="text-gray-500 dark:text-gray-400">
+                      {report.marketplaceIds.map(id => getMarketplace(id)?.countryCode ?? id).join(', ')}
+                      {(report.dataStartTime || report.dataEndTime) && (
+                        <>
+                          {' · '}
+                          {report.dataStartTime ? new Date(report.dataStartTime).toLocaleDateString() : '…'}
+                          {' – '}
+                          {report.dataEndTime ? new Date(report.dataEndTime).toLocaleDateString() : 'now'}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleView(report)}>
+                    <Eye className="h-4 w-4 mr-2" />
+                    View
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!viewing} onOpenChange={open => !open && setViewing(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{getReportTypeName(viewing.report.reportType)}</DialogTitle>
+                <DialogDescription>
+                  Requested {new Date(viewing.report.requestedAt).toLocaleString()}
+                  {', '}
+                  {viewing.document.size.toLocaleString()} bytes
+                </DialogDescription>
+              </DialogHeader>
+              <DataPreview
+                response={{
+                  endpointId: viewing.report.reportType,
+                  data: viewing.document.data,
+                  timestamp: viewing.document.storedAt,
+                  success: true
+                }}
+                description={`Report ${viewing.report.reportId}`}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+
+import { ReactNode, useEffect, useState } from 'react';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import credentialVault, { InvalidPassphraseError, MIN_PASSPHRASE_LENGTH, VaultState } from '@/services/credential-vault';
+import { KeyRound, Lock } from 'lucide-react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+const unlockSchema = z.object({
+  passphrase: z.string().min(1, { message: 'Passphrase is required' }),
+  confirmPassphrase: z.string().optional(),
+});
+
+interface UnlockGateProps {
+  children: ReactNode;
+}
+
+// Renders the app only once stored credentials are decrypted, and again after an auto-lock
+export function UnlockGate({ children }: UnlockGateProps) {
+  const [state, setState] = useState<VaultState | null>(null);
+
+  useEffect(() => {
+    const refreshState = () => {
+      credentialVault.getState()
+        .then(setState)
+        .catch(error => {
+          console.error('Failed to read the credential store:', error);
+          setState('empty');
+        });
+    };
+
+    refreshState();
+    return credentialVault.onChange(refreshState);
+  }, []);
+
+  useEffect(() => {
+    const handleActivity = () => credentialVault.touch();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, []);
+
+  if (state === null) {
+    return null;
+  }
+
+  if (state === 'locked' || state === 'plaintext') {
+    return <UnlockScreen migrating={state === 'plaintext'} />;
+  }
+
+  return <>{children}</>;
+}
+
+function UnlockScreen({ migrating }: { migrating: boolean }) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<z.infer<typeof unlockSchema>>({
+    resolver: zodResolver(migrating
+      ? unlockSchema.extend({
+          passphrase: z.string().min(MIN_PASSPHRASE_LENGTH, { message: `Use at least ${MIN_PASSPHRASE_LENGTH} characters` }),
+        }).refine(data => data.passphrase === data.confirmPassphrase, {
+          message: 'Passphrases do not match',
+          path: ['confirmPassphrase'],
+        })
+      : unlockSchema),
+    defaultValues: {
+      passphrase: '',
+      confirmPassphrase: '',
+    },
+  });
+
+  const onSubmit = async (data: z.infer<typeof unlockSchema>) => {
+    setIsSubmitting(true);
+
+    try {
+      await credentialVault.unlock(data.passphrase);
+      if (migrating) {
+        toast.success('Your stored credentials are now encrypted');
+      }
+    } catch (error) {
+      if (error instanceof InvalidPassphraseError) {
+        form.setError('passphrase', { message: error.message });
+      } else {
+        console.error('Failed to unlock credentials:', error);
+        toast.error('Failed to unlock credentials');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('This deletes the stored credentials. You will need to enter them again. Continue?')) {
+      return;
+    }
+
+    try {
+      await credentialVault.reset();
+      toast.info('Stored credentials removed');
+    } catch (error) {
+      console.error('Failed to remove credentials:', error);
+      toast.error('Failed to remove credentials');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-gray-50 dark:bg-gray-900">
+      <div className="w-full max-w-md animate-fade-in">
+        <Card className="glass border-opacity-40">
+          <CardHeader className="space-y-1">
+            <div className="flex items-center justify-center mb-6">
+              {migrating ? <KeyRound className="h-12 w-12 text-primary" /> : <Lock className="h-12 w-12 text-primary" />}
+            </div>
+            <CardTitle className="text-2xl font-semibold text-center">
+              {migrating ? 'Protect Your Credentials' : 'Unlock Credentials'}
+            </CardTitle>
+            <CardDescription className="text-center">
+              {migrating
+                ? 'Your stored SP-API credentials are not encrypted yet. Choose a passphrase to encrypt them.'
+                : 'Enter your passphrase to decrypt your SP-API credentials'}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="passphrase"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Passphrase</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete={migrating ? 'new-password' : 'current-password'} autoFocus {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {migrating && (
+                  <FormField
+                    control={form.control}
+                    name="confirmPassphrase"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm Passphrase</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          The passphrase can't be recovered. If you forget it, you'll have to enter your credentials again.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Decrypting...' : migrating ? 'Encrypt Credentials' : 'Unlock'}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+
+          {!migrating && (
+            <CardFooter className="flex justify-center border-t bg-gray-50/50 dark:bg-gray-800/20 py-4">
+              <Button variant="link" className="h-auto p-0 text-sm" onClick={handleReset}>
+                Forgot your passphrase?
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import * as React from "react"
+import profileService from "@/services/profile-service"
+import { SellerProfile } from "@/types/amazon-api"
+
+// The active seller profile, updated whenever profiles are switched or edited
+export function useActiveProfile() {
+  const [profile, setProfile] = React.useState<SellerProfile | undefined>(profileService.getActiveProfile())
+  const [profiles, setProfiles] = React.useState<SellerProfile[]>(profileService.getProfiles())
+
+  React.useEffect(() => {
+    const onChange = () => {
+      setProfile(profileService.getActiveProfile())
+      setProfiles(profileService.getProfiles())
+    }
+    profileService.whenReady().then(onChange)
+    return profileService.onChange(onChange)
+  }, [])
+
+  return {
+    profile,
+    profiles,
+    profileId: profile?.id ?? profileService.getActiveProfileId(),
+  }
+}
@@ -0,0 +1,16 @@
+import * as React from "react"
+import endpointRegistry from "@/services/endpoint-registry"
+import { ApiEndpoint } from "@/types/amazon-api"
+
+// Built-in and custom endpoints, updated whenever a custom endpoint is added, edited or removed
+export function useEndpoints(): ApiEndpoint[] {
+  const [endpoints, setEndpoints] = React.useState<ApiEndpoint[]>(endpointRegistry.getEndpoints())
+
+  React.useEffect(() => {
+    const onChange = () => setEndpoints(endpointRegistry.getEndpoints())
+    endpointRegistry.whenReady().then(onChange)
+    return endpointRegistry.onChange(onChange)
+  }, [])
+
+  return endpoints
+}
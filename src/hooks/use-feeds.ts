@@ -0,0 +1,20 @@
+import * as React from "react"
+import feedService from "@/services/feed-service"
+import { FeedSubmission } from "@/types/amazon-api"
+
+// Feeds submitted for the active profile and the ids of those being checked, updated as their status changes
+export function useFeeds() {
+  const [feeds, setFeeds] = React.useState<FeedSubmission[]>(feedService.getFeeds())
+  const [trackedIds, setTrackedIds] = React.useState<string[]>(feedService.getTrackedFeedIds())
+
+  React.useEffect(() => {
+    const onChange = () => {
+      setFeeds(feedService.getFeeds())
+      setTrackedIds(feedService.getTrackedFeedIds())
+    }
+    feedService.whenReady().then(onChange)
+    return feedService.onChange(onChange)
+  }, [])
+
+  return { feeds, trackedIds }
+}
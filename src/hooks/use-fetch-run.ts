@@ -0,0 +1,18 @@
+import * as React from "react"
+import amazonService from "@/services/amazon-service"
+import { ProgressStatus } from "@/types/amazon-api"
+
+// Whether a Fetch All run is in progress and how far it got; the run continues when the page is left
+export function useFetchRun() {
+  const [isRunning, setIsRunning] = React.useState(amazonService.isFetchRunning())
+  const [progress, setProgress] = React.useState<ProgressStatus>(amazonService.getProgressStatus())
+
+  React.useEffect(() => {
+    return amazonService.onProgressUpdate((status) => {
+      setProgress(status)
+      setIsRunning(amazonService.isFetchRunning())
+    })
+  }, [])
+
+  return { isRunning, progress }
+}
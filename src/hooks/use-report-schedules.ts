@@ -0,0 +1,21 @@
+import * as React from "react"
+import reportScheduleService from "@/services/report-schedule-service"
+import { LocalReportSchedule } from "@/types/amazon-api"
+import { Reports } from "@/types/sp-api"
+
+// Amazon report schedules listed so far and the local schedules of the active profile
+export function useReportSchedules() {
+  const [amazonSchedules, setAmazonSchedules] = React.useState<Reports.ReportSchedule[]>(reportScheduleService.getAmazonSchedules())
+  const [localSchedules, setLocalSchedules] = React.useState<LocalReportSchedule[]>(reportScheduleService.getLocalSchedules())
+
+  React.useEffect(() => {
+    const onChange = () => {
+      setAmazonSchedules(reportScheduleService.getAmazonSchedules())
+      setLocalSchedules(reportScheduleService.getLocalSchedules())
+    }
+    reportScheduleService.whenReady().then(onChange)
+    return reportScheduleService.onChange(onChange)
+  }, [])
+
+  return { amazonSchedules, localSchedules }
+}
@@ -0,0 +1,20 @@
+import * as React from "react"
+import reportService from "@/services/report-service"
+import { ReportRequest } from "@/types/amazon-api"
+
+// Reports requested for the active profile and the ids of those being checked, updated as their status changes
+export function useReports() {
+  const [reports, setReports] = React.useState<ReportRequest[]>(reportService.getReports())
+  const [trackedIds, setTrackedIds] = React.useState<string[]>(reportService.getTrackedReportIds())
+
+  React.useEffect(() => {
+    const onChange = () => {
+      setReports(reportService.getReports())
+      setTrackedIds(reportService.getTrackedReportIds())
+    }
+    reportService.whenReady().then(onChange)
+    return reportService.onChange(onChange)
+  }, [])
+
+  return { reports, trackedIds }
+}
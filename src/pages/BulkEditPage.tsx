@@ -0,0 +1,414 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ProfileSwitcher } from '@/components/ui-components/ProfileSwitcher';
+import { toast } from 'sonner';
+import { ListingChange } from '@/types/amazon-api';
+import { getMarketplace } from '@/types/marketplaces';
+import amazonService from '@/services/amazon-service';
+import dbService from '@/services/db-service';
+import feedService from '@/services/feed-service';
+import { useActiveProfile } from '@/hooks/use-active-profile';
+import { useFeeds } from '@/hooks/use-feeds';
+import { ListingChangeResult, ListingRow, buildListingsFeed, extractListingRows, getListingChangeResults } from '@/utils/listing-feed';
+import { AlertTriangle, CheckCircle2, Database, LayoutDashboard, Loader2, Pencil, Undo2, Upload, XCircle } from 'lucide-react';
+
+// Edited values as typed; an empty value leaves the current one
+interface RowEdit {
+  price: string;
+  quantity: string;
+}
+
+const EMPTY_EDIT: RowEdit = { price: '', quantity: '' };
+
+const parsePrice = (value: string) => (/^\d+(\.\d{1,2})?$/.test(value.trim()) && Number(value) > 0 ? Number(value) : undefined);
+const parseQuantity = (value: string) => (/^\d+$/.test(value.trim()) ? Number(value) : undefined);
+
+const formatPrice = (amount?: number, currency?: string) => (
+  amount === undefined ? '–' : amount.toLocaleString(undefined, { style: 'currency', currency: currency ?? 'USD' })
+);
+
+// Why a field of the row can't be edited: a PATCH needs the listing's product type, and a price its currency
+const UNKNOWN_PRODUCT_TYPE = 'Only in FBA inventory: fetch Listings Items with this SKU to edit it';
+const getPriceLock = (row: ListingRow) => (
+  !row.productType ? UNKNOWN_PRODUCT_TYPE : !row.currency ? 'The currency of this listing is unknown' : undefined
+);
+const getQuantityLock = (row: ListingRow) => (
+  !row.productType ? UNKNOWN_PRODUCT_TYPE : row.fulfilledByAmazon ? 'Amazon sets the quantity of FBA listings' : undefined
+);
+
+const RESULT_STYLES: Record<ListingChangeResult['status'], string> = {
+  pending: 'text-gray-500',
+  accepted: 'text-green-600',
+  rejected: 'text-red-500',
+};
+
+export default function BulkEditPage() {
+  const navigate = useNavigate();
+  const { profileId } = useActiveProfile();
+  const { feeds } = useFeeds();
+  const [rows, setRows] = useState<ListingRow[]>([]);
+  const [sellerId, setSellerId] = useState('');
+  const [edits, setEdits] = useState<Record<string, RowEdit>>({});
+  const [filter, setFilter] = useState('');
+  const [priceAdjustment, setPriceAdjustment] = useState('');
+  const [bulkQuantity, setBulkQuantity] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const demoMode = amazonService.isDemoMode();
+  const marketplaceId = amazonService.getSelectedMarketplaceId();
+
+  useEffect(() => {
+    if (!amazonService.hasCredentials()) {
+      navigate('/credentials');
+    }
+  }, [navigate]);
+
+  useEffect(() => {
+    const loadListings = async () => {
+      try {
+        setIsLoading(true);
+        await amazonService.whenReady();
+        const responses = await dbService.getLatestResponses(profileId, amazonService.getSelectedMarketplaceId());
+        setRows(extractListingRows(amazonService.getSelectedMarketplaceId(), responses['listings-items'], responses['inventory']));
+        // The merchant token the listings were fetched with is the seller id the feed needs
+        setSellerId(String(responses['listings-items']?.params?.sellerId ?? ''));
+        setEdits({});
+      } catch (error) {
+        console.error('Failed to load listings:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadListings();
+  }, [profileId]);
+
+  const results = getListingChangeResults(feeds.filter(feed => feed.marketplaceIds.includes(marketplaceId)));
+  const query = filter.trim().toLowerCase();
+  const visibleRows = query
+    ? rows.filter(row => [row.sku, row.asin, row.title].some(value => value?.toLowerCase().includes(query)))
+    : rows;
+
+  // Edits that differ from the current values; unparseable ones block the submission
+  const invalidSkus = new Set<string>();
+  const changes: ListingChange[] = rows.flatMap(row => {
+    const edit = edits[row.sku];
+    if (!edit) return [];
+
+    const price = parsePrice(edit.price);
+    const quantity = parseQuantity(edit.quantity);
+    if (
+      (edit.price.trim() && (price === undefined || getPriceLock(row)))
+      || (edit.quantity.trim() && (quantity === undefined || getQuantityLock(row)))
+      || !row.productType
+    ) {
+      invalidSkus.add(row.sku);
+      return [];
+    }
+
+    const change: ListingChange = { sku: row.sku, productType: row.productType, currency: row.currency };
+    if (price !== undefined && price !== row.price) change.price = { from: row.price, to: price };
+    if (quantity !== undefined && quantity !== row.quantity) change.quantity = { from: row.quantity, to: quantity };
+    return change.price || change.quantity ? [change] : [];
+  });
+
+  const updateEdit = (sku: string, field: keyof RowEdit, value: string) => {
+    setEdits(current => ({ ...current, [sku]: { ...(current[sku] ?? EMPTY_EDIT), [field]: value } }));
+  };
+
+  // Bulk changes apply to the rows the filter shows
+  const applyPriceAdjustment = () => {
+    const percent = Number(priceAdjustment);
+    if (!priceAdjustment.trim() || Number.isNaN(percent)) return;
+
+    setEdits(current => {
+      const next = { ...current };
+      visibleRows.filter(row => !getPriceLock(row)).forEach(row => {
+        const base = parsePrice(current[row.sku]?.price ?? '') ?? row.price;
+        if (base === undefined) return;
+        const price = Math.max(0.01, Math.round(base * (100 + percent)) / 100);
+        next[row.sku] = { ...(current[row.sku] ?? EMPTY_EDIT), price: price.toFixed(2) };
+      });
+      return next;
+    });
+  };
+
+  const applyBulkQuantity = () => {
+    if (parseQuantity(bulkQuantity) === undefined) return;
+
+    setEdits(current => {
+      const next = { ...current };
+      visibleRows
+        .filter(row => !getQuantityLock(row))
+        .forEach(row => {
+          next[row.sku] = { ...(current[row.sku] ?? EMPTY_EDIT), quantity: bulkQuantity.trim() };
+        });
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const feed = await feedService.submitFeed({
+        feedType: 'JSON_LISTINGS_FEED',
+        marketplaceIds: [marketplaceId],
+        content: buildListingsFeed(sellerId.trim(), marketplaceId, changes),
+        changes
+      });
+      toast.success(`Submitted changes to ${feed.recordCount} SKUs`, {
+        description: 'Amazon is processing the feed; the result of each change is shown next to its SKU.'
+      });
+      setEdits({});
+      setIsReviewing(false);
+    } catch (error) {
+      console.error('Failed to submit listing changes:', error);
+      toast.error('Failed to submit the changes', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderResult = (result?: ListingChangeResult) => {
+    if (!result) return null;
+
+    const Icon = result.status === 'accepted' ? CheckCircle2 : result.status === 'rejected' ? XCircle : Loader2;
+    const description = result.issues.map(issue => `${issue.severity}: ${issue.message}`).join('\n');
+    return (
+      <div className={`flex items-start gap-1.5 ${RESULT_STYLES[result.status]}`} title={description || undefined}>
+        <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${result.status === 'pending' ? 'animate-spin' : ''}`} />
+        <span>
+          {result.status === 'pending' && 'Submitted'}
+          {result.status === 'accepted' && (result.issues.length > 0 ? 'Updated with warnings' : 'Updated')}
+          {result.status === 'rejected' && (result.issues.find(issue => issue.severity === 'ERROR')?.message ?? 'Rejected')}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-8">
+      <header className="sticky top-0 z-40 w-full bg-white/70 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-800">
+        <div className="container mx-auto px-4 flex h-16 items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Database className="h-6 w-6 text-primary" />
+            <h1 className="text-xl font-semibold">Amazon SP-API Data Extractor</h1>
+          </div>
+          <div className="flex items-center space-x-2">
+            <ProfileSwitcher />
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+              <LayoutDashboard className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/feeds')}>
+              <Upload className="h-4 w-4 mr-2" />
+              Feeds
+            </Button>
+            <Button variant="outline" size="sm" className="font-medium">
+              <Pencil className="h-4 w-4 mr-2" />
+              Bulk Edit
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 pt-6">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold mb-2">Bulk Price and Quantity Editor</h2>
+          <p className="text-gray-500">
+            Change the prices and quantities of many SKUs of {getMarketplace(marketplaceId)?.name ?? marketplaceId} at once.
+            The current values come from the latest Listings Items and Inventory data; the changes are submitted as one
+            listings feed.
+          </p>
+        </div>
+
+        {demoMode && (
+          <div className="flex items-start gap-2 text-sm text-amber-600 mb-4">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>Changes can't be submitted in demo mode. Turn demo mode off on the dashboard first.</span>
+          </div>
+        )}
+
+        <Card className="glass">
+          <CardHeader>
+            <div className="flex flex-wrap justify-between items-start gap-4">
+              <div>
+                <CardTitle className="text-lg">Listings</CardTitle>
+                <CardDescription>
+                  {rows.length} SKUs{changes.length > 0 && `, ${changes.length} changed`}
+                  {invalidSkus.size > 0 && `, ${invalidSkus.size} with invalid values`}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" disabled={Object.keys(edits).length === 0} onClick={() => setEdits({})}>
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Discard Changes
+                </Button>
+                <Button size="sm" disabled={changes.length === 0 || invalidSkus.size > 0} onClick={() => setIsReviewing(true)}>
+                  Review {changes.length} Changes
+                </Button>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-end gap-4 pt-2">
+              <div className="space-y-1">
+                <Label htmlFor="listing-filter">Filter</Label>
+                <Input id="listing-filter" placeholder="SKU, ASIN or title" value={filter} onChange={event => setFilter(event.target.value)} className="w-56" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-adjustment">Adjust prices by %</Label>
+                <div className="flex gap-2">
+                  <Input id="price-adjustment" placeholder="-5" value={priceAdjustment} onChange={event => setPriceAdjustment(event.target.value)} className="w-24" />
+                  <Button variant="outline" size="sm" className="h-10" onClick={applyPriceAdjustment}>Apply</Button>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bulk-quantity">Set quantities to</Label>
+                <div className="flex gap-2">
+                  <Input id="bulk-quantity" placeholder="10" value={bulkQuantity} onChange={event => setBulkQuantity(event.target.value)} className="w-24" />
+                  <Button variant="outline" size="sm" className="h-10" onClick={applyBulkQuantity}>Apply</Button>
+                </div>
+              </div>
+              {query && <span className="text-sm text-gray-500 pb-2">Bulk changes apply to the {visibleRows.length} filtered SKUs</span>}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="py-8 text-center text-gray-500"><Loader2 className="h-5 w-5 animate-spin inline" /></div>
+            ) : rows.length === 0 ? (
+              <div className="py-8 text-center text-gray-500 dark:text-gray-400">
+                No listings yet. Fetch the Listings Items and Inventory endpoints on the dashboard first.
+              </div>
+            ) : (
+              <div className="overflow-auto max-h-[65vh]">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead className="sticky top-0 bg-white dark:bg-gray-900 z-10">
+                    <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      <th className="px-3 py-2">SKU</th>
+                      <th className="px-3 py-2">Title</th>
+                      <th className="px-3 py-2 text-right">Price</th>
+                      <th className="px-3 py-2">New Price</th>
+                      <th className="px-3 py-2 text-right">Quantity</th>
+                      <th className="px-3 py-2">New Quantity</th>
+                      <th className="px-3 py-2 text-right">FBA Units</th>
+                      <th className="px-3 py-2">Last Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {visibleRows.map(row => {
+                      const edit = edits[row.sku] ?? EMPTY_EDIT;
+                      const invalidPrice = !!edit.price.trim() && parsePrice(edit.price) === undefined;
+                      const invalidQuantity = !!edit.quantity.trim() && parseQuantity(edit.quantity) === undefined;
+
+                      return (
+                        <tr key={row.sku} className="align-top">
+                          <td className="px-3 py-2 font-mono text-xs whitespace-nowrap">
+                            {row.sku}
+                            {row.asin && <div className="text-gray-500">{row.asin}</div>}
+                          </td>
+                          <td className="px-3 py-2 max-w-xs truncate" title={row.title}>{row.title}</td>
+                          <td className="px-3 py-2 text-right tabular-nums whitespace-nowrap">{formatPrice(row.price, row.currency)}</td>
+                          <td className="px-3 py-2">
+                            <Input
+                              value={edit.price}
+                              placeholder={row.price?.toFixed(2)}
+                              disabled={!!getPriceLock(row)}
+                              title={getPriceLock(row)}
+                              onChange={event => updateEdit(row.sku, 'price', event.target.value)}
+                              className={`h-8 w-24 tabular-nums ${invalidPrice ? 'border-red-500' : ''}`}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-right tabular-nums">{row.fulfilledByAmazon ? 'FBA' : row.quantity ?? '–'}</td>
+                          <td className="px-3 py-2">
+                            <Input
+                              value={edit.quantity}
+                              placeholder={row.quantity?.toString()}
+                              disabled={!!getQuantityLock(row)}
+                              title={getQuantityLock(row)}
+                              onChange={event => updateEdit(row.sku, 'quantity', event.target.value)}
+                              className={`h-8 w-20 tabular-nums ${invalidQuantity ? 'border-red-500' : ''}`}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-right tabular-nums">{row.fbaQuantity ?? '–'}</td>
+                          <td className="px-3 py-2 max-w-xs">{renderResult(results.get(row.sku))}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={isReviewing} onOpenChange={setIsReviewing}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review Changes</DialogTitle>
+            <DialogDescription>
+              {changes.length} SKUs are updated through one JSON_LISTINGS_FEED for {getMarketplace(marketplaceId)?.name ?? marketplaceId}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-auto max-h-[50vh]">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="sticky top-0 bg-white dark:bg-gray-900">
+                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-3 py-2">SKU</th>
+                  <th className="px-3 py-2">Price</th>
+                  <th className="px-3 py-2">Quantity</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {changes.map(change => (
+                  <tr key={change.sku}>
+                    <td className="px-3 py-2 font-mono text-xs">{change.sku}</td>
+                    <td className="px-3 py-2 tabular-nums">
+                      {change.price && (
+                        <>
+                          <span className="text-gray-500 line-through mr-2">{formatPrice(change.price.from, change.currency)}</span>
+                          {formatPrice(change.price.to, change.currency)}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 tabular-nums">
+                      {change.quantity && (
+                        <>
+                          <span className="text-gray-500 line-through mr-2">{change.quantity.from ?? '–'}</span>
+                          {change.quantity.to}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="seller-id">Seller ID</Label>
+            <Input id="seller-id" value={sellerId} onChange={event => setSellerId(event.target.value)} className="font-mono" />
+            <p className="text-xs text-gray-500">The merchant token of the account, as used for the Listings Items endpoint</p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsReviewing(false)}>Keep Editing</Button>
+            <Button disabled={isSubmitting || demoMode || !sellerId.trim()} onClick={handleSubmit}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Submit Feed
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
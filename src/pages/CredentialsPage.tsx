@@ -8,49 +8,113 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { AmazonCredentials } from '@/types/amazon-api';
+import { AmazonCredentials, CredentialCheck, CredentialCheckOutcome } from '@/types/amazon-api';
+import { DEFAULT_REGION, REGIONS, getMarketplace, getMarketplacesByRegion } from '@/types/marketplaces';
 import amazonService from '@/services/amazon-service';
-import { AlertCircle, Info, Lock, Shield, ShieldCheck } from 'lucide-react';
+import credentialVault, { MIN_PASSPHRASE_LENGTH } from '@/services/credential-vault';
+import profileService from '@/services/profile-service';
+import { AlertCircle, Info, Lock, Shield, ShieldCheck, ShieldX, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 const credentialsSchema = z.object({
+  profileName: z.string().trim().min(1, { message: 'Profile name is required' }),
   clientId: z.string().min(3, { message: 'Client ID is required' }),
   clientSecret: z.string().min(3, { message: 'Client Secret is required' }),
   refreshToken: z.string().min(3, { message: 'Refresh Token is required' }),
+  region: z.enum(['na', 'eu', 'fe']),
+  marketplaceIds: z.array(z.string()),
+  passphrase: z.string().optional(),
+  confirmPassphrase: z.string().optional(),
 });
 
+// A passphrase is only asked for when there is no unlocked key to encrypt with yet
+const passphraseSchema = credentialsSchema.extend({
+  passphrase: z.string().min(MIN_PASSPHRASE_LENGTH, { message: `Use at least ${MIN_PASSPHRASE_LENGTH} characters` }),
+}).refine(data => data.passphrase === data.confirmPassphrase, {
+  message: 'Passphrases do not match',
+  path: ['confirmPassphrase'],
+});
+
+// What each failed check means for the user, and what to do about it
+const CHECK_FAILURES: Record<Exclude<CredentialCheckOutcome, 'valid'>, { title: string; hint: string }> = {
+  'invalid-client': {
+    title: 'Invalid client ID or secret',
+    hint: 'Copy the LWA credentials of your application again from the Developer Central page in Seller Central.'
+  },
+  'invalid-grant': {
+    title: 'Refresh token rejected',
+    hint: 'The refresh token has expired or was revoked. Authorize the application again to get a new one.'
+  },
+  'unauthorized': {
+    title: 'Application not authorized',
+    hint: 'The token exchange worked, but the SP-API denied access. Make sure the application has the Selling Partner Insights role and that the region matches your account.'
+  },
+  'proxy-unreachable': {
+    title: 'Local proxy unreachable',
+    hint: 'Start the proxy server and try again, or save the credentials without validating them.'
+  },
+  'error': {
+    title: 'Validation failed',
+    hint: 'Check your network connection and the proxy output for details.'
+  }
+};
+
 export default function CredentialsPage() {
   const navigate = useNavigate();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [failedCheck, setFailedCheck] = useState<CredentialCheck | null>(null);
+  const [needsPassphrase] = useState(() => !credentialVault.isUnlocked());
+  const [profile] = useState(() => profileService.getActiveProfile());
+  const [canDeleteProfile] = useState(() => profileService.getProfiles().length > 1);
+  // Editing an existing profile starts from its stored values
+  const [stored] = useState(() => credentialVault.getCredentials(profileService.getActiveProfileId()));
   
   const form = useForm<z.infer<typeof credentialsSchema>>({
-    resolver: zodResolver(credentialsSchema),
+    resolver: zodResolver(needsPassphrase ? passphraseSchema : credentialsSchema),
     defaultValues: {
-      clientId: '',
-      clientSecret: '',
-      refreshToken: '',
+      profileName: profile?.name ?? '',
+      clientId: stored?.clientId ?? '',
+      clientSecret: stored?.clientSecret ?? '',
+      refreshToken: stored?.refreshToken ?? '',
+      region: stored?.region ?? DEFAULT_REGION,
+      marketplaceIds: profile?.marketplaceIds ?? [],
+      passphrase: '',
+      confirmPassphrase: '',
     },
   });
   
-  const onSubmit = async (data: z.infer<typeof credentialsSchema>) => {
+  const saveCredentials = async (data: z.infer<typeof credentialsSchema>, skipValidation = false) => {
     setIsSubmitting(true);
+    setFailedCheck(null);
     
     try {
       const credentials: AmazonCredentials = {
         clientId: data.clientId.trim(),
         clientSecret: data.clientSecret.trim(),
         refreshToken: data.refreshToken.trim(),
+        region: data.region,
       };
       
       // Validate credentials
-      const isValid = await amazonService.setCredentials(credentials);
+      const check = await amazonService.setCredentials(credentials, {
+        passphrase: needsPassphrase ? data.passphrase : undefined,
+        skipValidation
+      });
       
-      if (isValid) {
+      if (check.outcome === 'valid') {
+        await profileService.updateProfile(profileService.getActiveProfileId(), {
+          name: data.profileName,
+          // Marketplaces of other regions can't be reached with these credentials
+          marketplaceIds: data.marketplaceIds.filter(id => getMarketplace(id)?.region === data.region)
+        });
         toast.success('Credentials saved successfully');
         navigate('/dashboard');
       } else {
-        toast.error('Failed to validate credentials. Please check and try again.');
+        setFailedCheck(check);
+        toast.error(CHECK_FAILURES[check.outcome].title);
       }
     } catch (error) {
       console.error('Error saving credentials:', error);
@@ -60,6 +124,27 @@ export default function CredentialsPage() {
     }
   };
   
+  const onSubmit = (data: z.infer<typeof credentialsSchema>) => saveCredentials(data);
+  
+  const handleSaveWithoutValidation = form.handleSubmit(data => saveCredentials(data, true));
+  
+  const handleDeleteProfile = async () => {
+    if (!profile || !window.confirm(`Delete the profile "${profile.name}" with its credentials and all of its stored data?`)) {
+      return;
+    }
+    
+    try {
+      await profileService.deleteProfile(profile.id);
+      toast.success(`Profile "${profile.name}" deleted`);
+      navigate('/dashboard');
+    } catch (error) {
+      console.error('Error deleting profile:', error);
+      toast.error('Failed to delete profile');
+    }
+  };
+  
+  const region = form.watch('region');
+  
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-gray-50 dark:bg-gray-900">
       <div className="w-full max-w-lg animate-fade-in">
@@ -70,7 +155,7 @@ export default function CredentialsPage() {
             </div>
             <CardTitle className="text-2xl font-semibold text-center">Amazon SP-API Credentials</CardTitle>
             <CardDescription className="text-center">
-              Enter your Amazon SP-API credentials to start extracting data
+              Enter the SP-API credentials of this seller account to start extracting data
             </CardDescription>
           </CardHeader>
           
@@ -79,12 +164,35 @@ export default function CredentialsPage() {
               <Info className="h-4 w-4 text-blue-500 dark:text-blue-400" />
               <AlertTitle>Secure Storage</AlertTitle>
               <AlertDescription className="text-sm text-gray-600 dark:text-gray-300">
-                Your credentials are stored locally in your browser's IndexedDB and are never transmitted to any server.
+                Your credentials are encrypted with your passphrase and stored locally in your browser's IndexedDB.
+                They are never transmitted to any server other than Amazon.
               </AlertDescription>
             </Alert>
             
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="profileName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Profile Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g. Acme US"
+                          autoComplete="off"
+                          className="transition-all duration-200"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Each seller account has its own profile and stored data
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <FormField
                   control={form.control}
                   name="clientId"
@@ -159,6 +267,128 @@ export default function CredentialsPage() {
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="region"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Region</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.values(REGIONS).map(region => (
+                            <SelectItem key={region.id} value={region.id}>
+                              {region.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        The SP-API region your seller account is registered in
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="marketplaceIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Marketplaces</FormLabel>
+                      <div className="grid grid-cols-2 gap-2">
+                        {getMarketplacesByRegion(region).map(marketplace => (
+                          <label key={marketplace.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(marketplace.id)}
+                              onCheckedChange={checked => field.onChange(checked
+                                ? [...field.value, marketplace.id]
+                                : field.value.filter(id => id !== marketplace.id))}
+                            />
+                            {marketplace.name}
+                          </label>
+                        ))}
+                      </div>
+                      <FormDescription>
+                        Fetch All Data covers these marketplaces. Leave empty to fetch the one selected on the dashboard.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                {needsPassphrase && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="passphrase"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Passphrase</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              autoComplete="new-password"
+                              className="transition-all duration-200"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Encrypts your credentials on this device. You'll need it every time you open the app.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="confirmPassphrase"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm Passphrase</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              autoComplete="new-password"
+                              className="transition-all duration-200"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
+                
+                {failedCheck && failedCheck.outcome !== 'valid' && (
+                  <Alert variant="destructive">
+                    <ShieldX className="h-4 w-4" />
+                    <AlertTitle>{CHECK_FAILURES[failedCheck.outcome].title}</AlertTitle>
+                    <AlertDescription className="text-sm space-y-2">
+                      <p>{CHECK_FAILURES[failedCheck.outcome].hint}</p>
+                      <p className="text-xs opacity-80">{failedCheck.message}</p>
+                      {failedCheck.outcome === 'proxy-unreachable' && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={handleSaveWithoutValidation}
+                          disabled={isSubmitting}
+                        >
+                          Save Without Validating
+                        </Button>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                
                 <div className="pt-2">
                   <Button 
                     type="submit" 
@@ -167,6 +397,17 @@ export default function CredentialsPage() {
                   >
                     {isSubmitting ? 'Validating...' : 'Save Credentials'}
                   </Button>
+                  {canDeleteProfile && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="w-full mt-2 text-red-500 hover:text-red-600"
+                      onClick={handleDeleteProfile}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Profile
+                    </Button>
+                  )}
                 </div>
               </form>
             </Form>
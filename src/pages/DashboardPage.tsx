@@ -1,32 +1,47 @@
 
-import { useEffect, useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { API_ENDPOINTS, ApiEndpoint, ApiResponse, DatabaseStats, ProgressStatus } from '@/types/amazon-api';
-import amazonService from '@/services/amazon-service';
+import { ApiEndpoint, ApiResponse, DatabaseStats, EndpointAvailability, FetchRun } from '@/types/amazon-api';
+import amazonService, { MAX_CONCURRENCY } from '@/services/amazon-service';
 import dbService from '@/services/db-service';
+import { MARKETPLACES, applyMarketplace, getMarketplace, getMarketplacesByRegion, getParamsTimeZone, getParticipatingMarketplaces } from '@/types/marketplaces';
+import { useActiveProfile } from '@/hooks/use-active-profile';
+import { useEndpoints } from '@/hooks/use-endpoints';
+import { useFetchRun } from '@/hooks/use-fetch-run';
 import { toast } from 'sonner';
 import { AnimatedNumber } from '@/components/ui-components/AnimatedNumber';
 import { EndpointCard } from '@/components/ui-components/EndpointCard';
+import { ProfileSwitcher } from '@/components/ui-components/ProfileSwitcher';
 import { DataPreview } from '@/components/ui-components/DataPreview';
-import { AlertTriangle, ChevronRight, Database, Download, LayoutDashboard, RefreshCcw, Settings, Play, Clock, History } from 'lucide-react';
+import { AlertTriangle, ChevronRight, Database, Download, LayoutDashboard, RefreshCcw, Settings, Play, Clock, History, Square, RotateCcw, ShieldCheck, Plug, FileText, Upload, Pencil } from 'lucide-react';
 
 export default function DashboardPage() {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { profileId } = useActiveProfile();
+  const endpoints = useEndpoints();
   const [activeTab, setActiveTab] = useState('dashboard');
   const [responses, setResponses] = useState<Record<string, ApiResponse>>({});
   const [selectedEndpoint, setSelectedEndpoint] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isFetching, setIsFetching] = useState(false);
-  const [progress, setProgress] = useState<ProgressStatus>({
-    currentEndpoint: '',
-    progress: 0,
-    total: 0,
-    status: 'idle'
-  });
+  const { isRunning: isFetching, progress } = useFetchRun();
+  const [demoMode, setDemoMode] = useState(amazonService.isDemoMode());
+  const [interruptedRun, setInterruptedRun] = useState<FetchRun | null>(null);
+  const [concurrency, setConcurrency] = useState(amazonService.getConcurrency());
+  const [marketplaceId, setMarketplaceId] = useState(amazonService.getSelectedMarketplaceId());
+  const [availability, setAvailability] = useState<Record<string, EndpointAvailability>>({});
+  const [isProbing, setIsProbing] = useState(false);
+  const [hideUnavailable, setHideUnavailable] = useState(false);
+  const [savedParams, setSavedParams] = useState<Record<string, Record<string, unknown>>>({});
+  const autoFetchStartedRef = useRef(false);
+  const wasFetchingRef = useRef(isFetching);
   const [dbStats, setDbStats] = useState<DatabaseStats>({
     totalEndpoints: 0,
     totalResponses: 0,
@@ -37,8 +52,14 @@ export default function DashboardPage() {
   
   useEffect(() => {
     const checkCredentials = async () => {
+      await amazonService.whenReady();
+      const isDemo = amazonService.isDemoMode();
+      setDemoMode(isDemo);
+      setConcurrency(amazonService.getConcurrency());
+      setMarketplaceId(amazonService.getSelectedMarketplaceId());
+
       const hasCredentials = amazonService.hasCredentials();
-      if (!hasCredentials) {
+      if (!hasCredentials && !isDemo) {
         toast.warning('Amazon SP-API credentials are not set', {
           description: 'Please set your credentials to access Amazon data',
           action: {
@@ -50,20 +71,21 @@ export default function DashboardPage() {
     };
     
     checkCredentials();
-  }, [navigate]);
+  }, [navigate, profileId]);
   
   useEffect(() => {
     const loadData = async () => {
       try {
         setIsLoading(true);
-        const latestResponses = await dbService.getLatestResponses();
+        await amazonService.whenReady();
+        const latestResponses = await dbService.getLatestResponses(profileId, amazonService.getSelectedMarketplaceId());
         setResponses(latestResponses);
         
         if (Object.keys(latestResponses).length > 0 && !selectedEndpoint) {
           setSelectedEndpoint(Object.keys(latestResponses)[0]);
         }
         
-        const stats = await dbService.getDatabaseStats();
+        const stats = await dbService.getDatabaseStats(profileId);
         setDbStats(stats);
       } catch (error) {
         console.error('Failed to load data:', error);
@@ -74,22 +96,88 @@ export default function DashboardPage() {
     };
     
     loadData();
-  }, [selectedEndpoint]);
+  }, [selectedEndpoint, profileId]);
+  
+  useEffect(() => {
+    const checkInterruptedRun = async () => {
+      try {
+        setInterruptedRun(await amazonService.getInterruptedRun());
+      } catch (error) {
+        console.error('Failed to check for an interrupted run:', error);
+      }
+    };
+    
+    checkInterruptedRun();
+  }, [profileId]);
+  
+  useEffect(() => {
+    const loadAvailability = async () => {
+      try {
+        setAvailability({ ...await amazonService.getEndpointAvailability(profileId) });
+      } catch (error) {
+        console.error('Failed to load endpoint availability:', error);
+      }
+    };
+    
+    loadAvailability();
+  }, [profileId]);
   
   useEffect(() => {
-    const unsubscribe = amazonService.onProgressUpdate((status) => {
-      setProgress(status);
-      if (status.status === 'completed') {
-        setIsFetching(false);
+    const loadSavedParams = async () => {
+      try {
+        setSavedParams({ ...await amazonService.getSavedParams(profileId) });
+      } catch (error) {
+        console.error('Failed to load endpoint parameters:', error);
       }
-    });
+    };
     
-    return unsubscribe;
-  }, []);
+    loadSavedParams();
+  }, [profileId]);
+  
+  const handleSaveParams = async (endpoint: ApiEndpoint, params: Record<string, unknown> | null) => {
+    try {
+      await amazonService.saveParams(endpoint.id, params);
+      setSavedParams({ ...await amazonService.getSavedParams(profileId) });
+      toast.success(params ? `Parameters of ${endpoint.name} saved` : `Parameters of ${endpoint.name} reset to the defaults`);
+    } catch (error) {
+      console.error(`Failed to save parameters of ${endpoint.id}:`, error);
+      toast.error('Failed to save the parameters');
+      throw error;
+    }
+  };
+  
+  const refreshAvailability = async () => {
+    setAvailability({ ...await amazonService.getEndpointAvailability(profileId) });
+  };
+  
+  const handleProbeAccess = async () => {
+    setIsProbing(true);
+    try {
+      const result = await amazonService.probeEndpointAccess();
+      setAvailability({ ...result });
+      
+      const unavailable = Object.values(result).filter(entry => entry.status === 'unauthorized').length;
+      if (unavailable > 0) {
+        toast.warning(`${unavailable} endpoint${unavailable === 1 ? ' is' : 's are'} not available to your application`, {
+          description: 'Add the missing roles in Developer Central and authorize the application again'
+        });
+      } else {
+        toast.success('Your application can access all checked endpoints');
+      }
+    } catch (error) {
+      console.error('Failed to check endpoint access:', error);
+      toast.error('Failed to check endpoint access');
+    } finally {
+      setIsProbing(false);
+    }
+  };
   
   const handleFetchData = async (endpoint: ApiEndpoint): Promise<ApiResponse> => {
     try {
-      const response = await amazonService.fetchFromEndpoint(endpoint);
+      const params = await amazonService.getParams(endpoint);
+      const hasSavedParams = !!(await amazonService.getSavedParams(profileId))[endpoint.id];
+      // Edited parameters name their marketplaces explicitly
+      const response = await amazonService.fetchFromEndpoint(endpoint, params, { keepMarketplaces: hasSavedParams });
       
       setResponses(prev => ({
         ...prev,
@@ -97,8 +185,9 @@ export default function DashboardPage() {
       }));
       
       setSelectedEndpoint(endpoint.id);
+      await refreshAvailability();
       
-      const stats = await dbService.getDatabaseStats();
+      const stats = await dbService.getDatabaseStats(profileId);
       setDbStats(stats);
       
       return response;
@@ -109,27 +198,121 @@ export default function DashboardPage() {
     }
   };
   
-  const handleFetchAllData = async () => {
+  const handleFetchAllData = async (resume = false) => {
     if (isFetching) return;
     
-    setIsFetching(true);
+    setInterruptedRun(null);
     try {
-      const results = await amazonService.fetchAllEndpoints();
-      setResponses(results);
-      
-      const stats = await dbService.getDatabaseStats();
-      setDbStats(stats);
-      
-      toast.success('Successfully fetched data from all endpoints');
+      await amazonService.fetchAllEndpoints({ resume });
     } catch (error) {
       console.error('Failed to fetch all data:', error);
-      toast.error('Failed to fetch data from all endpoints');
+    }
+  };
+  
+  // The run may have been started before the dashboard was last opened, so its results are loaded when it ends
+  // rather than where it's started. Checked after every render, as the reload uses the current profile
+  useEffect(() => {
+    if (!wasFetchingRef.current || isFetching) {
+      wasFetchingRef.current = isFetching;
+      return;
+    }
+    wasFetchingRef.current = false;
+
+    const loadRunResults = async () => {
+      try {
+        await refreshAvailability();
+        setResponses(await dbService.getLatestResponses(profileId, amazonService.getSelectedMarketplaceId()));
+        setDbStats(await dbService.getDatabaseStats(profileId));
+        
+        const unfinishedRun = await amazonService.getInterruptedRun();
+        setInterruptedRun(unfinishedRun);
+        if (progress.status === 'cancelled') {
+          toast.info('Data extraction cancelled');
+        } else if (progress.status === 'error') {
+          toast.error('Failed to fetch data from all endpoints');
+        } else if (unfinishedRun) {
+          toast.warning('Some endpoints failed temporarily', {
+            description: 'Resume the run to retry them'
+          });
+        } else {
+          toast.success('Successfully fetched data from all endpoints');
+        }
+      } catch (error) {
+        console.error('Failed to load the results of the run:', error);
+        toast.error('Failed to load data from the database');
+      }
+    };
+
+    loadRunResults();
+  });
+  
+  // The landing page asks for a refresh of all endpoints after a login; it runs here so it can be cancelled.
+  // Checked after every render, as the run uses the current handlers
+  useEffect(() => {
+    if (!(location.state as { autoFetch?: boolean } | null)?.autoFetch || autoFetchStartedRef.current) return;
+    autoFetchStartedRef.current = true;
+    // Reloading the dashboard shouldn't start another run
+    navigate(location.pathname, { replace: true, state: null });
+
+    const startAutoFetch = async () => {
+      await amazonService.whenReady();
+      if (!amazonService.hasCredentials() || amazonService.isDemoMode()) return;
+
+      toast.info('Refreshing data from all endpoints...');
+      await handleFetchAllData();
+    };
+
+    startAutoFetch();
+  });
+  
+  const handleCancelFetch = () => {
+    amazonService.cancelFetchAll();
+  };
+  
+  const handleDiscardRun = async () => {
+    try {
+      await amazonService.discardInterruptedRun();
+      setInterruptedRun(null);
+    } catch (error) {
+      console.error('Failed to discard interrupted run:', error);
+    }
+  };
+  
+  const handleMarketplaceChange = async (value: string) => {
+    try {
+      await amazonService.setSelectedMarketplaceId(value);
+      setMarketplaceId(value);
+      setResponses(await dbService.getLatestResponses(profileId, value));
+      toast.info(`Endpoints now fetch data for ${getMarketplace(value)?.name ?? value}`);
+    } catch (error) {
+      console.error('Failed to change marketplace:', error);
+      toast.error('Failed to change marketplace');
+    }
+  };
+  
+  const handleConcurrencyChange = async (value: string) => {
+    try {
+      await amazonService.setConcurrency(Number(value));
+      setConcurrency(amazonService.getConcurrency());
+    } catch (error) {
+      console.error('Failed to change concurrency:', error);
+    }
+  };
+  
+  const handleDemoModeChange = async (enabled: boolean) => {
+    try {
+      await amazonService.setDemoMode(enabled);
+      setDemoMode(enabled);
+      toast.info(enabled ? 'Demo mode enabled: fetches return generated sample data' : 'Demo mode disabled');
+    } catch (error) {
+      console.error('Failed to change demo mode:', error);
+      toast.error('Failed to change demo mode');
     }
   };
   
   const exportData = async () => {
     try {
-      const blob = await dbService.exportAllData();
+      const blob = await dbService.exportAllData(profileId);
       
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -150,6 +333,15 @@ export default function DashboardPage() {
     }
   };
   
+  // Marketplaces from the seller account data, or just the selected one until it has been fetched
+  const participating = getParticipatingMarketplaces(responses['seller-account']?.data)
+    .filter(marketplace => demoMode || marketplace.region === amazonService.getRegion());
+  const selectedMarketplace = getMarketplace(marketplaceId);
+  const regionMarketplaces = demoMode ? MARKETPLACES : getMarketplacesByRegion(amazonService.getRegion());
+  const marketplaceOptions = participating.some(marketplace => marketplace.id === marketplaceId) || !selectedMarketplace
+    ? participating
+    : [selectedMarketplace, ...participating];
+  
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-8">
       <header className="sticky top-0 z-40 w-full bg-white/70 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-800">
@@ -159,10 +351,43 @@ export default function DashboardPage() {
             <h1 className="text-xl font-semibold">Amazon SP-API Data Extractor</h1>
           </div>
           <div className="flex items-center space-x-2">
+            <ProfileSwitcher />
+            <Select value={marketplaceId} onValueChange={handleMarketplaceChange} disabled={isFetching}>
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue placeholder="Marketplace" />
+              </SelectTrigger>
+              <SelectContent>
+                {marketplaceOptions.map(marketplace => (
+                  <SelectItem key={marketplace.id} value={marketplace.id}>
+                    {marketplace.name} ({marketplace.countryCode})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2 mr-2">
+              <Switch id="demo-mode" checked={demoMode} onCheckedChange={handleDemoModeChange} disabled={isFetching} />
+              <Label htmlFor="demo-mode" className="text-sm">Demo mode</Label>
+            </div>
             <Button variant="ghost" size="sm" onClick={() => navigate('/historical')}>
               <History className="h-4 w-4 mr-2" />
               Historical Data
             </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/reports')}>
+              <FileText className="h-4 w-4 mr-2" />
+              Reports
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/feeds')}>
+              <Upload className="h-4 w-4 mr-2" />
+              Feeds
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/bulk-edit')}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Bulk Edit
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/endpoints')}>
+              <Plug className="h-4 w-4 mr-2" />
+              Custom Endpoints
+            </Button>
             <Button variant="ghost" size="icon" onClick={() => navigate('/setup')}>
               <Settings className="h-5 w-5" />
             </Button>
@@ -178,12 +403,50 @@ export default function DashboardPage() {
           <Card className="mb-6 glass border-opacity-30">
             <CardContent className="pt-6">
               <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>{progress.currentEndpoint}</span>
-                  <span>{progress.progress} of {progress.total}</span>
+                <div className="flex justify-between text-sm gap-4">
+                  <span>
+                    {progress.inFlight && progress.inFlight.length > 1
+                      ? `${progress.inFlight.length} in flight: ${progress.inFlight.join(', ')}`
+                      : progress.currentEndpoint}
+                  </span>
+                  <span className="whitespace-nowrap">{progress.progress} of {progress.total}</span>
                 </div>
                 <Progress value={(progress.progress / progress.total) * 100} />
-                <p className="text-sm text-gray-500 dark:text-gray-400">{progress.message}</p>
+                <div className="flex justify-between items-center gap-4">
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{progress.message}</p>
+                  {isFetching && (
+                    <Button variant="outline" size="sm" onClick={handleCancelFetch}>
+                      <Square className="h-3.5 w-3.5 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        
+        {interruptedRun && !isFetching && (
+          <Card className="mb-6 glass border-opacity-30">
+            <CardContent className="pt-6">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-medium">Unfinished data extraction</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {interruptedRun.status === 'incomplete'
+                      ? `A run started ${new Date(interruptedRun.startedAt).toLocaleString()} finished with ${interruptedRun.totalJobs - interruptedRun.completedJobs.length} of ${interruptedRun.totalJobs} requests failing temporarily.`
+                      : `A run started ${new Date(interruptedRun.startedAt).toLocaleString()} stopped after ${interruptedRun.completedJobs.length} of ${interruptedRun.totalJobs} requests.`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleFetchAllData(true)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Resume
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleDiscardRun}>
+                    Discard
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -197,7 +460,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold">
-                <AnimatedNumber value={API_ENDPOINTS.length} />
+                <AnimatedNumber value={endpoints.length} />
               </div>
             </CardContent>
           </Card>
@@ -249,7 +512,7 @@ export default function DashboardPage() {
         
         <div className="flex flex-wrap gap-4 mb-6">
           <Button
-            onClick={handleFetchAllData}
+            onClick={() => handleFetchAllData()}
             disabled={isFetching || isLoading}
             className="flex items-center space-x-2"
           >
@@ -257,6 +520,35 @@ export default function DashboardPage() {
             Fetch All Data
           </Button>
           
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="concurrency" className="text-sm whitespace-nowrap">Parallel requests</Label>
+            <Select value={String(concurrency)} onValueChange={handleConcurrencyChange} disabled={isFetching}>
+              <SelectTrigger id="concurrency" className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map((value) => (
+                  <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <Button
+            variant="outline"
+            onClick={handleProbeAccess}
+            disabled={demoMode || isFetching || isProbing}
+            className="flex items-center space-x-2"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {isProbing ? 'Checking Access...' : 'Check Endpoint Access'}
+          </Button>
+          
+          <div className="flex items-center space-x-2">
+            <Switch id="hide-unavailable" checked={hideUnavailable} onCheckedChange={setHideUnavailable} />
+            <Label htmlFor="hide-unavailable" className="text-sm">Hide unavailable</Label>
+          </div>
+          
           <Button
             variant="outline"
             onClick={exportData}
@@ -291,15 +583,27 @@ export default function DashboardPage() {
           
           <TabsContent value="dashboard" className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {API_ENDPOINTS.map((endpoint) => (
-                <EndpointCard
-                  key={endpoint.id}
-                  endpoint={endpoint}
-                  response={responses[endpoint.id]}
-                  onFetch={() => handleFetchData(endpoint)}
-                  isLoading={isLoading}
-                />
-              ))}
+              {endpoints
+                .filter(endpoint => !hideUnavailable || availability[endpoint.id]?.status !== 'unauthorized')
+                .map((endpoint) => {
+                  const params = savedParams[endpoint.id] ?? (endpoint.defaultParams && applyMarketplace(endpoint.defaultParams, marketplaceId));
+                  return (
+                    <EndpointCard
+                      key={endpoint.id}
+                      endpoint={endpoint}
+                      response={responses[endpoint.id]}
+                      availability={availability[endpoint.id]}
+                      onFetch={() => handleFetchData(endpoint)}
+                      isLoading={isLoading}
+                      params={params}
+                      hasSavedParams={!!savedParams[endpoint.id]}
+                      marketplaces={regionMarketplaces}
+                      timeZone={getParamsTimeZone(params, marketplaceId)}
+                      onSaveParams={newParams => handleSaveParams(endpoint, newParams)}
+                      parentEndpoint={endpoints.find(entry => entry.id === endpoint.dependsOn?.endpointId)}
+                    />
+                  );
+                })}
             </div>
           </TabsContent>
           
@@ -328,7 +632,7 @@ export default function DashboardPage() {
                       onClick={() => setSelectedEndpoint(endpointId)}
                       className="mb-2"
                     >
-                      {API_ENDPOINTS.find(e => e.id === endpointId)?.name || endpointId}
+                      {endpoints.find(e => e.id === endpointId)?.name || endpointId}
                       <ChevronRight className="h-4 w-4 ml-1" />
                     </Button>
                   ))}
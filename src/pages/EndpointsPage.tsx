@@ -0,0 +1,420 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ApiEndpoint } from '@/types/amazon-api';
+import endpointRegistry, { CustomEndpointInput } from '@/services/endpoint-registry';
+import { useEndpoints } from '@/hooks/use-endpoints';
+import { getPathParameters } from '@/utils/path-template';
+import { Database, LayoutDashboard, Pencil, Plug, Plus, Trash2 } from 'lucide-react';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+const parseParams = (value: string): Record<string, unknown> | null => {
+  if (!value.trim()) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const endpointSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required' }),
+  description: z.string().trim(),
+  method: z.enum(HTTP_METHODS),
+  path: z.string().trim().regex(/^\/\S*$/, { message: 'The path must start with / and contain no spaces' }),
+  params: z.string(),
+  responseRoot: z.string().trim(),
+  paginationParam: z.string().trim(),
+  paginationTokenPath: z.string().trim(),
+  paginationItemsPath: z.string().trim(),
+}).superRefine((data, ctx) => {
+  const params = parseParams(data.params);
+  if (!params) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter a JSON object, e.g. {"MarketplaceIds": ["ATVPDKIKX0DER"]}', path: ['params'] });
+    return;
+  }
+
+  getPathParameters(data.path)
+    .filter(name => !(name in params))
+    .forEach(name => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Add a value for the path parameter ${name}`, path: ['params'] });
+    });
+
+  if (data.paginationParam && !data.paginationTokenPath) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Where the next token is found in the response', path: ['paginationTokenPath'] });
+  }
+  if (data.paginationParam && !data.paginationItemsPath) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Which list to merge across pages', path: ['paginationItemsPath'] });
+  }
+});
+
+type EndpointFormValues = z.infer<typeof endpointSchema>;
+
+const EMPTY_FORM: EndpointFormValues = {
+  name: '',
+  description: '',
+  method: 'GET',
+  path: '',
+  params: '',
+  responseRoot: '',
+  paginationParam: '',
+  paginationTokenPath: '',
+  paginationItemsPath: '',
+};
+
+const toFormValues = (endpoint: ApiEndpoint): EndpointFormValues => ({
+  name: endpoint.name,
+  description: endpoint.description,
+  method: endpoint.method ?? 'GET',
+  path: endpoint.endpoint,
+  params: endpoint.defaultParams ? JSON.stringify(endpoint.defaultParams, null, 2) : '',
+  responseRoot: endpoint.responseRoot ?? '',
+  paginationParam: endpoint.pagination?.requestParam ?? '',
+  paginationTokenPath: endpoint.pagination?.tokenPath ?? '',
+  paginationItemsPath: endpoint.pagination?.itemsPath ?? '',
+});
+
+const toEndpointInput = (data: EndpointFormValues): CustomEndpointInput => {
+  const params = parseParams(data.params) ?? {};
+  const hasParams = Object.keys(params).length > 0;
+
+  return {
+    name: data.name,
+    description: data.description,
+    endpoint: data.path,
+    method: data.method,
+    requiresParams: hasParams,
+    defaultParams: hasParams ? params : undefined,
+    responseRoot: data.responseRoot || undefined,
+    pagination: data.paginationParam ? {
+      requestParam: data.paginationParam,
+      tokenPath: data.paginationTokenPath,
+      itemsPath: data.paginationItemsPath,
+    } : undefined,
+  };
+};
+
+export default function EndpointsPage() {
+  const navigate = useNavigate();
+  const endpoints = useEndpoints();
+  const customEndpoints = endpoints.filter(endpoint => endpoint.custom);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<EndpointFormValues>({
+    resolver: zodResolver(endpointSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const startEditing = (endpoint: ApiEndpoint) => {
+    setEditingId(endpoint.id);
+    form.reset(toFormValues(endpoint));
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    form.reset(EMPTY_FORM);
+  };
+
+  const onSubmit = async (data: EndpointFormValues) => {
+    setIsSubmitting(true);
+    try {
+      if (editingId) {
+        await endpointRegistry.updateEndpoint(editingId, toEndpointInput(data));
+        toast.success(`Endpoint "${data.name}" updated`);
+      } else {
+        await endpointRegistry.createEndpoint(toEndpointInput(data));
+        toast.success(`Endpoint "${data.name}" added to the dashboard`);
+      }
+      stopEditing();
+    } catch (error) {
+      console.error('Failed to save custom endpoint:', error);
+      toast.error('Failed to save the endpoint');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (endpoint: ApiEndpoint) => {
+    if (!window.confirm(`Delete the endpoint "${endpoint.name}"? Data fetched from it stays in the database.`)) {
+      return;
+    }
+
+    try {
+      await endpointRegistry.deleteEndpoint(endpoint.id);
+      if (editingId === endpoint.id) {
+        stopEditing();
+      }
+      toast.success(`Endpoint "${endpoint.name}" deleted`);
+    } catch (error) {
+      console.error('Failed to delete custom endpoint:', error);
+      toast.error('Failed to delete the endpoint');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-8">
+      <header className="sticky top-0 z-40 w-full bg-white/70 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-800">
+        <div className="container mx-auto px-4 flex h-16 items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Database className="h-6 w-6 text-primary" />
+            <h1 className="text-xl font-semibold">Amazon SP-API Data Extractor</h1>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+              <LayoutDashboard className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+            <Button variant="outline" size="sm" className="font-medium">
+              <Plug className="h-4 w-4 mr-2" />
+              Custom Endpoints
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 pt-6">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold mb-2">Custom Endpoints</h2>
+          <p className="text-gray-500">
+            Add SP-API operations that aren't built in. They appear on the dashboard and are included in Fetch All Data.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle className="text-lg">{editingId ? 'Edit Endpoint' : 'New Endpoint'}</CardTitle>
+              <CardDescription>
+                Use placeholders such as {'{orderId}'} in the path and give their values in the parameters
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. Order Items" autoComplete="off" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="off" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-[8rem_1fr] gap-4">
+                    <FormField
+                      control={form.control}
+                      name="method"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Method</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {HTTP_METHODS.map(method => (
+                                <SelectItem key={method} value={method}>{method}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {field.value !== 'GET' && (
+                            <FormDescription>Only fetched from its card, never by Fetch All</FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="path"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Path</FormLabel>
+                          <FormControl>
+                            <Input placeholder="/orders/v0/orders/{orderId}/orderItems" autoComplete="off" className="font-mono" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="params"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Parameters</FormLabel>
+                        <FormControl>
+                          <Textarea rows={4} placeholder='{"orderId": "902-3159896-1390916"}' className="font-mono text-xs" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          JSON object of query and path parameters. Marketplace parameters follow the marketplace selected on the dashboard.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="responseRoot"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Response Root Path</FormLabel>
+                        <FormControl>
+                          <Input placeholder="payload" autoComplete="off" className="font-mono" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Dotted path to the data in the response. Leave empty to use payload when the response has one.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="paginationParam"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Pagination Key</FormLabel>
+                          <FormControl>
+                            <Input placeholder="NextToken" autoComplete="off" className="font-mono" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="paginationTokenPath"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Next Token Path</FormLabel>
+                          <FormControl>
+                            <Input placeholder="payload.NextToken" autoComplete="off" className="font-mono" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="paginationItemsPath"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Items Path</FormLabel>
+                          <FormControl>
+                            <Input placeholder="OrderItems" autoComplete="off" className="font-mono" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Leave the pagination key empty for operations that return a single page. The next token path is
+                    relative to the whole response, the items path to the data.
+                  </p>
+
+                  <div className="flex gap-2 pt-2">
+                    <Button type="submit" disabled={isSubmitting}>
+                      {editingId ? 'Save Changes' : (
+                        <>
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Endpoint
+                        </>
+                      )}
+                    </Button>
+                    {editingId && (
+                      <Button type="button" variant="outline" onClick={stopEditing}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-4">
+            {customEndpoints.length === 0 ? (
+              <Card className="glass">
+                <CardContent className="pt-6 text-center text-gray-500 dark:text-gray-400">
+                  No custom endpoints yet
+                </CardContent>
+              </Card>
+            ) : customEndpoints.map(endpoint => (
+              <Card key={endpoint.id} className={`glass ${editingId === endpoint.id ? 'border-primary' : ''}`}>
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start gap-2">
+                    <CardTitle className="text-lg font-medium">{endpoint.name}</CardTitle>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(endpoint)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(endpoint)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {endpoint.description && <CardDescription>{endpoint.description}</CardDescription>}
+                </CardHeader>
+                <CardContent className="text-sm space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{endpoint.method ?? 'GET'}</Badge>
+                    <code className="text-xs break-all">{endpoint.endpoint}</code>
+                  </div>
+                  {endpoint.pagination && (
+                    <p className="text-gray-500 dark:text-gray-400">
+                      Paginated with {endpoint.pagination.requestParam}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { ProfileSwitcher } from '@/components/ui-components/ProfileSwitcher';
+import { toast } from 'sonner';
+import { FeedIssue, FeedSubmission, ReportProcessingStatus } from '@/types/amazon-api';
+import { FEED_TYPES, getFeedType, getFeedTypeName } from '@/types/feed-types';
+import { getMarketplace, getMarketplacesByRegion } from '@/types/marketplaces';
+import amazonService from '@/services/amazon-service';
+import feedService from '@/services/feed-service';
+import { useFeeds } from '@/hooks/use-feeds';
+import { AlertTriangle, Ban, Database, FileUp, LayoutDashboard, ListChecks, Loader2, Pencil, RefreshCcw, Trash2, Upload } from 'lucide-react';
+
+const STATUS_STYLES: Record<ReportProcessingStatus, string> = {
+  IN_QUEUE: 'bg-gray-500/10 text-gray-600 border-gray-500/20',
+  IN_PROGRESS: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+  DONE: 'bg-green-500/10 text-green-600 border-green-500/20',
+  FATAL: 'bg-red-500/10 text-red-600 border-red-500/20',
+  CANCELLED: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+};
+
+const SEVERITY_STYLES: Record<FeedIssue['severity'], string> = {
+  ERROR: 'bg-red-500/10 text-red-600 border-red-500/20',
+  WARNING: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  INFO: 'bg-gray-500/10 text-gray-600 border-gray-500/20',
+};
+
+const feedSchema = z.object({
+  feedType: z.string().refine(type => !!getFeedType(type), { message: 'Select a feed type' }),
+  marketplaceIds: z.array(z.string()).min(1, { message: 'Select at least one marketplace' }),
+  content: z.string().trim().min(1, { message: 'Enter the feed content or open a file' }),
+});
+
+type FeedFormValues = z.infer<typeof feedSchema>;
+
+export default function FeedsPage() {
+  const navigate = useNavigate();
+  const { feeds, trackedIds } = useFeeds();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [viewing, setViewing] = useState<FeedSubmission | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const demoMode = amazonService.isDemoMode();
+  const marketplaces = getMarketplacesByRegion(amazonService.getRegion());
+
+  const form = useForm<FeedFormValues>({
+    resolver: zodResolver(feedSchema),
+    defaultValues: {
+      feedType: FEED_TYPES[0].type,
+      marketplaceIds: [amazonService.getSelectedMarketplaceId()],
+      content: FEED_TYPES[0].template,
+    },
+  });
+  const selectedType = getFeedType(form.watch('feedType'));
+
+  useEffect(() => {
+    if (!amazonService.hasCredentials()) {
+      navigate('/credentials');
+    }
+  }, [navigate]);
+
+  const onSubmit = async (data: FeedFormValues) => {
+    setIsSubmitting(true);
+    try {
+      const feed = await feedService.submitFeed({
+        feedType: data.feedType,
+        marketplaceIds: data.marketplaceIds,
+        content: data.content,
+      });
+      toast.success(`Submitted ${getFeedTypeName(data.feedType)} with ${feed.recordCount} records`, {
+        description: 'Amazon is processing the feed; its status is checked until the processing report is ready.'
+      });
+    } catch (error) {
+      console.error('Failed to submit feed:', error);
+      toast.error('Failed to submit the feed', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Switching feed types swaps in the new type's template, unless the content was edited
+  const handleFeedTypeChange = (type: string) => {
+    const previous = getFeedType(form.getValues('feedType'));
+    if (!form.getValues('content').trim() || form.getValues('content') === previous?.template) {
+      form.setValue('content', getFeedType(type)?.template ?? '');
+    }
+    form.setValue('feedType', type);
+  };
+
+  const handleOpenFile = async (file?: File) => {
+    if (!file) return;
+    form.setValue('content', await file.text(), { shouldValidate: true });
+    if (fileInput.current) {
+      fileInput.current.value = '';
+    }
+  };
+
+  const handleCancel = async (feed: FeedSubmission) => {
+    try {
+      await feedService.cancelFeed(feed.feedId);
+    } catch (error) {
+      console.error('Failed to cancel feed:', error);
+      toast.error('Failed to cancel the feed', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handleDelete = async (feed: FeedSubmission) => {
+    if (!window.confirm(`Remove the ${getFeedTypeName(feed.feedType)} feed from the list? Amazon keeps processing it.`)) {
+      return;
+    }
+
+    try {
+      await feedService.deleteFeed(feed.feedId);
+    } catch (error) {
+      console.error('Failed to delete feed:', error);
+      toast.error('Failed to delete the feed');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-8">
+      <header className="sticky top-0 z-40 w-full bg-white/70 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-800">
+        <div className="container mx-auto px-4 flex h-16 items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Database className="h-6 w-6 text-primary" />
+            <h1 className="text-xl font-semibold">Amazon SP-API Data Extractor</h1>
+          </div>
+          <div className="flex items-center space-x-2">
+            <ProfileSwitcher />
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+              <LayoutDashboard className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => navigate('/bulk-edit')}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Bulk Edit
+            </Button>
+            <Button variant="outline" size="sm" className="font-medium">
+              <Upload className="h-4 w-4 mr-2" />
+              Feeds
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 pt-6">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold mb-2">Feeds</h2>
+          <p className="text-gray-500">
+            Upload listing, inventory and price updates through the Feeds API. Amazon processes feeds in the background;
+            once it is done, the processing report lists every record it rejected or warned about.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="glass h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg">Submit a Feed</CardTitle>
+              <CardDescription>
+                Start from the template of the feed type, paste the content, or open a file
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {demoMode && (
+                <div className="flex items-start gap-2 text-sm text-amber-600 mb-4">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>Feeds can't be submitted in demo mode. Turn demo mode off on the dashboard first.</span>
+                </div>
+              )}
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="feedType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Feed Type</FormLabel>
+                        <Select value={field.value} onValueChange={handleFeedTypeChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {FEED_TYPES.map(feedType => (
+                              <SelectItem key={feedType.type} value={feedType.type}>{feedType.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {selectedType && (
+                          <FormDescription>
+                            <span className="font-mono text-xs">{selectedType.type}</span>: {selectedType.description}
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="marketplaceIds"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Marketplaces</FormLabel>
+                        <div className="grid grid-cols-2 gap-2">
+                          {marketplaces.map(marketplace => (
+                            <label key={marketplace.id} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={field.value.includes(marketplace.id)}
+                                onCheckedChange={checked => field.onChange(checked
+                                  ? [...field.value, marketplace.id]
+                                  : field.value.filter(id => id !== marketplace.id))}
+                              />
+                              {marketplace.name}
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="content"
+                    render={({ field }) => (
+                      <FormItem>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Content</FormLabel>
+                          <Button type="button" variant="ghost" size="sm" onClick={() => fileInput.current?.click()}>
+                            <FileUp className="h-4 w-4 mr-2" />
+                            Open File
+                          </Button>
+                        </div>
+                        <FormControl>
+                          <Textarea rows={14} spellCheck={false} className="font-mono text-xs" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Replace SELLER_ID and SKU with your merchant token and listings.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".json,.txt,.tsv,.xml"
+                    className="hidden"
+                    onChange={event => handleOpenFile(event.target.files?.[0])}
+                  />
+
+                  <Button type="submit" disabled={isSubmitting || demoMode}>
+                    {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                    Submit Feed
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-4">
+            {feeds.length === 0 ? (
+              <Card className="glass">
+                <CardContent className="pt-6 text-center text-gray-500 dark:text-gray-400">
+                  No feeds submitted yet
+                </CardContent>
+              </Card>
+            ) : feeds.map(feed => {
+              const isTracking = trackedIds.includes(feed.feedId);
+              const isFinished = feed.status === 'DONE' || feed.status === 'FATAL' || feed.status === 'CANCELLED';
+
+              return (
+                <Card key={feed.feedId} className="glass">
+                  <CardHeader className="pb-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <CardTitle className="text-base font-medium">{getFeedTypeName(feed.feedType)}</CardTitle>
+                      <Badge variant="outline" className={STATUS_STYLES[feed.status]}>
+                        {isTracking && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        {feed.status.replace('_', ' ')}
+                      </Badge>
+                    </div>
+                    <CardDescription>
+                      Submitted {new Date(feed.submittedAt).toLocaleString()}
+                      {' · '}
+                      {feed.marketplaceIds.map(id => getMarketplace(id)?.countryCode ?? id).join(', ')}
+                      {' · '}
+                      {feed.recordCount} records
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="text-sm space-y-2">
+                    {feed.result && feed.result.processed !== undefined && (
+                      <div className="flex flex-wrap gap-x-4 text-gray-500 dark:text-gray-400">
+                        <span>{feed.result.processed} processed</span>
+                        {feed.result.accepted !== undefined && <span>{feed.result.accepted} accepted</span>}
+                        {!!feed.result.errors && <span className="text-red-500">{feed.result.errors} errors</span>}
+                        {!!feed.result.warnings && <span className="text-amber-600">{feed.result.warnings} warnings</span>}
+                      </div>
+                    )}
+
+                    {feed.status === 'FATAL' && (
+                      <div className="text-red-500 dark:text-red-400">
+                        Amazon rejected the feed as a whole.{feed.result && ' The processing report describes the problem.'}
+                      </div>
+                    )}
+
+                    {feed.error && (
+                      <div className="flex items-start gap-1.5 text-red-500 dark:text-red-400">
+                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        <span>{feed.error}</span>
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {feed.result && (feed.result.issues.length > 0 || feed.result.text) && (
+                        <Button variant="outline" size="sm" onClick={() => setViewing(feed)}>
+                          <ListChecks className="h-4 w-4 mr-2" />
+                          {feed.result.issues.length > 0 ? `${feed.result.issues.length} Issues` : 'Processing Report'}
+                        </Button>
+                      )}
+                      {feed.status === 'IN_QUEUE' && (
+                        <Button variant="outline" size="sm" disabled={demoMode} onClick={() => handleCancel(feed)}>
+                          <Ban className="h-4 w-4 mr-2" />
+                          Cancel
+                        </Button>
+                      )}
+                      {!isTracking && (feed.error || !isFinished) && (
+                        <Button variant="outline" size="sm" disabled={demoMode} onClick={() => feedService.refreshFeed(feed.feedId)}>
+                          <RefreshCcw className="h-4 w-4 mr-2" />
+                          Check Again
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(feed)}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      </main>
+
+      <Dialog open={!!viewing} onOpenChange={open => !open && setViewing(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          {viewing?.result && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{getFeedTypeName(viewing.feedType)}</DialogTitle>
+                <DialogDescription>Processing report of feed {viewing.feedId}</DialogDescription>
+              </DialogHeader>
+              {viewing.result.issues.length > 0 ? (
+                <div className="overflow-auto max-h-[60vh]">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    <thead className="sticky top-0 bg-white dark:bg-gray-900">
+                      <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        <th className="px-3 py-2">Record</th>
+                        <th className="px-3 py-2">SKU</th>
+                        <th className="px-3 py-2">Severity</th>
+                        <th className="px-3 py-2">Code</th>
+                        <th className="px-3 py-2">Message</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {viewing.result.issues.map((issue, index) => (
+                        <tr key={index} className="align-top">
+                          <td className="px-3 py-2 tabular-nums">{issue.recordId ?? 'Feed'}</td>
+                          <td className="px-3 py-2 font-mono text-xs break-all">{issue.sku}</td>
+                          <td className="px-3 py-2">
+                            <Badge variant="outline" className={SEVERITY_STYLES[issue.severity]}>{issue.severity}</Badge>
+                          </td>
+                          <td className="px-3 py-2 font-mono text-xs">{issue.code}</td>
+                          <td className="px-3 py-2">
+                            {issue.message}
+                            {issue.attribute && <div className="text-xs text-gray-500">Attribute: {issue.attribute}</div>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <pre className="text-xs whitespace-pre-wrap break-all">{viewing.result.text}</pre>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
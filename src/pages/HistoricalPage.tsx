@@ -3,6 +3,9 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { HistoricalDataView } from '@/components/ui-components/HistoricalDataView';
+import { ReportHistory } from '@/components/ui-components/ReportHistory';
+import { ProfileSwitcher } from '@/components/ui-components/ProfileSwitcher';
+import { useActiveProfile } from '@/hooks/use-active-profile';
 import { DatabaseStats } from '@/types/amazon-api';
 import amazonService from '@/services/amazon-service';
 import dbService from '@/services/db-service';
@@ -10,6 +13,7 @@ import { Database, History, LayoutDashboard } from 'lucide-react';
 
 export default function HistoricalPage() {
   const navigate = useNavigate();
+  const { profileId } = useActiveProfile();
   const [dbStats, setDbStats] = useState<DatabaseStats>({
     totalEndpoints: 0,
     totalResponses: 0,
@@ -32,7 +36,7 @@ export default function HistoricalPage() {
   useEffect(() => {
     const loadStats = async () => {
       try {
-        const stats = await dbService.getDatabaseStats();
+        const stats = await dbService.getDatabaseStats(profileId);
         setDbStats(stats);
       } catch (error) {
         console.error('Failed to load database stats:', error);
@@ -40,7 +44,7 @@ export default function HistoricalPage() {
     };
     
     loadStats();
-  }, []);
+  }, [profileId]);
   
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-8">
@@ -51,6 +55,7 @@ export default function HistoricalPage() {
             <h1 className="text-xl font-semibold">Amazon SP-API Data Extractor</h1>
           </div>
           <div className="flex items-center space-x-2">
+            <ProfileSwitcher />
             <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
               <LayoutDashboard className="h-4 w-4 mr-2" />
               Dashboard
@@ -68,6 +73,7 @@ export default function HistoricalPage() {
           <h2 className="text-2xl font-semibold mb-2">Historical Data</h2>
           <p className="text-gray-500">
             View historical snapshots of your Amazon data. Each snapshot represents data from all endpoints at a specific point in time.
+            Report documents are listed below, by report type.
           </p>
         </div>
         
@@ -82,7 +88,9 @@ export default function HistoricalPage() {
           </div>
         </div>
         
-        <HistoricalDataView className="mb-6" />
+        <HistoricalDataView profileId={profileId} className="mb-6" />
+
+        <ReportHistory className="mb-6" />
       </main>
     </div>
   );
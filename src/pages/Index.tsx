@@ -20,12 +20,12 @@ const Index = () => {
         const hasCredentials = amazonService.hasCredentials();
         
         if (hasCredentials) {
-          // Record login timestamp and create a historical snapshot
-          await handleLogin();
+          // Record the login; the dashboard refreshes the data, where the run can be followed and cancelled
+          const autoFetch = await handleLogin();
           
           // Automatically redirect to dashboard if credentials are set
           setTimeout(() => {
-            navigate('/dashboard');
+            navigate('/dashboard', { state: { autoFetch } });
           }, 1500);
         }
       } catch (error) {
@@ -39,23 +39,13 @@ const Index = () => {
     checkCredentials();
   }, [navigate]);
   
-  const handleLogin = async () => {
-    try {
-      // Update the last login timestamp
-      await dbService.updateLastLogin();
-      
-      // Fetch all endpoints to ensure we have the latest data
-      toast.info('Refreshing data from all endpoints...');
-      await amazonService.fetchAllEndpoints();
-      
-      // Create a historical snapshot
-      await dbService.createHistoricalSnapshot();
-      toast.success('Historical data snapshot created successfully');
-    } catch (error) {
-      console.error('Error creating historical snapshot:', error);
-      toast.error('Failed to create historical data snapshot');
-      throw error;
-    }
+  // Whether the dashboard should fetch all endpoints; a fetch run also creates a historical snapshot
+  const handleLogin = async (): Promise<boolean> => {
+    // Update the last login timestamp
+    await dbService.updateLastLogin();
+    
+    // An interrupted run is offered for resuming on the dashboard instead
+    return !(await amazonService.getInterruptedRun());
   };
   
   return (
@@ -0,0 +1,640 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProfileSwitcher } from '@/components/ui-components/ProfileSwitcher';
+import { toast } from 'sonner';
+import { ReportDocumentContent, ReportProcessingStatus, ReportRequest } from '@/types/amazon-api';
+import { getMarketplace, getMarketplacesByRegion } from '@/types/marketplaces';
+import { REPORT_PERIODS, REPORT_TYPES, ReportPeriod, getReportPeriod, getReportType, getReportTypeName } from '@/types/report-types';
+import amazonService from '@/services/amazon-service';
+import reportService from '@/services/report-service';
+import reportScheduleService from '@/services/report-schedule-service';
+import { useReports } from '@/hooks/use-reports';
+import { useReportSchedules } from '@/hooks/use-report-schedules';
+import { isRelativeDate } from '@/utils/relative-date';
+import { FlatFile, formatFlatFile } from '@/utils/flat-file';
+import { DataPreview } from '@/components/ui-components/DataPreview';
+import { AlertTriangle, CalendarClock, Database, Download, Eye, FileText, LayoutDashboard, Loader2, RefreshCcw, Trash2 } from 'lucide-react';
+
+// Report options left to Amazon's default aren't sent
+const DEFAULT_OPTION = 'default';
+
+const REPEAT_LABELS = {
+  once: 'Once',
+  amazon: 'On an Amazon schedule',
+  local: 'On a local schedule',
+};
+
+const STATUS_STYLES: Record<ReportProcessingStatus, string> = {
+  IN_QUEUE: 'bg-gray-500/10 text-gray-600 border-gray-500/20',
+  IN_PROGRESS: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+  DONE: 'bg-green-500/10 text-green-600 border-green-500/20',
+  FATAL: 'bg-red-500/10 text-red-600 border-red-500/20',
+  CANCELLED: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+};
+
+const isDateValue = (value: string) => value === '' || isRelativeDate(value) || !Number.isNaN(Date.parse(value));
+
+const reportSchema = z.object({
+  reportType: z.string().trim().regex(/^[A-Z0-9_]+$/, { message: 'Enter a report type such as GET_MERCHANT_LISTINGS_ALL_DATA' }),
+  marketplaceIds: z.array(z.string()).min(1, { message: 'Select at least one marketplace' }),
+  dataStartTime: z.string().trim().refine(isDateValue, { message: 'Enter a date or an expression such as now-30d' }),
+  dataEndTime: z.string().trim().refine(isDateValue, { message: 'Enter a date or an expression such as now' }),
+  reportOptions: z.record(z.string()),
+  repeat: z.enum(['once', 'amazon', 'local']),
+  period: z.string(),
+});
+
+type ReportFormValues = z.infer<typeof reportSchema>;
+
+// Downloads keep the report's own format: JSON, tab-delimited or plain text
+const toBlob = (document: ReportDocumentContent) => {
+  switch (document.format) {
+    case 'json':
+      return new Blob([JSON.stringify(document.data, null, 2)], { type: 'application/json' });
+    case 'table':
+      return new Blob([formatFlatFile(document.data as FlatFile)], { type: 'text/tab-separated-values' });
+    default:
+      return new Blob([String(document.data)], { type: 'text/plain' });
+  }
+};
+
+const FILE_EXTENSIONS: Record<ReportDocumentContent['format'], string> = { json: 'json', table: 'tsv', text: 'txt' };
+
+export default function ReportsPage() {
+  const navigate = useNavigate();
+  const { reports, trackedIds } = useReports();
+  const { amazonSchedules, localSchedules } = useReportSchedules();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isListingSchedules, setIsListingSchedules] = useState(false);
+  const [viewing, setViewing] = useState<{ report: ReportRequest; document: ReportDocumentContent } | null>(null);
+  const demoMode = amazonService.isDemoMode();
+  const marketplaces = getMarketplacesByRegion(amazonService.getRegion());
+
+  const form = useForm<ReportFormValues>({
+    resolver: zodResolver(reportSchema),
+    defaultValues: {
+      reportType: 'GET_FLAT_FILE_ALL_ORDERS_DATA_BY_ORDER_DATE_GENERAL',
+      marketplaceIds: [amazonService.getSelectedMarketplaceId()],
+      dataStartTime: 'now-30d',
+      dataEndTime: 'now',
+      reportOptions: {},
+      repeat: 'once',
+      period: 'P1D',
+    },
+  });
+  const selectedType = getReportType(form.watch('reportType'));
+  const repeat = form.watch('repeat');
+
+  useEffect(() => {
+    if (!amazonService.hasCredentials()) {
+      navigate('/credentials');
+    }
+  }, [navigate]);
+
+  const onSubmit = async (data: ReportFormValues) => {
+    // Only options of the selected report type are sent, e.g. not those left over from another type
+    const reportOptions = Object.fromEntries((getReportType(data.reportType)?.options ?? [])
+      .map(option => [option.name, data.reportOptions[option.name]])
+      .filter(([, value]) => value && value !== DEFAULT_OPTION));
+    const specification = {
+      reportType: data.reportType,
+      marketplaceIds: data.marketplaceIds,
+      dataStartTime: data.dataStartTime || undefined,
+      dataEndTime: data.dataEndTime || undefined,
+      reportOptions: Object.keys(reportOptions).length > 0 ? reportOptions : undefined,
+    };
+    const period = data.period as ReportPeriod;
+
+    setIsSubmitting(true);
+    try {
+      switch (data.repeat) {
+        case 'amazon':
+          await reportScheduleService.createAmazonSchedule({
+            ...specification,
+            dataStartTime: undefined,
+            dataEndTime: undefined,
+            period,
+          });
+          toast.success(`Scheduled ${data.reportType}`, {
+            description: 'Amazon creates the report every period; list the schedules to pick up its reports.'
+          });
+          break;
+        case 'local':
+          await reportScheduleService.createLocalSchedule({ ...specification, period });
+          toast.success(`Scheduled ${data.reportType}`, {
+            description: 'The report is requested now and every period while the app is open.'
+          });
+          break;
+        default:
+          await reportService.requestReport(specification);
+          toast.success(`Requested ${data.reportType}`, {
+            description: 'Amazon is processing the report; its status is checked until it is ready.'
+          });
+      }
+    } catch (error) {
+      console.error('Failed to request report:', error);
+      toast.error(data.repeat === 'once' ? 'Failed to request the report' : 'Failed to schedule the report', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const loadDocument = async (report: ReportRequest) => {
+    const document = await reportService.getDocument(report.reportId);
+    if (!document) {
+      toast.error('The report document is no longer stored');
+    }
+    return document;
+  };
+
+  const handleView = async (report: ReportRequest) => {
+    const document = await loadDocument(report);
+    if (document) {
+      setViewing({ report, document });
+    }
+  };
+
+  const handleDownload = async (report: ReportRequest) => {
+    const document = await loadDocument(report);
+    if (!document) return;
+
+    const url = URL.createObjectURL(toBlob(document));
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = `${report.reportType}-${report.reportId}.${FILE_EXTENSIONS[document.format]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleListSchedules = async () => {
+    setIsListingSchedules(true);
+    try {
+      const schedules = await reportScheduleService.refreshAmazonSchedules();
+      if (schedules.length === 0) {
+        toast.info('Amazon has no report schedules for this account');
+      }
+    } catch (error) {
+      console.error('Failed to list report schedules:', error);
+      toast.error('Failed to list the report schedules', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    } finally {
+      setIsListingSchedules(false);
+    }
+  };
+
+  const handleCancelSchedule = async (reportScheduleId: string, reportType: string) => {
+    if (!window.confirm(`Cancel Amazon's ${reportType} schedule? Reports it created stay available.`)) {
+      return;
+    }
+
+    try {
+      await reportScheduleService.cancelAmazonSchedule(reportScheduleId);
+    } catch (error) {
+      console.error('Failed to cancel report schedule:', error);
+      toast.error('Failed to cancel the schedule', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handleDeleteLocalSchedule = async (scheduleId: string, reportType: string) => {
+    if (!window.confirm(`Stop requesting ${reportType} reports? Reports already requested stay available.`)) {
+      return;
+    }
+
+    try {
+      await reportScheduleService.deleteLocalSchedule(scheduleId);
+    } catch (error) {
+      console.error('Failed to delete report schedule:', error);
+      toast.error('Failed to delete the schedule');
+    }
+  };
+
+  const handleDelete = async (report: ReportRequest) => {
+    if (!window.confirm(`Delete the ${report.reportType} report and its stored document?`)) {
+      return;
+    }
+
+    try {
+      await reportService.deleteReport(report.reportId);
+    } catch (error) {
+      console.error('Failed to delete report:', error);
+      toast.error('Failed to delete the report');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-8">
+      <header className="sticky top-0 z-40 w-full bg-white/70 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-800">
+        <div className="container mx-auto px-4 flex h-16 items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Database className="h-6 w-6 text-primary" />
+            <h1 className="text-xl font-semibold">Amazon SP-API Data Extractor</h1>
+          </div>
+          <div className="flex items-center space-x-2">
+            <ProfileSwitcher />
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+              <LayoutDashboard className="h-4 w-4 mr-2" />
+              Dashboard
+            </Button>
+            <Button variant="outline" size="sm" className="font-medium">
+              <FileText className="h-4 w-4 mr-2" />
+              Reports
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 pt-6">
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold mb-2">Reports</h2>
+          <p className="text-gray-500">
+            Request reports from the Reports API. Amazon processes them in the background, which can take from a minute
+            to several hours; the documents are downloaded and stored as soon as they are ready.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            <Card className="glass h-fit">
+              <CardHeader>
+                <CardTitle className="text-lg">Request a Report</CardTitle>
+                <CardDescription>
+                  Dates accept expressions such as now-30d, resolved in the time zone of the first marketplace
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {demoMode && (
+                  <div className="flex items-start gap-2 text-sm text-amber-600 mb-4">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>Reports can't be requested in demo mode. Turn demo mode off on the dashboard first.</span>
+                  </div>
+                )}
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="reportType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Report Type</FormLabel>
+                          <FormControl>
+                            <Input list="report-type-suggestions" autoComplete="off" className="font-mono text-sm" {...field} />
+                          </FormControl>
+                          <datalist id="report-type-suggestions">
+                            {REPORT_TYPES.map(reportType => (
+                              <option key={reportType.type} value={reportType.type}>{reportType.category}: {reportType.name}</option>
+                            ))}
+                          </datalist>
+                          {selectedType && (
+                            <FormDescription>
+                              {selectedType.name}: {selectedType.description}.
+                              {selectedType.dateRange === 'none' && ' Covers the current data, without a date range.'}
+                              {selectedType.dateRange === 'required' && ' Needs a date range.'}
+                              {selectedType.maxRangeDays && ` At most ${selectedType.maxRangeDays} days per report.`}
+                              {selectedType.maxHistoryDays && ` Reaches back at most ${selectedType.maxHistoryDays} days.`}
+                              {selectedType.scheduleOnly && ' Amazon creates these reports itself; list the schedules to pick them up.'}
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="marketplaceIds"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Marketplaces</FormLabel>
+                          <div className="grid grid-cols-2 gap-2">
+                            {marketplaces.map(marketplace => (
+                              <label key={marketplace.id} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={field.value.includes(marketplace.id)}
+                                  onCheckedChange={checked => field.onChange(checked
+                                    ? [...field.value, marketplace.id]
+                                    : field.value.filter(id => id !== marketplace.id))}
+                                />
+                                {marketplace.name}
+                              </label>
+                            ))}
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {selectedType?.options && (
+                      <div className="grid grid-cols-2 gap-4">
+                        {selectedType.options.map(option => (
+                          <FormField
+                            key={option.name}
+                            control={form.control}
+                            name={`reportOptions.${option.name}`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{option.label}</FormLabel>
+                                <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder={option.required ? 'Select' : "Amazon's default"} />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {!option.required && <SelectItem value={DEFAULT_OPTION}>Amazon's default</SelectItem>}
+                                    {option.values.map(value => <SelectItem key={value} value={value}>{value}</SelectItem>)}
+                                  </SelectContent>
+                                </Select>
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="dataStartTime"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Data Start</FormLabel>
+                            <FormControl>
+                              <Input autoComplete="off" className="font-mono text-sm" disabled={repeat === 'amazon'} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="dataEndTime"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Data End</FormLabel>
+                            <FormControl>
+                              <Input autoComplete="off" className="font-mono text-sm" disabled={repeat === 'amazon'} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <FormDescription>
+                      {repeat === 'amazon'
+                        ? 'Amazon schedules choose the date range of each report from their period.'
+                        : repeat === 'local'
+                          ? 'Local schedules resolve expressions such as now-1d anew for every report.'
+                          : "Leave the dates empty for report types that don't take a date range."}
+                    </FormDescription>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="repeat"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Repeat</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {Object.entries(REPEAT_LABELS).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+
+                      {repeat !== 'once' && (
+                        <FormField
+                          control={form.control}
+                          name="period"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Period</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {REPORT_PERIODS.map(period => (
+                                    <SelectItem key={period.value} value={period.value}>{period.label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+
+                    <Button type="submit" disabled={isSubmitting || demoMode}>
+                      {repeat === 'once' ? <FileText className="h-4 w-4 mr-2" /> : <CalendarClock className="h-4 w-4 mr-2" />}
+                      {repeat === 'once' ? 'Request Report' : 'Create Schedule'}
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+
+            <Card className="glass h-fit">
+              <CardHeader>
+                <div className="flex justify-between items-start gap-2">
+                  <CardTitle className="text-lg">Schedules</CardTitle>
+                  <Button variant="outline" size="sm" disabled={isListingSchedules || demoMode} onClick={handleListSchedules}>
+                    {isListingSchedules
+                      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      : <RefreshCcw className="h-4 w-4 mr-2" />}
+                    List Amazon Schedules
+                  </Button>
+                </div>
+                <CardDescription>
+                  Amazon schedules run on Amazon's side; their reports are picked up when the schedules are listed.
+                  Local schedules request reports while the app is open.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {amazonSchedules.length === 0 && localSchedules.length === 0 && (
+                  <div className="text-center text-gray-500 dark:text-gray-400">No schedules listed</div>
+                )}
+
+                {amazonSchedules.map(schedule => (
+                  <div key={schedule.reportScheduleId} className="flex justify-between items-start gap-2">
+                    <div>
+                      <div className="font-medium">
+                        {getReportTypeName(schedule.reportType)}
+                        <Badge variant="outline" className="ml-2">Amazon</Badge>
+                      </div>
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {getReportPeriod(schedule.period)?.label ?? schedule.period}
+                        {' · '}
+                        {(schedule.marketplaceIds ?? []).map(id => getMarketplace(id)?.countryCode ?? id).join(', ')}
+                        {schedule.nextReportCreationTime && ` · next ${new Date(schedule.nextReportCreationTime).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleCancelSchedule(schedule.reportScheduleId, schedule.reportType)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                {localSchedules.map(schedule => (
+                  <div key={schedule.id} className="flex justify-between items-start gap-2">
+                    <div>
+                      <div className="font-medium">
+                        {getReportTypeName(schedule.reportType)}
+                        <Badge variant="outline" className="ml-2">Local</Badge>
+                      </div>
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {getReportPeriod(schedule.period)?.label ?? schedule.period}
+                        {' · '}
+                        {schedule.marketplaceIds.map(id => getMarketplace(id)?.countryCode ?? id).join(', ')}
+                        {` · next ${new Date(schedule.nextRunAt).toLocaleString()}`}
+                      </div>
+                      {schedule.lastError && (
+                        <div className="flex items-start gap-1.5 text-red-500 dark:text-red-400">
+                          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                          <span>{schedule.lastError}</span>
+                        </div>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteLocalSchedule(schedule.id, schedule.reportType)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-4">
+            {reports.length === 0 ? (
+              <Card className="glass">
+                <CardContent className="pt-6 text-center text-gray-500 dark:text-gray-400">
+                  No reports requested yet
+                </CardContent>
+              </Card>
+            ) : reports.map(report => {
+              const isTracking = trackedIds.includes(report.reportId);
+              const isFinished = report.status === 'DONE' || report.status === 'FATAL' || report.status === 'CANCELLED';
+
+              return (
+                <Card key={report.reportId} className="glass">
+                  <CardHeader className="pb-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <CardTitle className="text-base font-medium font-mono break-all">{report.reportType}</CardTitle>
+                      <Badge variant="outline" className={STATUS_STYLES[report.status]}>
+                        {isTracking && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        {report.status.replace('_', ' ')}
+                      </Badge>
+                    </div>
+                    <CardDescription>
+                      {report.scheduleId ? 'Scheduled' : 'Requested'} {new Date(report.requestedAt).toLocaleString()}
+                      {' · '}
+                      {report.marketplaceIds.map(id => getMarketplace(id)?.countryCode ?? id).join(', ')}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="text-sm space-y-2">
+                    {(report.dataStartTime || report.dataEndTime) && (
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {report.dataStartTime ? new Date(report.dataStartTime).toLocaleString() : '…'}
+                        {' – '}
+                        {report.dataEndTime ? new Date(report.dataEndTime).toLocaleString() : 'now'}
+                      </div>
+                    )}
+
+                    {report.status === 'FATAL' && (
+                      <div className="text-red-500 dark:text-red-400">
+                        Amazon could not create the report.{report.documentStored && ' The stored document describes the problem.'}
+                      </div>
+                    )}
+
+                    {report.error && (
+                      <div className="flex items-start gap-1.5 text-red-500 dark:text-red-400">
+                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        <span>{report.error}</span>
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {report.documentStored && (
+                        <>
+                          <Button variant="outline" size="sm" onClick={() => handleView(report)}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            View
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleDownload(report)}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Download
+                          </Button>
+                        </>
+                      )}
+                      {!isTracking && (report.error || !isFinished) && (
+                        <Button variant="outline" size="sm" disabled={demoMode} onClick={() => reportService.refreshReport(report.reportId)}>
+                          <RefreshCcw className="h-4 w-4 mr-2" />
+                          Check Again
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(report)}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      </main>
+
+      <Dialog open={!!viewing} onOpenChange={open => !open && setViewing(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          {viewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono break-all">{viewing.report.reportType}</DialogTitle>
+                <DialogDescription>
+                  {viewing.document.size.toLocaleString()} bytes, stored {new Date(viewing.document.storedAt).toLocaleString()}
+                </DialogDescription>
+              </DialogHeader>
+              <DataPreview
+                response={{
+                  endpointId: viewing.report.reportType,
+                  data: viewing.document.data,
+                  timestamp: viewing.document.storedAt,
+                  success: true
+                }}
+                description={`Report ${viewing.report.reportId}`}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -119,14 +119,14 @@ export default function SetupPage() {
                     <div className="space-y-2">
                       <h4 className="font-medium">1. Ensure your proxy server is running</h4>
                       <p className="text-sm text-gray-600 dark:text-gray-300">
-                        Make sure you've started the proxy server using <code>node server.js</code>
+                        Make sure you've started the proxy server by running <code>npm start</code> in the <code>proxy</code> folder
                       </p>
                     </div>
                     
                     <div className="space-y-2">
                       <h4 className="font-medium">2. Test the health check endpoint</h4>
                       <p className="text-sm text-gray-600 dark:text-gray-300">
-                        Open <a href="http://localhost:8080/health" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">http://localhost:8080/health</a> in your browser.
+                        Open <a href="http://localhost:3001/health" target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline">http://localhost:3001/health</a> in your browser.
                         You should see a JSON response with <code>{`{"status":"ok"}`}</code>
                       </p>
                     </div>
@@ -136,7 +136,7 @@ export default function SetupPage() {
                       <Button
                         variant="outline"
                         onClick={() => {
-                          window.open('http://localhost:8080/health', '_blank');
+                          window.open('http://localhost:3001/health', '_blank');
                         }}
                       >
                         Check Proxy Status
@@ -0,0 +1,114 @@
+
+import { SpApiError } from '../types/amazon-api';
+
+// Error codes returned by the Login with Amazon token endpoint
+export type LwaErrorCode =
+  | 'invalid_grant'
+  | 'invalid_client'
+  | 'invalid_request'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'invalid_scope'
+  | 'server_error'
+  | 'temporarily_unavailable'
+  | 'unknown';
+
+const LWA_ERROR_CODES: LwaErrorCode[] = [
+  'invalid_grant',
+  'invalid_client',
+  'invalid_request',
+  'unauthorized_client',
+  'unsupported_grant_type',
+  'invalid_scope',
+  'server_error',
+  'temporarily_unavailable'
+];
+
+const LWA_ERROR_MESSAGES: Partial<Record<LwaErrorCode, string>> = {
+  invalid_grant: 'The refresh token is invalid, expired or has been revoked',
+  invalid_client: 'The client ID or client secret is invalid',
+  unauthorized_client: 'The application is not authorized to use this grant type'
+};
+
+export class LwaError extends Error {
+  readonly code: LwaErrorCode;
+  readonly status: number;
+
+  constructor(code: LwaErrorCode, message: string, status: number) {
+    super(message);
+    this.name = 'LwaError';
+    this.code = code;
+    this.status = status;
+  }
+
+  static fromResponse(status: number, body: { error?: string; error_description?: string } | null): LwaError {
+    const code = LWA_ERROR_CODES.find(c => c === body?.error) ?? 'unknown';
+    const message = body?.error_description
+      || LWA_ERROR_MESSAGES[code]
+      || body?.error
+      || `Token request failed with status ${status}`;
+
+    switch (code) {
+      case 'invalid_grant':
+        return new InvalidGrantError(message, status);
+      case 'invalid_client':
+        return new InvalidClientError(message, status);
+      default:
+        return new LwaError(code, message, status);
+    }
+  }
+}
+
+// The refresh token was rejected; the seller has to re-authorize the application
+export class InvalidGrantError extends LwaError {
+  constructor(message: string, status: number) {
+    super('invalid_grant', message, status);
+    this.name = 'InvalidGrantError';
+  }
+}
+
+// The client ID or secret was rejected
+export class InvalidClientError extends LwaError {
+  constructor(message: string, status: number) {
+    super('invalid_client', message, status);
+    this.name = 'InvalidClientError';
+  }
+}
+
+// A non-successful response from the SP-API, forwarded by the proxy
+export class SpApiRequestError extends Error {
+  readonly status: number;
+  readonly errors: SpApiError[];
+  readonly retryAfterMs?: number; // From the Retry-After header, if Amazon sent one
+
+  constructor(status: number, errors: SpApiError[], retryAfterMs?: number) {
+    const message = errors.length > 0
+      ? errors.map(error => `${error.code}: ${error.message}`).join('; ')
+      : `Request failed with status ${status}`;
+    super(message);
+    this.name = 'SpApiRequestError';
+    this.status = status;
+    this.errors = errors;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// A 403 "Unauthorized" from the SP-API means the application lacks the role the operation needs
+export function isMissingRoleError(error: unknown): error is SpApiRequestError {
+  return error instanceof SpApiRequestError
+    && error.status === 403
+    && (error.errors.length === 0 || error.errors.some(entry => entry.code === 'Unauthorized'));
+}
+
+// The local proxy could not be reached at all
+export class ProxyConnectionError extends Error {
+  constructor(proxyUrl: string) {
+    super(`Could not reach the local proxy at ${proxyUrl}. Is it running?`);
+    this.name = 'ProxyConnectionError';
+  }
+}
+
+// Whether the error was raised because an AbortSignal fired
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
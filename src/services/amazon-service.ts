@@ -1,12 +1,118 @@
-import { AmazonCredentials, ApiEndpoint, ApiResponse, ProgressStatus } from '../types/amazon-api';
+import { API_ENDPOINTS, AmazonCredentials, ApiEndpoint, ApiResponse, CredentialCheck, EndpointAvailability, FanOutResult, FetchRun, PiiStatus, ProgressStatus, SpApiError, fromOperation } from '../types/amazon-api';
 import dbService from './db-service';
+import credentialVault from './credential-vault';
+import profileService from './profile-service';
+import endpointRegistry from './endpoint-registry';
+import { InvalidClientError, InvalidGrantError, LwaError, ProxyConnectionError, SpApiRequestError, isAbortError, isMissingRoleError } from './amazon-errors';
+import rateLimiter from './rate-limiter';
+import { classifyError, parseRetryAfter, resolveRetryPolicy, sleep, withRetry } from './retry-policy';
+import { collectPath, getPath, setPath } from '../utils/object-path';
+import { fillPathTemplate } from '../utils/path-template';
+import { resolveDateParams } from '../utils/relative-date';
+import { runPool } from '../utils/worker-pool';
+import { DEFAULT_REGION, REGIONS, Region, applyMarketplace, getMarketplace, getParamMarketplaceIds, getParamsTimeZone, isMarketplaceScoped } from '../types/marketplaces';
+import { SpApiOperationData } from '../types/sp-api';
 import { toast } from 'sonner';
 
+// Refresh the access token this long before it actually expires
+const TOKEN_REFRESH_MARGIN = 60000;
+
+const DEMO_MODE_SETTING = 'demo-mode';
+const PAGE_LIMIT_SETTING = 'page-limit';
+const DEFAULT_PAGE_LIMIT = 10;
+const CONCURRENCY_SETTING = 'fetch-concurrency';
+const AVAILABILITY_SETTING_PREFIX = 'endpoint-availability:'; // Followed by the profile id
+const PARAMS_SETTING_PREFIX = 'endpoint-params:'; // Followed by the profile id
+const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 5;
+// Requests a dependent endpoint may send for its parent's ids unless it sets its own limit
+const MAX_FAN_OUT_REQUESTS = 100;
+
+// Tokens API operation that issues Restricted Data Tokens
+const RESTRICTED_DATA_TOKEN_ENDPOINT: ApiEndpoint = {
+  id: 'restricted-data-token',
+  name: 'Restricted Data Token',
+  description: 'Create a Restricted Data Token',
+  ...fromOperation('tokens', 'createRestrictedDataToken'),
+  requiresParams: false
+};
+// Don't ask again for a token that was denied for this long
+const RESTRICTED_DATA_DENIAL_TTL = 10 * 60 * 1000;
+
+interface LwaTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+// Tracks the requests sent while fetching one endpoint, across pages and retries
+interface RequestStats {
+  attempts: number;
+}
+
+export interface FetchOptions {
+  signal?: AbortSignal;
+  marketplaceId?: string; // Points marketplace parameters at this marketplace
+  keepMarketplaces?: boolean; // Use the marketplaces in the params rather than the selected one
+  fanOutValues?: FanOutValues; // Parent ids a dependent endpoint is fetched for; looked up when missing
+  profileId?: string; // Profile the request is made for; the active one when missing
+  credentials?: AmazonCredentials; // Credentials of that profile, as they were when a run started
+}
+
+// Ids a dependent endpoint is fetched for, with the further params each id brings along
+export interface FanOutValues {
+  values: string[];
+  params: Record<string, Record<string, unknown>>; // By id, from EndpointDependency.valueParams
+}
+
+export interface FetchAllOptions {
+  signal?: AbortSignal;
+  resume?: boolean; // Continue the interrupted run instead of starting over
+  marketplaceIds?: string[]; // Defaults to the selected marketplace
+}
+
+interface SetCredentialsOptions {
+  passphrase?: string; // Required unless the vault is already unlocked
+  skipValidation?: boolean; // Store without contacting Amazon, e.g. while the proxy is down
+}
+
+interface FetchJob {
+  key: string;
+  endpoint: ApiEndpoint;
+  marketplaceId?: string;
+}
+
+interface ProxyRequest {
+  params?: Record<string, unknown>;
+  body?: unknown;
+  accessToken: string;
+  region: Region;
+  signal?: AbortSignal;
+}
+
+// A cached Restricted Data Token; null when the application isn't allowed one
+interface CachedRestrictedDataToken {
+  token: string | null;
+  expiresAt: number;
+}
+
+// SP-API operations wrap their result in `payload`, newer ones return it directly
+interface SpApiEnvelope {
+  payload?: unknown;
+  errors?: SpApiError[];
+  [key: string]: unknown;
+}
+
 class AmazonService {
-  private proxyUrl = 'http://localhost:8080/api/amazon';
+  private proxyUrl = 'http://localhost:3001/api/amazon';
   private credentials: AmazonCredentials | null = null;
   private accessToken: string | null = null;
   private tokenExpiration: number = 0;
+  private tokenRequest: { credentials: AmazonCredentials; token: Promise<string> } | null = null;
+  private tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private restrictedDataTokens = new Map<string, CachedRestrictedDataToken>();
+  private availability = new Map<string, Record<string, EndpointAvailability>>(); // By profile id
+  private savedParams = new Map<string, Record<string, Record<string, unknown>>>(); // By profile id
   private progressStatus: ProgressStatus = {
     currentEndpoint: '',
     progress: 0,
@@ -14,92 +120,363 @@ class AmazonService {
     status: 'idle'
   };
   private progressListeners: ((status: ProgressStatus) => void)[] = [];
+  private demoMode = false;
+  private pageLimit = DEFAULT_PAGE_LIMIT;
+  private concurrency = DEFAULT_CONCURRENCY;
+  private runController: AbortController | null = null; // Of the Fetch All run in progress
+  private initialization: Promise<void>;
 
   constructor() {
-    this.initializeCredentials();
-  }
+    this.initialization = Promise.all([
+      this.initializeSettings(),
+      profileService.whenReady(),
+      endpointRegistry.whenReady()
+    ]).then(() => undefined);
 
-  private async initializeCredentials() {
-    try {
-      const credentials = await dbService.getCredentials();
-      if (credentials) {
+    // Credentials are only available while the vault is unlocked, and belong to the active profile
+    const loadCredentials = () => {
+      const credentials = credentialVault.getCredentials(profileService.getActiveProfileId());
+      if (credentials !== this.credentials) {
         this.credentials = credentials;
+        this.clearAccessToken();
       }
-    } catch (error) {
-      console.error('Failed to initialize credentials:', error);
-    }
+    };
+    credentialVault.onChange(loadCredentials);
+    profileService.onChange(loadCredentials);
+    profileService.onChange(() => this.forgetDeletedProfiles());
+  }
+
+  // Drops the cached settings of deleted profiles along with the stored ones
+  private forgetDeletedProfiles() {
+    const profileIds = new Set(profileService.getProfiles().map(profile => profile.id));
+    [this.availability, this.savedParams].forEach(cache => {
+      [...cache.keys()].filter(profileId => !profileIds.has(profileId)).forEach(profileId => cache.delete(profileId));
+    });
+  }
+
+  // Resolves once settings, profiles and custom endpoints have been loaded
+  public whenReady(): Promise<void> {
+    return this.initialization;
   }
 
-  public async setCredentials(credentials: AmazonCredentials): Promise<boolean> {
+  private async initializeSettings() {
     try {
-      const isValid = await this.validateCredentials(credentials);
-      
-      if (isValid) {
-        await dbService.saveCredentials(credentials);
-        this.credentials = credentials;
-        return true;
-      }
-      
-      return false;
+      this.demoMode = (await dbService.getSetting<boolean>(DEMO_MODE_SETTING)) ?? false;
+      this.pageLimit = (await dbService.getSetting<number>(PAGE_LIMIT_SETTING)) ?? DEFAULT_PAGE_LIMIT;
+      this.concurrency = (await dbService.getSetting<number>(CONCURRENCY_SETTING)) ?? DEFAULT_CONCURRENCY;
     } catch (error) {
-      console.error('Failed to set credentials:', error);
-      return false;
+      console.error('Failed to initialize settings:', error);
+    }
+  }
+
+  public isDemoMode(): boolean {
+    return this.demoMode;
+  }
+
+  public async setDemoMode(enabled: boolean): Promise<void> {
+    this.demoMode = enabled;
+    await dbService.saveSetting(DEMO_MODE_SETTING, enabled);
+  }
+
+  public getPageLimit(): number {
+    return this.pageLimit;
+  }
+
+  // Maximum number of pages followed for a paginated endpoint, unless the endpoint overrides it
+  public async setPageLimit(limit: number): Promise<void> {
+    this.pageLimit = Math.max(1, Math.floor(limit));
+    await dbService.saveSetting(PAGE_LIMIT_SETTING, this.pageLimit);
+  }
+
+  public getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  // Number of endpoints fetched in parallel by fetchAllEndpoints
+  public async setConcurrency(concurrency: number): Promise<void> {
+    this.concurrency = Math.min(Math.max(Math.floor(concurrency), 1), MAX_CONCURRENCY);
+    await dbService.saveSetting(CONCURRENCY_SETTING, this.concurrency);
+  }
+
+  // Validates and stores the credentials of the active profile
+  public async setCredentials(
+    credentials: AmazonCredentials,
+    { passphrase, skipValidation = false }: SetCredentialsOptions = {}
+  ): Promise<CredentialCheck> {
+    const check: CredentialCheck = skipValidation
+      ? { outcome: 'valid', message: 'Saved without validation' }
+      : await this.validateCredentials(credentials);
+
+    if (check.outcome === 'valid') {
+      await credentialVault.save(profileService.getActiveProfileId(), credentials, passphrase);
     }
+
+    return check;
   }
 
-  private async validateCredentials(credentials: AmazonCredentials): Promise<boolean> {
+  // Exchanges the refresh token and calls getMarketplaceParticipations, which every seller app may use
+  public async validateCredentials(credentials: AmazonCredentials): Promise<CredentialCheck> {
+    const probe = API_ENDPOINTS.find(endpoint => endpoint.id === 'seller-account')!;
+
     try {
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      return !!(credentials.clientId && credentials.clientSecret && credentials.refreshToken);
+      const accessToken = await this.requestAccessToken(credentials);
+      const response = await this.postToProxy(probe, { accessToken, region: credentials.region ?? DEFAULT_REGION });
+      const body: SpApiEnvelope | null = await response.json().catch(() => null);
+
+      if (!response.ok || (body?.errors && body.errors.length > 0)) {
+        throw new SpApiRequestError(response.status, body?.errors ?? []);
+      }
+
+      return { outcome: 'valid', message: 'The credentials work' };
     } catch (error) {
       console.error('Credential validation failed:', error);
-      return false;
+      return this.describeValidationError(error);
     }
   }
 
+  private describeValidationError(error: unknown): CredentialCheck {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (error instanceof ProxyConnectionError) {
+      return { outcome: 'proxy-unreachable', message };
+    }
+    if (error instanceof InvalidClientError || (error instanceof LwaError && error.code === 'unauthorized_client')) {
+      return { outcome: 'invalid-client', message };
+    }
+    if (error instanceof InvalidGrantError) {
+      return { outcome: 'invalid-grant', message };
+    }
+    if (error instanceof SpApiRequestError && (error.status === 401 || error.status === 403)) {
+      return { outcome: 'unauthorized', message };
+    }
+
+    return { outcome: 'error', message };
+  }
+
   public hasCredentials(): boolean {
     return !!this.credentials;
   }
 
-  private async getAccessToken(): Promise<string> {
-    if (!this.credentials) {
+  public getRegion(): Region {
+    return this.credentials?.region ?? DEFAULT_REGION;
+  }
+
+  // Marketplace that marketplace parameters are pointed at, the region's main one until the user picks another
+  public getSelectedMarketplaceId(): string {
+    const selectedId = profileService.getActiveProfile()?.selectedMarketplaceId;
+    const selected = selectedId ? getMarketplace(selectedId) : undefined;
+    return selected && (this.demoMode || selected.region === this.getRegion())
+      ? selected.id
+      : REGIONS[this.getRegion()].defaultMarketplaceId;
+  }
+
+  public async setSelectedMarketplaceId(marketplaceId: string): Promise<void> {
+    if (!getMarketplace(marketplaceId)) {
+      throw new Error(`Unknown marketplace: ${marketplaceId}`);
+    }
+
+    await profileService.updateProfile(profileService.getActiveProfileId(), { selectedMarketplaceId: marketplaceId });
+  }
+
+  private async getAccessToken(credentials = this.credentials): Promise<string> {
+    if (!credentials) {
       throw new Error('Credentials not set');
     }
 
-    if (this.accessToken && Date.now() < this.tokenExpiration - 60000) {
+    // Tokens are only cached for the active credentials; a run keeps using the ones it started with
+    if (credentials !== this.credentials) {
+      return this.requestAccessToken(credentials);
+    }
+
+    if (this.accessToken && Date.now() < this.tokenExpiration - TOKEN_REFRESH_MARGIN) {
       return this.accessToken;
     }
 
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    this.accessToken = 'simulated-access-token-' + Date.now();
-    this.tokenExpiration = Date.now() + 3600000;
-    
+    // Share a single in-flight exchange between concurrent callers with the same credentials
+    if (this.tokenRequest?.credentials !== credentials) {
+      const request = {
+        credentials,
+        token: this.requestAccessToken(credentials).finally(() => {
+          if (this.tokenRequest === request) this.tokenRequest = null;
+        })
+      };
+      this.tokenRequest = request;
+    }
+
+    return this.tokenRequest.token;
+  }
+
+  private async requestAccessToken(credentials: AmazonCredentials): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.proxyUrl}/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          clientId: credentials.clientId,
+          clientSecret: credentials.clientSecret,
+          refreshToken: credentials.refreshToken
+        })
+      });
+    } catch (error) {
+      throw new ProxyConnectionError(this.proxyUrl);
+    }
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok || !body?.access_token) {
+      throw LwaError.fromResponse(response.status, body);
+    }
+
+    const token = body as LwaTokenResponse;
+
+    // Ignore the result if the credentials changed while the request was in flight
+    if (credentials !== this.credentials) {
+      return token.access_token;
+    }
+
+    this.accessToken = token.access_token;
+    this.tokenExpiration = Date.now() + token.expires_in * 1000;
+    this.scheduleTokenRefresh();
+
     return this.accessToken;
   }
 
-  public async fetchFromEndpoint(endpoint: ApiEndpoint, params?: Record<string, any>): Promise<ApiResponse> {
+  private scheduleTokenRefresh() {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+    }
+
+    const delay = Math.max(this.tokenExpiration - TOKEN_REFRESH_MARGIN - Date.now(), 0);
+
+    this.tokenRefreshTimer = setTimeout(() => {
+      this.tokenRefreshTimer = null;
+      if (!this.credentials) return;
+
+      this.accessToken = null;
+      this.getAccessToken().catch(error => {
+        console.error('Failed to refresh access token:', error);
+      });
+    }, delay);
+  }
+
+  private clearAccessToken() {
+    if (this.tokenRefreshTimer) {
+      clearTimeout(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
+
+    this.accessToken = null;
+    this.tokenExpiration = 0;
+    this.tokenRequest = null;
+    this.restrictedDataTokens.clear();
+  }
+
+  // Restricted Data Token for the endpoint's path and data elements, or null if Amazon denies one.
+  // Tokens are cached per path and data elements until shortly before they expire.
+  private async getRestrictedDataToken(
+    endpoint: ApiEndpoint,
+    accessToken: string,
+    profileId: string,
+    credentials: AmazonCredentials,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const method = endpoint.method ?? 'GET';
+    const dataElements = [...(endpoint.restrictedData?.dataElements ?? [])].sort();
+    const cacheKey = `${method} ${endpoint.endpoint} ${dataElements.join(',')}`;
+    // The cache belongs to the active credentials
+    const cacheable = accessToken === this.accessToken;
+
+    const cached = cacheable ? this.restrictedDataTokens.get(cacheKey) : undefined;
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.token;
+    }
+
+    let entry: CachedRestrictedDataToken;
     try {
-      if (!this.credentials) {
-        throw new Error('Credentials not set');
+      const { body } = await this.callOperation(RESTRICTED_DATA_TOKEN_ENDPOINT, profileId, {
+        body: {
+          restrictedResources: [{
+            method,
+            path: endpoint.endpoint,
+            ...(dataElements.length > 0 ? { dataElements } : {})
+          }]
+        },
+        accessToken,
+        region: credentials.region ?? DEFAULT_REGION,
+        signal
+      });
+      const { restrictedDataToken, expiresIn } = body as SpApiOperationData['tokens']['createRestrictedDataToken'];
+      entry = { token: restrictedDataToken, expiresAt: Date.now() + expiresIn * 1000 - TOKEN_REFRESH_MARGIN };
+    } catch (error) {
+      // The application lacks the roles for this data; fall back to the redacted response
+      if (error instanceof SpApiRequestError && (error.status === 400 || error.status === 403)) {
+        console.warn(`Restricted Data Token denied for ${endpoint.endpoint}:`, error.message);
+        entry = { token: null, expiresAt: Date.now() + RESTRICTED_DATA_DENIAL_TTL };
+      } else {
+        throw error;
       }
+    }
+
+    // Ignore the result if the credentials changed while the request was in flight
+    if (cacheable && accessToken === this.accessToken) {
+      this.restrictedDataTokens.set(cacheKey, entry);
+    }
+
+    return entry.token;
+  }
+
+  public async fetchFromEndpoint(endpoint: ApiEndpoint, params?: Record<string, any>, options: FetchOptions = {}): Promise<ApiResponse> {
+    const stats: RequestStats = { attempts: 0 };
+    const profileId = options.profileId ?? profileService.getActiveProfileId();
+    const region = options.credentials?.region ?? this.getRegion();
+    const keepMarketplaces = options.keepMarketplaces && !options.marketplaceId;
+    const targetId = options.marketplaceId ?? (isMarketplaceScoped(params) ? this.getSelectedMarketplaceId() : undefined);
+    const marketplaceIds = keepMarketplaces ? getParamMarketplaceIds(params) : targetId ? [targetId] : [];
+    // Responses covering several marketplaces at once aren't attributed to any of them
+    const marketplaceId = marketplaceIds.length === 1 ? marketplaceIds[0] : undefined;
+    const scopedParams = !keepMarketplaces && targetId && params ? applyMarketplace(params, targetId) : params;
+    // Relative dates such as now-30d are fixed once per fetch, so all pages cover the same window
+    const requestParams = scopedParams
+      && resolveDateParams(scopedParams, getParamsTimeZone(scopedParams, this.getSelectedMarketplaceId()));
+
+    try {
+      marketplaceIds.forEach(id => {
+        const marketplace = getMarketplace(id);
+        if (!marketplace) {
+          throw new Error(`Unknown marketplace: ${id}`);
+        }
+        if (!this.demoMode && marketplace.region !== region) {
+          throw new Error(`${marketplace.name} is in the ${REGIONS[marketplace.region].name} region, but the credentials are for ${REGIONS[region].name}`);
+        }
+      });
+
+      // Dependent endpoints fetched on their own use the parent's latest stored response
+      const fanOutValues = endpoint.dependsOn && !this.demoMode
+        ? options.fanOutValues ?? await this.collectFanOutValues(endpoint, marketplaceId, profileId)
+        : undefined;
+      const response = this.demoMode
+        ? await this.fetchDemoData(endpoint, options)
+        : fanOutValues
+          ? await this.fetchFanOut(endpoint, requestParams, fanOutValues, stats, options)
+          : await this.fetchLiveData(endpoint, requestParams, stats, options);
+      response.marketplaceId = marketplaceId;
+      response.profileId = profileId;
+      response.params = requestParams;
+
+      if (!this.demoMode && !response.skipped) {
+        await this.recordAvailability(profileId, endpoint.id, { status: 'available', checkedAt: Date.now() });
+      }
+
+      response.id = await dbService.saveResponse(response);
 
-      const accessToken = await this.getAccessToken();
-      
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      const response: ApiResponse = {
-        endpointId: endpoint.id,
-        data: this.generateMockData(endpoint.id),
-        timestamp: Date.now(),
-        success: true
-      };
-      
-      await dbService.saveResponse(response);
-      
       return response;
     } catch (error) {
+      // A cancelled fetch is not a failure worth recording
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       console.error(`Error fetching from endpoint ${endpoint.id}:`, error);
       
       const errorResponse: ApiResponse = {
@@ -107,73 +484,706 @@ class AmazonService {
         data: null,
         timestamp: Date.now(),
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        marketplaceId,
+        profileId,
+        params: requestParams
       };
+
+      if (error instanceof SpApiRequestError) {
+        errorResponse.statusCode = error.status;
+        errorResponse.errors = error.errors;
+      }
+
+      if (isMissingRoleError(error) && !this.demoMode) {
+        await this.recordAvailability(profileId, endpoint.id, { status: 'unauthorized', checkedAt: Date.now(), message: error.message });
+      }
+
+      if (!this.demoMode) {
+        errorResponse.attempts = stats.attempts;
+        errorResponse.errorClass = classifyError(error);
+
+        this.updateProgress({
+          ...this.progressStatus,
+          message: `${endpoint.name} failed after ${stats.attempts} attempt${stats.attempts === 1 ? '' : 's'} (${errorResponse.errorClass} error): ${errorResponse.error}`
+        });
+      }
       
-      await dbService.saveResponse(errorResponse);
+      errorResponse.id = await dbService.saveResponse(errorResponse);
       
       return errorResponse;
     }
   }
 
-  public async fetchAllEndpoints(): Promise<Record<string, ApiResponse>> {
-    const endpoints = await import('../types/amazon-api').then(module => module.API_ENDPOINTS);
+  // Endpoint availability of a profile, as observed by probes and earlier fetches
+  public async getEndpointAvailability(profileId = profileService.getActiveProfileId()): Promise<Record<string, EndpointAvailability>> {
+    let availability = this.availability.get(profileId);
+    if (!availability) {
+      availability = (await dbService.getSetting<Record<string, EndpointAvailability>>(AVAILABILITY_SETTING_PREFIX + profileId)) ?? {};
+      this.availability.set(profileId, availability);
+    }
+    return availability;
+  }
+
+  private async recordAvailability(profileId: string, endpointId: string, entry: EndpointAvailability) {
+    const availability = await this.getEndpointAvailability(profileId);
+    availability[endpointId] = entry;
+    await dbService.saveSetting(AVAILABILITY_SETTING_PREFIX + profileId, availability);
+  }
+
+  // Last-used parameters of a profile's endpoints, keyed by endpoint id
+  public async getSavedParams(profileId = profileService.getActiveProfileId()): Promise<Record<string, Record<string, unknown>>> {
+    let saved = this.savedParams.get(profileId);
+    if (!saved) {
+      saved = (await dbService.getSetting<Record<string, Record<string, unknown>>>(PARAMS_SETTING_PREFIX + profileId)) ?? {};
+      this.savedParams.set(profileId, saved);
+    }
+    return saved;
+  }
+
+  // Stores the parameters the endpoint is fetched with from now on; null restores the defaults
+  public async saveParams(endpointId: string, params: Record<string, unknown> | null): Promise<void> {
+    const profileId = profileService.getActiveProfileId();
+    const saved = { ...await this.getSavedParams(profileId) };
+
+    if (params) {
+      saved[endpointId] = params;
+    } else {
+      delete saved[endpointId];
+    }
+
+    this.savedParams.set(profileId, saved);
+    await dbService.saveSetting(PARAMS_SETTING_PREFIX + profileId, saved);
+  }
+
+  // Parameters an endpoint is fetched with: the last-used ones, or its defaults
+  public async getParams(endpoint: ApiEndpoint): Promise<Record<string, unknown> | undefined> {
+    const saved = await this.getSavedParams();
+    return saved[endpoint.id] ?? (endpoint.requiresParams ? endpoint.defaultParams : undefined);
+  }
+
+  // Calls every read-only endpoint once, without following pages or storing data, to find out which
+  // ones the application's roles allow
+  public async probeEndpointAccess(signal?: AbortSignal): Promise<Record<string, EndpointAvailability>> {
+    if (this.demoMode) {
+      throw new Error('Endpoint access cannot be checked in demo mode');
+    }
+
+    const profileId = profileService.getActiveProfileId();
+    const marketplaceId = this.getSelectedMarketplaceId();
+
+    await runPool(endpointRegistry.getAutomaticEndpoints(), this.concurrency, async (endpoint) => {
+      const params = endpoint.requiresParams && endpoint.defaultParams
+        ? resolveDateParams(applyMarketplace(endpoint.defaultParams, marketplaceId), getParamsTimeZone(undefined, marketplaceId))
+        : {};
+
+      try {
+        const request = this.resolvePath(endpoint, params);
+        await this.sendRequestWithRetry(request.endpoint, request.params, { attempts: 0 }, { signal });
+        await this.recordAvailability(profileId, endpoint.id, { status: 'available', checkedAt: Date.now() });
+      } catch (error) {
+        if (isMissingRoleError(error)) {
+          await this.recordAvailability(profileId, endpoint.id, { status: 'unauthorized', checkedAt: Date.now(), message: error.message });
+        } else if (!isAbortError(error)) {
+          // Other failures say nothing about the roles
+          console.warn(`Access check for ${endpoint.id} was inconclusive:`, error);
+        }
+      }
+    }, signal);
+
+    return this.getEndpointAvailability(profileId);
+  }
+
+  private async fetchLiveData(
+    endpoint: ApiEndpoint,
+    params: Record<string, unknown> | undefined,
+    stats: RequestStats,
+    options: FetchOptions
+  ): Promise<ApiResponse> {
+    if (!(options.credentials ?? this.credentials)) {
+      throw new Error('Credentials not set');
+    }
+
+    const request = this.resolvePath(endpoint, params ?? {});
+    const pagination = endpoint.pagination;
+    const maxPages = pagination?.maxPages ?? this.pageLimit;
+    let pageParams = request.params;
+    let page = 1;
+    let data: unknown;
+    let statusCode: number;
+    let nextToken: unknown;
+    let pii: PiiStatus | undefined;
+
+    for (;;) {
+      if (pagination) {
+        this.reportPage(endpoint, page);
+      }
+
+      const { status, body, pii: pagePii } = await this.sendRequestWithRetry(request.endpoint, pageParams, stats, options);
+      const pageData = endpoint.responseRoot
+        ? getPath(body, endpoint.responseRoot)
+        : body && 'payload' in body ? body.payload : body;
+
+      data = page === 1 ? pageData : this.mergePageData(data, pageData, pagination.itemsPath);
+      statusCode = status;
+      pii = pagePii;
+      nextToken = pagination ? getPath(body, pagination.tokenPath) : undefined;
+
+      if (!nextToken || page >= maxPages) {
+        break;
+      }
+
+      pageParams = pagination.tokenOnly
+        ? { [pagination.requestParam]: nextToken }
+        : { ...request.params, ...pagination.nextPageParams, [pagination.requestParam]: nextToken };
+      page++;
+    }
+
+    return {
+      endpointId: endpoint.id,
+      data,
+      timestamp: Date.now(),
+      success: true,
+      statusCode,
+      attempts: stats.attempts,
+      pii,
+      ...(pagination ? { pageCount: page, truncated: !!nextToken } : {})
+    };
+  }
+
+  // Fetches a dependent endpoint once per parent id, or per batch of ids where the parameter takes a list.
+  // Failed requests are kept in the result; the fetch only fails when every request did
+  private async fetchFanOut(
+    endpoint: ApiEndpoint,
+    params: Record<string, unknown> | undefined,
+    { values, params: valueParams }: FanOutValues,
+    stats: RequestStats,
+    options: FetchOptions
+  ): Promise<ApiResponse> {
+    const { endpointId, param, batchSize, maxRequests = MAX_FAN_OUT_REQUESTS } = endpoint.dependsOn!;
+    const batches: string[][] = [];
+    for (let start = 0; start < values.length && batches.length < maxRequests; start += batchSize ?? 1) {
+      batches.push(values.slice(start, start + (batchSize ?? 1)));
+    }
+
+    // Without ids there is nothing to request, which says nothing about the data or the access
+    if (batches.length === 0) {
+      return {
+        endpointId: endpoint.id,
+        data: null,
+        timestamp: Date.now(),
+        success: false,
+        skipped: true,
+        error: `No ${param} values in the ${endpointRegistry.getEndpoint(endpointId)?.name ?? endpointId} data`
+      };
+    }
+
+    const results: FanOutResult[] = [];
+    let firstError: unknown;
+    let pii: PiiStatus | undefined;
+
+    for (const [index, batch] of batches.entries()) {
+      this.updateProgress({
+        ...this.progressStatus,
+        message: `Fetching data from ${endpoint.name} (request ${index + 1} of ${batches.length})...`
+      });
+
+      try {
+        const batchParams = batchSize ? { [param]: batch } : { ...valueParams[batch[0]], [param]: batch[0] };
+        const response = await this.fetchLiveData(endpoint, { ...params, ...batchParams }, stats, options);
+        results.push({ values: batch, data: response.data });
+        pii ??= response.pii;
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        results.push({ values: batch, error: error instanceof Error ? error.message : 'Unknown error' });
+        firstError ??= error;
+      }
+    }
+
+    if (firstError && results.every(result => result.error)) {
+      throw firstError;
+    }
+
+    return {
+      endpointId: endpoint.id,
+      data: results,
+      timestamp: Date.now(),
+      success: true,
+      attempts: stats.attempts,
+      pii,
+      fanOutCount: batches.length,
+      truncated: batches.length * (batchSize ?? 1) < values.length
+    };
+  }
+
+  // Calls a single operation outside of the endpoint fetches, e.g. a step of a report request.
+  // The result is returned rather than stored; errors are thrown
+  public async callEndpoint<T>(endpoint: ApiEndpoint, params: Record<string, unknown> = {}, options: FetchOptions = {}): Promise<T> {
+    if (!this.credentials) {
+      throw new Error('Credentials not set');
+    }
+
+    const request = this.resolvePath(endpoint, params);
+    const { body } = await this.sendRequestWithRetry(request.endpoint, request.params, { attempts: 0 }, options);
+    return (body && 'payload' in body ? body.payload : body) as T;
+  }
+
+  // Downloads a report or feed document through the proxy; presigned document URLs don't allow the browser's origin
+  public async downloadDocument(url: string, signal?: AbortSignal): Promise<{ bytes: ArrayBuffer; contentType: string }> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.proxyUrl}/document`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url }),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ProxyConnectionError(this.proxyUrl);
+    }
+
+    if (!response.ok) {
+      const body: SpApiEnvelope | null = await response.json().catch(() => null);
+      throw new SpApiRequestError(response.status, body?.errors ?? [], parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    return { bytes: await response.arrayBuffer(), contentType: response.headers.get('content-type') ?? '' };
+  }
+
+  // Uploads the contents of a feed document through the proxy, to the URL createFeedDocument returned
+  public async uploadDocument(url: string, contentType: string, content: string, signal?: AbortSignal): Promise<void> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.proxyUrl}/document/upload`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, contentType, content }),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ProxyConnectionError(this.proxyUrl);
+    }
+
+    if (!response.ok) {
+      const body: SpApiEnvelope | null = await response.json().catch(() => null);
+      throw new SpApiRequestError(response.status, body?.errors ?? [], parseRetryAfter(response.headers.get('Retry-After')));
+    }
+  }
+
+  // Fills path placeholders such as {orderId} from the params, which are then no longer sent as query params,
+  // and builds the request body of endpoints whose body depends on the params
+  private resolvePath(endpoint: ApiEndpoint, params: Record<string, unknown>): { endpoint: ApiEndpoint; params: Record<string, unknown> } {
+    const built = endpoint.buildRequestBody?.(params);
+    const { path, params: queryParams } = fillPathTemplate(endpoint.endpoint, built?.params ?? params);
+    if (path === endpoint.endpoint && !built) {
+      return { endpoint, params: queryParams };
+    }
+    return { endpoint: { ...endpoint, endpoint: path, requestBody: built?.body ?? endpoint.requestBody }, params: queryParams };
+  }
+
+  private sendRequestWithRetry(endpoint: ApiEndpoint, params: Record<string, unknown>, stats: RequestStats, options: FetchOptions) {
+    const policy = resolveRetryPolicy(endpoint.retryPolicy);
+
+    return withRetry(
+      () => {
+        stats.attempts++;
+        return this.sendRequest(endpoint, params, options);
+      },
+      policy,
+      {
+        signal: options.signal,
+        onRetry: ({ attempt, maxAttempts, delayMs, error }) => {
+          const reason = error instanceof SpApiRequestError ? `HTTP ${error.status}` : (error as Error).message;
+          this.updateProgress({
+            ...this.progressStatus,
+            message: `${endpoint.name}: ${reason} (transient), retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${maxAttempts})...`
+          });
+        }
+      }
+    );
+  }
+
+  private async sendRequest(
+    endpoint: ApiEndpoint,
+    params: Record<string, unknown>,
+    { signal, profileId = profileService.getActiveProfileId(), credentials = this.credentials }: FetchOptions
+  ): Promise<{ status: number; body: SpApiEnvelope | null; pii?: PiiStatus }> {
+    let accessToken = await this.getAccessToken(credentials);
+    let pii: PiiStatus | undefined;
+
+    if (endpoint.restrictedData) {
+      const restrictedDataToken = await this.getRestrictedDataToken(endpoint, accessToken, profileId, credentials, signal);
+      pii = restrictedDataToken ? 'requested' : 'redacted';
+      accessToken = restrictedDataToken ?? accessToken;
+    }
+
+    const region = credentials.region ?? DEFAULT_REGION;
+    const result = await this.callOperation(endpoint, profileId, { params, body: endpoint.requestBody, accessToken, region, signal });
+    return { ...result, pii };
+  }
+
+  // Sends one request through the proxy, honouring the operation's rate limit
+  private async callOperation(endpoint: ApiEndpoint, profileId: string, request: ProxyRequest): Promise<{ status: number; body: SpApiEnvelope | null }> {
+    // Usage plans apply per selling partner, so every profile has its own buckets
+    const rateLimitKey = `${profileId}:${endpoint.rateLimitKey ?? endpoint.id}`;
+
+    await rateLimiter.acquire(rateLimitKey, endpoint.rateLimit, {
+      signal: request.signal,
+      onWait: waitMs => {
+        if (waitMs < 1000) return;
+        this.updateProgress({
+          ...this.progressStatus,
+          message: `Waiting ${Math.ceil(waitMs / 1000)}s for the ${endpoint.name} rate limit...`
+        });
+      }
+    });
+
+    const response = await this.postToProxy(endpoint, request);
+
+    rateLimiter.updateFromHeader(rateLimitKey, response.headers.get('x-amzn-RateLimit-Limit'));
+    if (response.status === 429) {
+      rateLimiter.reportThrottled(rateLimitKey);
+    }
+
+    const body: SpApiEnvelope | null = await response.json().catch(() => null);
+
+    if (!response.ok || (body?.errors && body.errors.length > 0)) {
+      throw new SpApiRequestError(response.status, body?.errors ?? [], parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    return { status: response.status, body };
+  }
+
+  private async postToProxy(endpoint: ApiEndpoint, { params, body, accessToken, region, signal }: ProxyRequest): Promise<Response> {
+    try {
+      return await fetch(`${this.proxyUrl}/request`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          endpoint: endpoint.endpoint,
+          method: endpoint.method ?? 'GET',
+          params: params ?? {},
+          body,
+          region,
+          headers: { 'x-amz-access-token': accessToken }
+        }),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ProxyConnectionError(this.proxyUrl);
+    }
+  }
+
+  // Appends the list found at itemsPath in the next page to the data collected so far.
+  // Object-valued lists (e.g. FinancialEvents) are merged key by key.
+  private mergePageData(current: unknown, next: unknown, itemsPath: string): unknown {
+    const existing = getPath(current, itemsPath);
+    const incoming = getPath(next, itemsPath);
+
+    let merged: unknown = incoming;
+    if (Array.isArray(existing) && Array.isArray(incoming)) {
+      merged = [...existing, ...incoming];
+    } else if (existing && incoming && typeof existing === 'object' && typeof incoming === 'object') {
+      const combined: Record<string, unknown> = { ...(existing as Record<string, unknown>) };
+      Object.entries(incoming as Record<string, unknown>).forEach(([key, value]) => {
+        const previous = combined[key];
+        combined[key] = Array.isArray(previous) && Array.isArray(value) ? [...previous, ...value] : value;
+      });
+      merged = combined;
+    }
+
+    const result = { ...(current as Record<string, unknown>) };
+    setPath(result, itemsPath, merged);
+    return result;
+  }
+
+  private reportPage(endpoint: ApiEndpoint, page: number) {
+    this.updateProgress({
+      ...this.progressStatus,
+      page,
+      message: page === 1
+        ? `Fetching data from ${endpoint.name}...`
+        : `Fetching data from ${endpoint.name} (page ${page})...`
+    });
+  }
+
+  private async fetchDemoData(endpoint: ApiEndpoint, { signal }: FetchOptions): Promise<ApiResponse> {
+    await sleep(1500, signal);
+
+    return {
+      endpointId: endpoint.id,
+      data: this.generateMockData(endpoint.id),
+      timestamp: Date.now(),
+      success: true,
+      demo: true
+    };
+  }
+
+  public async fetchAllEndpoints({ signal, resume = false, marketplaceIds }: FetchAllOptions = {}): Promise<Record<string, ApiResponse>> {
+    if (this.runController) {
+      throw new Error('A fetch run is already in progress');
+    }
+
+    // The run outlives the page that started it, so it's cancelled through cancelFetchAll or the caller's signal
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    this.runController = controller;
+    this.notifyProgressListeners();
+
+    const release = credentialVault.hold();
+    try {
+      return await this.runFetchAll(controller.signal, resume, marketplaceIds);
+    } finally {
+      release();
+      this.runController = null;
+      if (this.progressStatus.status === 'running') {
+        this.updateProgress({ ...this.progressStatus, currentEndpoint: '', inFlight: [], status: 'error', message: 'Data extraction failed' });
+      } else {
+        this.notifyProgressListeners();
+      }
+    }
+  }
+
+  public isFetchRunning(): boolean {
+    return !!this.runController;
+  }
+
+  public cancelFetchAll() {
+    this.runController?.abort();
+  }
+
+  // One job per endpoint and marketplace; endpoints without marketplace parameters run once
+  private buildJobs(endpoints: ApiEndpoint[], marketplaceIds: string[], savedParams: Record<string, Record<string, unknown>>): FetchJob[] {
+    return endpoints.flatMap(endpoint =>
+      isMarketplaceScoped(savedParams[endpoint.id] ?? endpoint.defaultParams)
+        ? marketplaceIds.map(marketplaceId => ({ key: `${endpoint.id}@${marketplaceId}`, endpoint, marketplaceId }))
+        : [{ key: endpoint.id, endpoint }]
+    );
+  }
+
+  // Ids a dependent endpoint fans out over: taken from the parent's responses of the current run for the
+  // same marketplace, or from the parent's latest stored response when there are none
+  private async collectFanOutValues(
+    endpoint: ApiEndpoint,
+    marketplaceId: string | undefined,
+    profileId: string,
+    results: Record<string, ApiResponse> = {}
+  ): Promise<FanOutValues> {
+    const { endpointId, valuesPath, valueParams } = endpoint.dependsOn!;
+    let parents = Object.values(results).filter(response =>
+      response.endpointId === endpointId
+      && (!marketplaceId || !response.marketplaceId || response.marketplaceId === marketplaceId));
+
+    if (parents.length === 0) {
+      const latest = (await dbService.getLatestResponses(profileId, marketplaceId))[endpointId];
+      parents = latest ? [latest] : [];
+    }
+
+    const parentData = parents.filter(response => response.success).map(response => response.data);
+    const values = parentData.flatMap(data => collectPath(data, valuesPath)).map(String);
+
+    // Further params are read from the objects holding the ids, e.g. each listing for its SKU
+    const params: Record<string, Record<string, unknown>> = {};
+    if (valueParams) {
+      const separator = valuesPath.lastIndexOf('.');
+      const key = valuesPath.slice(separator + 1);
+      const holders = parentData.flatMap(data => (separator < 0 ? [data].flat() : collectPath(data, valuesPath.slice(0, separator))));
+
+      holders.forEach(holder => {
+        const value = holder && typeof holder === 'object' ? (holder as Record<string, unknown>)[key] : undefined;
+        if (value === undefined || value === null || String(value) in params) return;
+
+        params[String(value)] = Object.fromEntries(Object.entries(valueParams)
+          .map(([name, path]) => [name, collectPath(holder, path)[0]])
+          .filter(([, paramValue]) => paramValue !== undefined));
+      });
+    }
+
+    return { values: [...new Set(values)], params };
+  }
+
+  private async runFetchAll(
+    signal: AbortSignal | undefined,
+    resume: boolean,
+    marketplaceIds: string[] | undefined
+  ): Promise<Record<string, ApiResponse>> {
+    const endpoints = endpointRegistry.getAutomaticEndpoints();
+    const profile = profileService.getActiveProfile();
+    const profileId = profileService.getActiveProfileId();
+    // Jobs keep using the profile and credentials the run started with
+    const credentials = this.credentials;
+    const previousRun = resume ? await this.getInterruptedRun() : undefined;
+    const requestedMarketplaces = marketplaceIds && marketplaceIds.length > 0 ? marketplaceIds : profile?.marketplaceIds;
+    const targetMarketplaces = previousRun?.marketplaceIds
+      ?? (requestedMarketplaces && requestedMarketplaces.length > 0 ? requestedMarketplaces : [this.getSelectedMarketplaceId()]);
+    // Endpoints the application has no role for would only fail again
+    const availability = this.demoMode ? {} : await this.getEndpointAvailability(profileId);
+    const runEndpoints = previousRun
+      ? endpoints.filter(endpoint => previousRun.endpointIds.includes(endpoint.id))
+      : endpoints.filter(endpoint => availability[endpoint.id]?.status !== 'unauthorized');
+    const savedParams = await this.getSavedParams(profileId);
+    const jobs = this.buildJobs(runEndpoints, targetMarketplaces, savedParams);
+    // Dependent endpoints wait for the stage holding their parent, whose responses provide their ids
+    const stages = endpointRegistry.getDependencyStages(runEndpoints);
+
+    const run: FetchRun = previousRun
+      ? { ...previousRun, status: 'running', updatedAt: Date.now(), totalJobs: jobs.length }
+      : {
+          id: `run-${Date.now()}`,
+          startedAt: Date.now(),
+          updatedAt: Date.now(),
+          status: 'running',
+          profileId,
+          endpointIds: runEndpoints.map(endpoint => endpoint.id),
+          marketplaceIds: targetMarketplaces,
+          totalJobs: jobs.length,
+          completedJobs: [],
+          responseIds: {}
+        };
+    await dbService.saveFetchRun(run);
+
+    const pending = jobs.filter(job => !run.completedJobs.includes(job.key));
+    const total = jobs.length;
+    let completed = total - pending.length;
+
+    // Responses of jobs finished before the interruption
+    const results: Record<string, ApiResponse> = {};
+    for (const [key, responseId] of Object.entries(run.responseIds)) {
+      const response = await dbService.getResponse(responseId);
+      if (response) {
+        results[key] = response;
+      }
+    }
     
     this.updateProgress({
       currentEndpoint: '',
-      progress: 0,
-      total: endpoints.length,
+      progress: completed,
+      total,
       status: 'running',
-      message: 'Starting data extraction...'
+      message: previousRun ? `Resuming data extraction (${completed} of ${total} already done)...` : 'Starting data extraction...'
     });
 
-    const results: Record<string, ApiResponse> = {};
-    
-    for (let i = 0; i < endpoints.length; i++) {
-      const endpoint = endpoints[i];
-      
+    const inFlight: FetchJob[] = [];
+    const describeJob = (job: FetchJob) => {
+      const marketplace = job.marketplaceId ? getMarketplace(job.marketplaceId) : undefined;
+      return marketplace && targetMarketplaces.length > 1 ? `${job.endpoint.name} (${marketplace.countryCode})` : job.endpoint.name;
+    };
+    const reportInFlight = (message: string) => {
       this.updateProgress({
-        currentEndpoint: endpoint.name,
-        progress: i,
-        total: endpoints.length,
+        currentEndpoint: inFlight.map(describeJob).join(', '),
+        inFlight: inFlight.map(describeJob),
+        progress: completed,
+        total,
         status: 'running',
-        message: `Fetching data from ${endpoint.name}...`
+        message
       });
+    };
+
+    const runJob = async (job: FetchJob) => {
+      const { endpoint, marketplaceId } = job;
+      const name = describeJob(job);
+
+      inFlight.push(job);
+      reportInFlight(`Fetching data from ${name}...`);
       
       try {
-        const params = endpoint.requiresParams ? endpoint.defaultParams : undefined;
-        const response = await this.fetchFromEndpoint(endpoint, params);
-        results[endpoint.id] = response;
+        const params = savedParams[endpoint.id] ?? (endpoint.requiresParams ? endpoint.defaultParams : undefined);
+        const fanOutValues = endpoint.dependsOn && !this.demoMode
+          ? await this.collectFanOutValues(endpoint, marketplaceId, profileId, results)
+          : undefined;
+        const response = await this.fetchFromEndpoint(endpoint, params, { signal, marketplaceId, fanOutValues, profileId, credentials });
+        results[job.key] = response;
+
+        // Transient failures are retried when the run is resumed
+        if (response.success || response.errorClass !== 'transient') {
+          run.completedJobs.push(job.key);
+          run.responseIds[job.key] = response.id!;
+        }
+        run.updatedAt = Date.now();
+        await dbService.saveFetchRun(run);
         
         if (response.success) {
-          toast.success(`Successfully fetched data from ${endpoint.name}`);
+          toast.success(`Successfully fetched data from ${name}`);
+        } else if (response.skipped) {
+          toast.info(`Skipped ${name}`, { description: response.error });
         } else {
-          toast.error(`Failed to fetch data from ${endpoint.name}`);
+          toast.error(`Failed to fetch data from ${name}`, {
+            description: response.errorClass === 'transient'
+              ? 'Temporary failure, retrying later may succeed'
+              : response.error
+          });
         }
       } catch (error) {
-        console.error(`Failed to fetch from ${endpoint.id}:`, error);
-        results[endpoint.id] = {
+        if (isAbortError(error)) return;
+
+        console.error(`Failed to fetch from ${job.key}:`, error);
+        results[job.key] = {
           endpointId: endpoint.id,
           data: null,
           timestamp: Date.now(),
           success: false,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          error: error instanceof Error ? error.message : 'Unknown error',
+          marketplaceId
         };
         
-        toast.error(`Error: Failed to fetch from ${endpoint.name}`);
+        toast.error(`Error: Failed to fetch from ${name}`);
+      } finally {
+        inFlight.splice(inFlight.indexOf(job), 1);
       }
+
+      completed++;
+      reportInFlight(`Finished ${name}`);
+    };
+
+    for (const stage of stages) {
+      const stageIds = new Set(stage.map(endpoint => endpoint.id));
+      await runPool(pending.filter(job => stageIds.has(job.endpoint.id)), this.concurrency, runJob, signal);
+      if (signal?.aborted) break;
+    }
+
+    if (signal?.aborted) {
+      run.status = 'cancelled';
+      run.updatedAt = Date.now();
+      await dbService.saveFetchRun(run);
+
+      this.updateProgress({
+        currentEndpoint: '',
+        progress: run.completedJobs.length,
+        total,
+        status: 'cancelled',
+        message: `Cancelled after ${run.completedJobs.length} of ${total} requests. You can resume this run later.`
+      });
+
+      return results;
+    }
+
+    // Jobs that failed transiently stay open, so the run is kept for resuming them
+    const remaining = total - run.completedJobs.length;
+    if (remaining > 0) {
+      run.status = 'incomplete';
+      run.updatedAt = Date.now();
+      await dbService.saveFetchRun(run);
+    } else {
+      await dbService.clearFetchRun();
     }
     
     this.updateProgress({
       currentEndpoint: '',
-      progress: endpoints.length,
-      total: endpoints.length,
+      progress: total,
+      total,
       status: 'completed',
-      message: 'All data has been extracted'
+      message: remaining > 0
+        ? `${remaining} of ${total} requests failed temporarily. Resume the run to retry them.`
+        : 'All data has been extracted'
     });
     
     try {
-      await dbService.createHistoricalSnapshot();
+      await dbService.createHistoricalSnapshot(profileId);
       toast.success('Historical data snapshot created');
     } catch (error) {
       console.error('Failed to create historical snapshot:', error);
@@ -182,33 +1192,63 @@ class AmazonService {
     return results;
   }
 
-  private generateMockData(endpointId: string): any {
+  // A run of the active profile that was cancelled, cut short by closing the tab or left with transient
+  // failures, and can be resumed
+  public async getInterruptedRun(): Promise<FetchRun | null> {
+    if (this.runController) return null;
+
+    const run = await dbService.getFetchRun();
+    return run && run.profileId === profileService.getActiveProfileId() ? run : null;
+  }
+
+  public async discardInterruptedRun(): Promise<void> {
+    await dbService.clearFetchRun();
+  }
+
+  private generateMockData(endpointId: string): unknown {
     switch (endpointId) {
       case 'listings-items':
         return {
+          numberOfResults: 15,
           items: Array.from({ length: 15 }, (_, i) => ({
             sku: `SKU${100000 + i}`,
-            asin: `B0${100000 + i}`,
-            title: `Product ${i + 1}`,
-            price: (Math.random() * 100 + 10).toFixed(2),
-            condition: 'New',
-            quantity: Math.floor(Math.random() * 100)
+            summaries: [{
+              marketplaceId: 'ATVPDKIKX0DER',
+              asin: `B0${100000 + i}`,
+              productType: 'PRODUCT',
+              conditionType: 'new_new',
+              status: ['BUYABLE', 'DISCOVERABLE'],
+              itemName: `Product ${i + 1}`,
+              createdDate: new Date(Date.now() - Math.random() * 365 * 86400000).toISOString(),
+              lastUpdatedDate: new Date(Date.now() - Math.random() * 30 * 86400000).toISOString()
+            }],
+            offers: [{
+              marketplaceId: 'ATVPDKIKX0DER',
+              offerType: 'B2C',
+              price: { currencyCode: 'USD', amount: (Math.random() * 100 + 10).toFixed(2) }
+            }],
+            fulfillmentAvailability: [{
+              fulfillmentChannelCode: 'DEFAULT',
+              quantity: Math.floor(Math.random() * 100)
+            }]
           }))
-        };
+        } satisfies SpApiOperationData['listingsItems']['searchListingsItems'];
         
       case 'orders':
         return {
-          orders: Array.from({ length: 10 }, (_, i) => ({
-            orderId: `ORDER-${100000 + i}`,
-            purchaseDate: new Date(Date.now() - Math.random() * 30 * 86400000).toISOString(),
-            orderStatus: ['Shipped', 'Delivered', 'Processing'][Math.floor(Math.random() * 3)],
-            orderTotal: {
-              currencyCode: 'USD',
-              amount: (Math.random() * 500 + 20).toFixed(2)
+          Orders: Array.from({ length: 10 }, (_, i) => ({
+            AmazonOrderId: `111-${String(1000000 + i)}-${String(2000000 + i)}`,
+            PurchaseDate: new Date(Date.now() - Math.random() * 30 * 86400000).toISOString(),
+            LastUpdateDate: new Date(Date.now() - Math.random() * 86400000).toISOString(),
+            OrderStatus: (['Shipped', 'Unshipped', 'Pending'] as const)[Math.floor(Math.random() * 3)],
+            FulfillmentChannel: (['AFN', 'MFN'] as const)[Math.floor(Math.random() * 2)],
+            OrderTotal: {
+              CurrencyCode: 'USD',
+              Amount: (Math.random() * 500 + 20).toFixed(2)
             },
-            shipmentStatus: ['Shipped', 'Pending', 'Delivered'][Math.floor(Math.random() * 3)]
+            MarketplaceId: 'ATVPDKIKX0DER'
           }))
-        };
+        } satisfies SpApiOperationData['ordersV0']['getOrders'];
         
       case 'finances':
         return {
@@ -231,14 +1271,15 @@ class AmazonService {
         
       case 'inventory':
         return {
-          inventories: Array.from({ length: 12 }, (_, i) => ({
-            sku: `SKU${100000 + i}`,
+          granularity: { granularityType: 'Marketplace', granularityId: 'ATVPDKIKX0DER' },
+          inventorySummaries: Array.from({ length: 12 }, (_, i) => ({
+            sellerSku: `SKU${100000 + i}`,
             fnSku: `FN${100000 + i}`,
             asin: `B0${100000 + i}`,
             condition: 'New',
             totalQuantity: Math.floor(Math.random() * 100)
           }))
-        };
+        } satisfies SpApiOperationData['fbaInventory']['getInventorySummaries'];
         
       case 'catalog-items':
         return {
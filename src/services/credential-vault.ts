@@ -0,0 +1,212 @@
+
+import { AmazonCredentials, EncryptedCredentials, StoredCredentials } from '../types/amazon-api';
+import dbService from './db-service';
+import { decryptJson, deriveKey, encryptJson, fromBase64, randomBytes, toBase64 } from '../utils/crypto';
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+export const AUTO_LOCK_MS = 15 * 60 * 1000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// empty: nothing stored, plaintext: stored before encryption existed and needs a passphrase,
+// locked: encrypted and waiting for the passphrase, unlocked: decrypted credentials are in memory
+export type VaultState = 'empty' | 'plaintext' | 'locked' | 'unlocked';
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Credentials are locked. Unlock them with your passphrase first.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class InvalidPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is incorrect');
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+export function isEncrypted(record: StoredCredentials): record is EncryptedCredentials {
+  return 'ciphertext' in record;
+}
+
+type VaultListener = () => void;
+
+// Keeps every profile's credentials encrypted at rest. One passphrase protects all profiles;
+// the derived key is held only while unlocked.
+class CredentialVault {
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+  private iterations = PBKDF2_ITERATIONS;
+  private credentials: Record<string, AmazonCredentials> = {};
+  private listeners: VaultListener[] = [];
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private holds = 0; // Background work that needs the credentials, such as a fetch run or report polling
+
+  public async getState(): Promise<VaultState> {
+    if (this.key) return 'unlocked';
+
+    const records = Object.values(await dbService.getAllCredentials());
+    if (records.length === 0) return 'empty';
+    return records.some(record => !isEncrypted(record)) ? 'plaintext' : 'locked';
+  }
+
+  public isUnlocked(): boolean {
+    return !!this.key;
+  }
+
+  // Decrypts the stored credentials and encrypts any plaintext records with the passphrase
+  public async unlock(passphrase: string): Promise<void> {
+    const records = await dbService.getAllCredentials();
+    const entries = Object.entries(records);
+    const encrypted = entries.filter((entry): entry is [string, EncryptedCredentials] => isEncrypted(entry[1]));
+    const credentials: Record<string, AmazonCredentials> = {};
+
+    if (encrypted.length > 0) {
+      // Records share a salt unless they were encrypted with an earlier passphrase
+      const keys = new Map<string, CryptoKey>();
+      for (const [profileId, record] of encrypted) {
+        let key = keys.get(record.salt);
+        if (!key) {
+          key = await deriveKey(passphrase, fromBase64(record.salt), record.iterations);
+          keys.set(record.salt, key);
+        }
+
+        try {
+          credentials[profileId] = await decryptJson<AmazonCredentials>(key, record.iv, record.ciphertext);
+        } catch {
+          throw new InvalidPassphraseError();
+        }
+      }
+
+      const [, first] = encrypted[0];
+      this.salt = fromBase64(first.salt);
+      this.iterations = first.iterations;
+      this.key = keys.get(first.salt)!;
+    } else {
+      this.salt = randomBytes(SALT_LENGTH);
+      this.iterations = PBKDF2_ITERATIONS;
+      this.key = await deriveKey(passphrase, this.salt, this.iterations);
+    }
+
+    for (const [profileId, record] of entries) {
+      if (!isEncrypted(record)) {
+        await this.writeRecord(profileId, record);
+        credentials[profileId] = record;
+      }
+    }
+
+    this.credentials = credentials;
+    this.touch();
+    this.notifyListeners();
+  }
+
+  // Encrypts and stores a profile's credentials. A passphrase sets up the key when nothing is stored yet;
+  // otherwise the vault must be unlocked.
+  public async save(profileId: string, credentials: AmazonCredentials, passphrase?: string): Promise<void> {
+    if (!this.key && passphrase && (await this.getState()) === 'empty') {
+      this.salt = randomBytes(SALT_LENGTH);
+      this.iterations = PBKDF2_ITERATIONS;
+      this.key = await deriveKey(passphrase, this.salt, this.iterations);
+    }
+
+    if (!this.key) {
+      throw new VaultLockedError();
+    }
+
+    await this.writeRecord(profileId, credentials);
+    this.credentials = { ...this.credentials, [profileId]: credentials };
+    this.touch();
+    this.notifyListeners();
+  }
+
+  public async remove(profileId: string): Promise<void> {
+    await dbService.deleteCredentials(profileId);
+
+    const remaining = { ...this.credentials };
+    delete remaining[profileId];
+    this.credentials = remaining;
+    this.notifyListeners();
+  }
+
+  public lock() {
+    if (!this.key) return;
+
+    this.forget();
+  }
+
+  // For a forgotten passphrase: the stored credentials can't be recovered, only replaced
+  public async reset(): Promise<void> {
+    await dbService.clearCredentials();
+    this.forget();
+  }
+
+  // Restarts the inactivity countdown; called on user activity
+  public touch() {
+    if (!this.key) return;
+
+    this.clearLockTimer();
+    this.lockTimer = setTimeout(() => {
+      this.lockTimer = null;
+      // Work running without user activity would fail halfway; the countdown restarts once it ends
+      if (this.holds === 0) this.lock();
+    }, AUTO_LOCK_MS);
+  }
+
+  // Keeps the vault from locking for inactivity until the returned function is called
+  public hold(): () => void {
+    this.holds++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.holds--;
+      if (this.holds === 0 && !this.lockTimer) this.touch();
+    };
+  }
+
+  public getCredentials(profileId: string): AmazonCredentials | null {
+    return this.credentials[profileId] ?? null;
+  }
+
+  public onChange(listener: VaultListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(entry => entry !== listener);
+    };
+  }
+
+  private async writeRecord(profileId: string, credentials: AmazonCredentials) {
+    const { iv, ciphertext } = await encryptJson(this.key!, credentials);
+    await dbService.saveCredentials(profileId, {
+      version: 1,
+      salt: toBase64(this.salt!),
+      iterations: this.iterations,
+      iv,
+      ciphertext
+    });
+  }
+
+  private forget() {
+    this.key = null;
+    this.salt = null;
+    this.credentials = {};
+    this.clearLockTimer();
+    this.notifyListeners();
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private clearLockTimer() {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+  }
+}
+
+const credentialVault = new CredentialVault();
+export default credentialVault;
@@ -1,11 +1,11 @@
 
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { AmazonCredentials, ApiResponse, DatabaseStats, HistoricalSnapshot } from '../types/amazon-api';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { ApiEndpoint, ApiResponse, DEFAULT_PROFILE_ID, DatabaseStats, FeedSubmission, FetchRun, HistoricalSnapshot, LocalReportSchedule, ReportDocumentContent, ReportRequest, SellerProfile, StoredCredentials } from '../types/amazon-api';
 
 interface AmazonDB extends DBSchema {
   credentials: {
-    key: 'amazon-credentials';
-    value: AmazonCredentials;
+    key: string; // Profile id
+    value: StoredCredentials;
   };
   responses: {
     key: string;
@@ -21,12 +21,73 @@ interface AmazonDB extends DBSchema {
     key: 'last-login';
     value: number;
   };
+  settings: {
+    key: string;
+    value: unknown;
+  };
+  fetchRun: {
+    key: 'current-run';
+    value: FetchRun;
+  };
+  profiles: {
+    key: string;
+    value: SellerProfile;
+  };
+  customEndpoints: {
+    key: string;
+    value: ApiEndpoint;
+  };
+  reports: {
+    key: string; // Report id
+    value: ReportRequest;
+  };
+  reportDocuments: {
+    key: string; // Report id
+    value: ReportDocumentContent;
+  };
+  reportSchedules: {
+    key: string; // Schedule id
+    value: LocalReportSchedule;
+  };
+  feeds: {
+    key: string; // Feed id
+    value: FeedSubmission;
+  };
+}
+
+type UpgradeTransaction = IDBPTransaction<AmazonDB, ArrayLike<StoreNames<AmazonDB>>, 'versionchange'>;
+
+// Before version 5 there was a single account: its credentials move to the default profile
+// and existing responses, snapshots and the interrupted run are tagged with it
+async function migrateToProfiles(transaction: UpgradeTransaction) {
+  const credentialStore = transaction.objectStore('credentials');
+  const legacyCredentials = await credentialStore.get('amazon-credentials');
+  if (legacyCredentials) {
+    await credentialStore.put(legacyCredentials, DEFAULT_PROFILE_ID);
+    await credentialStore.delete('amazon-credentials');
+  }
+
+  for (const storeName of ['responses', 'historical'] as const) {
+    let cursor = await transaction.objectStore(storeName).openCursor();
+    while (cursor) {
+      if (!cursor.value.profileId) {
+        await cursor.update({ ...cursor.value, profileId: DEFAULT_PROFILE_ID });
+      }
+      cursor = await cursor.continue();
+    }
+  }
+
+  const runStore = transaction.objectStore('fetchRun');
+  const run = await runStore.get('current-run');
+  if (run && !run.profileId) {
+    await runStore.put({ ...run, profileId: DEFAULT_PROFILE_ID }, 'current-run');
+  }
 }
 
 class DatabaseService {
   private dbPromise: Promise<IDBPDatabase<AmazonDB>>;
   private DB_NAME = 'amazon-sp-api';
-  private DB_VERSION = 2; // Increment DB version to trigger upgrade
+  private DB_VERSION = 9; // Increment DB version to trigger upgrade
 
   constructor() {
     this.dbPromise = this.initDatabase();
@@ -34,7 +95,7 @@ class DatabaseService {
 
   private async initDatabase(): Promise<IDBPDatabase<AmazonDB>> {
     return openDB<AmazonDB>(this.DB_NAME, this.DB_VERSION, {
-      upgrade(db, oldVersion, newVersion) {
+      upgrade(db, oldVersion, newVersion, transaction) {
         // Create a store for the Amazon SP-API credentials
         if (!db.objectStoreNames.contains('credentials')) {
           db.createObjectStore('credentials');
@@ -63,23 +124,230 @@ class DatabaseService {
         if (!db.objectStoreNames.contains('lastLogin')) {
           db.createObjectStore('lastLogin');
         }
+
+        // Create a store for app settings such as demo mode
+        if (!db.objectStoreNames.contains('settings')) {
+          db.createObjectStore('settings');
+        }
+
+        // Create a store for the state of the current "Fetch All Data" run
+        if (!db.objectStoreNames.contains('fetchRun')) {
+          db.createObjectStore('fetchRun');
+        }
+
+        // Create a store for the seller account profiles
+        if (!db.objectStoreNames.contains('profiles')) {
+          db.createObjectStore('profiles', { keyPath: 'id' });
+        }
+
+        // Create a store for the endpoints defined by the user
+        if (!db.objectStoreNames.contains('customEndpoints')) {
+          db.createObjectStore('customEndpoints', { keyPath: 'id' });
+        }
+
+        // Create stores for requested reports and their downloaded documents
+        if (!db.objectStoreNames.contains('reports')) {
+          db.createObjectStore('reports', { keyPath: 'reportId' });
+        }
+        if (!db.objectStoreNames.contains('reportDocuments')) {
+          db.createObjectStore('reportDocuments', { keyPath: 'reportId' });
+        }
+
+        // Create a store for reports requested repeatedly by the app
+        if (!db.objectStoreNames.contains('reportSchedules')) {
+          db.createObjectStore('reportSchedules', { keyPath: 'id' });
+        }
+
+        // Create a store for submitted feeds
+        if (!db.objectStoreNames.contains('feeds')) {
+          db.createObjectStore('feeds', { keyPath: 'feedId' });
+        }
+
+        // openDB doesn't wait for the upgrade; aborting it on failure makes opening the database fail,
+        // and the migration runs again the next time it's opened
+        if (oldVersion > 0 && oldVersion < 5) {
+          migrateToProfiles(transaction).catch(error => {
+            console.error('Failed to migrate the stored data to profiles:', error);
+            transaction.abort();
+          });
+        }
       },
     });
   }
 
-  async saveCredentials(credentials: AmazonCredentials): Promise<void> {
+  async saveCredentials(profileId: string, credentials: StoredCredentials): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('credentials', credentials, profileId);
+  }
+
+  async getCredentials(profileId: string): Promise<StoredCredentials | undefined> {
+    const db = await this.dbPromise;
+    return db.get('credentials', profileId);
+  }
+
+  // Stored credentials of every profile, keyed by profile id
+  async getAllCredentials(): Promise<Record<string, StoredCredentials>> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('credentials');
+    const [profileIds, records] = await Promise.all([tx.store.getAllKeys(), tx.store.getAll()]);
+
+    return Object.fromEntries(profileIds.map((profileId, index) => [profileId, records[index]]));
+  }
+
+  async deleteCredentials(profileId: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('credentials', profileId);
+  }
+
+  async clearCredentials(): Promise<void> {
+    const db = await this.dbPromise;
+    await db.clear('credentials');
+  }
+
+  // Profile methods
+  async saveProfile(profile: SellerProfile): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('profiles', profile);
+  }
+
+  async getProfiles(): Promise<SellerProfile[]> {
+    const db = await this.dbPromise;
+    const profiles = await db.getAll('profiles');
+    return profiles.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Removes the profile together with its data and settings. Settings of a profile have keys ending in
+  // :<profile id>, e.g. endpoint-params:<profile id>
+  async deleteProfile(profileId: string): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['profiles', 'responses', 'historical', 'reports', 'reportDocuments', 'reportSchedules', 'feeds', 'settings', 'fetchRun'], 'readwrite');
+
+    await tx.objectStore('profiles').delete(profileId);
+
+    let settingCursor = await tx.objectStore('settings').openCursor();
+    while (settingCursor) {
+      if (settingCursor.key.endsWith(`:${profileId}`)) {
+        await settingCursor.delete();
+      }
+      settingCursor = await settingCursor.continue();
+    }
+
+    const run = await tx.objectStore('fetchRun').get('current-run');
+    if (run?.profileId === profileId) {
+      await tx.objectStore('fetchRun').delete('current-run');
+    }
+
+    for (const storeName of ['responses', 'historical', 'reportSchedules', 'feeds'] as const) {
+      let cursor = await tx.objectStore(storeName).openCursor();
+      while (cursor) {
+        if (cursor.value.profileId === profileId) {
+          await cursor.delete();
+        }
+        cursor = await cursor.continue();
+      }
+    }
+
+    let reportCursor = await tx.objectStore('reports').openCursor();
+    while (reportCursor) {
+      if (reportCursor.value.profileId === profileId) {
+        await tx.objectStore('reportDocuments').delete(reportCursor.value.reportId);
+        await reportCursor.delete();
+      }
+      reportCursor = await reportCursor.continue();
+    }
+
+    await tx.done;
+  }
+
+  // Custom endpoint methods
+  async saveCustomEndpoint(endpoint: ApiEndpoint): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('customEndpoints', endpoint);
+  }
+
+  async getCustomEndpoints(): Promise<ApiEndpoint[]> {
     const db = await this.dbPromise;
-    await db.put('credentials', credentials, 'amazon-credentials');
+    return db.getAll('customEndpoints');
   }
 
-  async getCredentials(): Promise<AmazonCredentials | undefined> {
+  async deleteCustomEndpoint(endpointId: string): Promise<void> {
     const db = await this.dbPromise;
-    return db.get('credentials', 'amazon-credentials');
+    await db.delete('customEndpoints', endpointId);
+  }
+
+  // Report methods
+  async saveReportRequest(report: ReportRequest): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('reports', report);
+  }
+
+  async getReportRequests(profileId: string): Promise<ReportRequest[]> {
+    const db = await this.dbPromise;
+    const reports = await db.getAll('reports');
+    return reports
+      .filter(report => report.profileId === profileId)
+      .sort((a, b) => b.requestedAt - a.requestedAt);
+  }
+
+  async deleteReportRequest(reportId: string): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['reports', 'reportDocuments'], 'readwrite');
+    await tx.objectStore('reports').delete(reportId);
+    await tx.objectStore('reportDocuments').delete(reportId);
+    await tx.done;
+  }
+
+  async saveReportDocument(document: ReportDocumentContent): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('reportDocuments', document);
+  }
+
+  async getReportDocument(reportId: string): Promise<ReportDocumentContent | undefined> {
+    const db = await this.dbPromise;
+    return db.get('reportDocuments', reportId);
+  }
+
+  async saveReportSchedule(schedule: LocalReportSchedule): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('reportSchedules', schedule);
+  }
+
+  async getReportSchedules(profileId: string): Promise<LocalReportSchedule[]> {
+    const db = await this.dbPromise;
+    const schedules = await db.getAll('reportSchedules');
+    return schedules
+      .filter(schedule => schedule.profileId === profileId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async deleteReportSchedule(scheduleId: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('reportSchedules', scheduleId);
+  }
+
+  async saveFeedSubmission(feed: FeedSubmission): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('feeds', feed);
+  }
+
+  async getFeedSubmissions(profileId: string): Promise<FeedSubmission[]> {
+    const db = await this.dbPromise;
+    const feeds = await db.getAll('feeds');
+    return feeds
+      .filter(feed => feed.profileId === profileId)
+      .sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  async deleteFeedSubmission(feedId: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('feeds', feedId);
   }
 
   async saveResponse(response: ApiResponse): Promise<string> {
     const db = await this.dbPromise;
-    const responseId = `${response.endpointId}-${response.timestamp}`;
+    const responseId = response.marketplaceId
+      ? `${response.endpointId}-${response.marketplaceId}-${response.timestamp}`
+      : `${response.endpointId}-${response.timestamp}`;
     const id = await db.put('responses', {
       ...response,
       id: responseId
@@ -101,18 +369,42 @@ class DatabaseService {
     return responses.sort((a, b) => b.timestamp - a.timestamp)[0];
   }
 
+  async getResponse(responseId: string): Promise<ApiResponse | undefined> {
+    const db = await this.dbPromise;
+    return db.get('responses', responseId);
+  }
+
+  // Keyed like the jobs of a fetch run: endpoint id, followed by @marketplace id for marketplace-scoped responses
+  async getResponsesByIds(responseIds: string[]): Promise<Record<string, ApiResponse>> {
+    const db = await this.dbPromise;
+    const responses: Record<string, ApiResponse> = {};
+
+    for (const responseId of responseIds) {
+      const response = await db.get('responses', responseId);
+      if (response) {
+        responses[response.marketplaceId ? `${response.endpointId}@${response.marketplaceId}` : response.endpointId] = response;
+      }
+    }
+
+    return responses;
+  }
+
   async getAllResponses(): Promise<ApiResponse[]> {
     const db = await this.dbPromise;
     return db.getAll('responses');
   }
 
-  async getLatestResponses(): Promise<Record<string, ApiResponse>> {
+  // Responses of other marketplaces are skipped when a marketplace is given
+  async getLatestResponses(profileId: string, marketplaceId?: string): Promise<Record<string, ApiResponse>> {
     const db = await this.dbPromise;
     const responses = await db.getAll('responses');
     
     // Group by endpoint and get the latest for each
     const latestByEndpoint: Record<string, ApiResponse> = {};
     responses.forEach(response => {
+      if (response.profileId !== profileId) return;
+      if (marketplaceId && response.marketplaceId && response.marketplaceId !== marketplaceId) return;
+
       const current = latestByEndpoint[response.endpointId];
       if (!current || response.timestamp > current.timestamp) {
         latestByEndpoint[response.endpointId] = response;
@@ -141,40 +433,44 @@ class DatabaseService {
   }
 
   // Historical data methods
-  async createHistoricalSnapshot(): Promise<string> {
+  async createHistoricalSnapshot(profileId: string): Promise<string> {
     const db = await this.dbPromise;
-    const latestResponses = await this.getLatestResponses();
-    const responseIds = Object.values(latestResponses).map(response => response.id!);
+    const responses = await db.getAll('responses');
+
+    // Latest response per endpoint and marketplace
+    const latest: Record<string, ApiResponse> = {};
+    responses.forEach(response => {
+      if (response.profileId !== profileId) return;
+
+      const key = `${response.endpointId}@${response.marketplaceId ?? ''}`;
+      if (!latest[key] || response.timestamp > latest[key].timestamp) {
+        latest[key] = response;
+      }
+    });
+    const responseIds = Object.values(latest).map(response => response.id!);
     
     const snapshot: HistoricalSnapshot = {
       id: `snapshot-${Date.now()}`,
       date: Date.now(),
-      responseIds
+      responseIds,
+      profileId
     };
     
     const id = await db.put('historical', snapshot);
     return id.toString();
   }
 
-  async getHistoricalSnapshots(): Promise<HistoricalSnapshot[]> {
+  async getHistoricalSnapshots(profileId: string): Promise<HistoricalSnapshot[]> {
     const db = await this.dbPromise;
     return db.getAllFromIndex('historical', 'by-date').then(snapshots => 
-      snapshots.sort((a, b) => b.date - a.date)
+      snapshots
+        .filter(snapshot => snapshot.profileId === profileId)
+        .sort((a, b) => b.date - a.date)
     );
   }
 
   async getSnapshotResponses(snapshot: HistoricalSnapshot): Promise<Record<string, ApiResponse>> {
-    const db = await this.dbPromise;
-    const responses: Record<string, ApiResponse> = {};
-    
-    for (const responseId of snapshot.responseIds) {
-      const response = await db.get('responses', responseId);
-      if (response) {
-        responses[response.endpointId] = response;
-      }
-    }
-    
-    return responses;
+    return this.getResponsesByIds(snapshot.responseIds);
   }
 
   // Last login tracking
@@ -188,10 +484,37 @@ class DatabaseService {
     return db.get('lastLogin', 'last-login');
   }
 
-  async getDatabaseStats(): Promise<DatabaseStats> {
+  // Fetch run tracking
+  async saveFetchRun(run: FetchRun): Promise<void> {
     const db = await this.dbPromise;
-    const responses = await db.getAll('responses');
-    const snapshots = await db.getAll('historical');
+    await db.put('fetchRun', run, 'current-run');
+  }
+
+  async getFetchRun(): Promise<FetchRun | undefined> {
+    const db = await this.dbPromise;
+    return db.get('fetchRun', 'current-run');
+  }
+
+  async clearFetchRun(): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('fetchRun', 'current-run');
+  }
+
+  // App settings
+  async saveSetting<T>(key: string, value: T): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('settings', value, key);
+  }
+
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const db = await this.dbPromise;
+    return db.get('settings', key) as Promise<T | undefined>;
+  }
+
+  async getDatabaseStats(profileId: string): Promise<DatabaseStats> {
+    const db = await this.dbPromise;
+    const responses = (await db.getAll('responses')).filter(response => response.profileId === profileId);
+    const snapshots = (await db.getAll('historical')).filter(snapshot => snapshot.profileId === profileId);
     
     // Calculate the unique endpoints
     const endpoints = new Set(responses.map(r => r.endpointId));
@@ -216,15 +539,18 @@ class DatabaseService {
     };
   }
 
-  async exportAllData(): Promise<Blob> {
+  async exportAllData(profileId: string): Promise<Blob> {
     const db = await this.dbPromise;
-    const credentials = await db.get('credentials', 'amazon-credentials');
-    const responses = await db.getAll('responses');
-    const snapshots = await db.getAll('historical');
+    const profile = await db.get('profiles', profileId);
+    const credentials = await db.get('credentials', profileId);
+    const responses = (await db.getAll('responses')).filter(response => response.profileId === profileId);
+    const snapshots = (await db.getAll('historical')).filter(snapshot => snapshot.profileId === profileId);
     const lastLogin = await db.get('lastLogin', 'last-login');
     
     const exportData = {
-      credentials: credentials ? {
+      profile,
+      // Encrypted credentials are left out entirely, plaintext ones have their secrets redacted
+      credentials: credentials && 'clientId' in credentials ? {
         clientId: credentials.clientId,
         // We redact the secret for security reasons in the export
         clientSecret: '********',
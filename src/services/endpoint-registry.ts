@@ -0,0 +1,116 @@
+
+import { API_ENDPOINTS, ApiEndpoint, CUSTOM_ENDPOINT_PREFIX } from '../types/amazon-api';
+import dbService from './db-service';
+
+export type CustomEndpointInput = Omit<ApiEndpoint, 'id' | 'custom'>;
+
+// The endpoints the app can fetch: the built-in ones followed by those the user defined
+class EndpointRegistry {
+  private customEndpoints: ApiEndpoint[] = [];
+  private listeners: (() => void)[] = [];
+  private initialization: Promise<void>;
+
+  constructor() {
+    this.initialization = this.loadCustomEndpoints();
+  }
+
+  public whenReady(): Promise<void> {
+    return this.initialization;
+  }
+
+  private async loadCustomEndpoints() {
+    try {
+      this.customEndpoints = await dbService.getCustomEndpoints();
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Failed to load custom endpoints:', error);
+    }
+  }
+
+  public getEndpoints(): ApiEndpoint[] {
+    return [...API_ENDPOINTS, ...this.customEndpoints];
+  }
+
+  // Endpoints that are called without the user asking, by Fetch All and the access check. Custom
+  // endpoints with other methods than GET may change data, and manual ones need an id entered first,
+  // so they only run from their own card
+  public getAutomaticEndpoints(): ApiEndpoint[] {
+    return this.getEndpoints().filter(endpoint =>
+      !endpoint.manual && (!endpoint.custom || (endpoint.method ?? 'GET') === 'GET'));
+  }
+
+  public getCustomEndpoints(): ApiEndpoint[] {
+    return this.customEndpoints;
+  }
+
+  public getEndpoint(endpointId: string): ApiEndpoint | undefined {
+    return this.getEndpoints().find(endpoint => endpoint.id === endpointId);
+  }
+
+  // Groups endpoints into stages that can be fetched one after the other: each endpoint comes after
+  // the endpoint it depends on. Dependencies on endpoints outside the list are ignored
+  public getDependencyStages(endpoints: ApiEndpoint[]): ApiEndpoint[][] {
+    const included = new Set(endpoints.map(endpoint => endpoint.id));
+    const stages: ApiEndpoint[][] = [];
+    const placed = new Set<string>();
+    let remaining = endpoints;
+
+    while (remaining.length > 0) {
+      const stage = remaining.filter(endpoint => {
+        const parentId = endpoint.dependsOn?.endpointId;
+        return !parentId || !included.has(parentId) || placed.has(parentId);
+      });
+      if (stage.length === 0) {
+        throw new Error(`Circular endpoint dependency between: ${remaining.map(endpoint => endpoint.id).join(', ')}`);
+      }
+
+      stage.forEach(endpoint => placed.add(endpoint.id));
+      stages.push(stage);
+      remaining = remaining.filter(endpoint => !placed.has(endpoint.id));
+    }
+
+    return stages;
+  }
+
+  public async createEndpoint(input: CustomEndpointInput): Promise<ApiEndpoint> {
+    const endpoint: ApiEndpoint = { ...input, id: `${CUSTOM_ENDPOINT_PREFIX}${Date.now()}`, custom: true };
+
+    await dbService.saveCustomEndpoint(endpoint);
+    this.customEndpoints = [...this.customEndpoints, endpoint];
+    this.notifyListeners();
+
+    return endpoint;
+  }
+
+  // Replaces the definition; responses fetched earlier stay attached to the endpoint id
+  public async updateEndpoint(endpointId: string, input: CustomEndpointInput): Promise<void> {
+    if (!this.customEndpoints.some(endpoint => endpoint.id === endpointId)) {
+      throw new Error(`Unknown custom endpoint: ${endpointId}`);
+    }
+
+    const endpoint: ApiEndpoint = { ...input, id: endpointId, custom: true };
+    await dbService.saveCustomEndpoint(endpoint);
+    this.customEndpoints = this.customEndpoints.map(entry => entry.id === endpointId ? endpoint : entry);
+    this.notifyListeners();
+  }
+
+  public async deleteEndpoint(endpointId: string): Promise<void> {
+    await dbService.deleteCustomEndpoint(endpointId);
+    this.customEndpoints = this.customEndpoints.filter(endpoint => endpoint.id !== endpointId);
+    this.notifyListeners();
+  }
+
+  public onChange(callback: () => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const endpointRegistry = new EndpointRegistry();
+export default endpointRegistry;
@@ -0,0 +1,278 @@
+import { ApiEndpoint, FeedSubmission, ListingChange, ReportProcessingStatus, fromOperation } from '../types/amazon-api';
+import { getFeedType } from '../types/feed-types';
+import { Feeds, SpApiOperationData } from '../types/sp-api';
+import amazonService from './amazon-service';
+import dbService from './db-service';
+import credentialVault from './credential-vault';
+import profileService from './profile-service';
+import { isAbortError } from './amazon-errors';
+import { sleep } from './retry-policy';
+import { DocumentEncoding, decodeDocument } from '../utils/report-document';
+import { decodeText } from '../utils/flat-file';
+import { indexFeedRecords, parseProcessingReport } from '../utils/feed-document';
+
+// Feeds API operations behind a feed submission
+const CREATE_FEED_DOCUMENT_ENDPOINT: ApiEndpoint = {
+  id: 'create-feed-document',
+  name: 'Create Feed Document',
+  description: 'Get an upload destination for feed contents',
+  ...fromOperation('feeds', 'createFeedDocument'),
+  requiresParams: true
+};
+const CREATE_FEED_ENDPOINT: ApiEndpoint = {
+  id: 'create-feed',
+  name: 'Create Feed',
+  description: 'Submit an uploaded feed document for processing',
+  ...fromOperation('feeds', 'createFeed'),
+  requiresParams: true
+};
+const GET_FEED_ENDPOINT: ApiEndpoint = {
+  id: 'get-feed',
+  name: 'Feed Status',
+  description: 'Check the processing status of a feed',
+  ...fromOperation('feeds', 'getFeed'),
+  requiresParams: true
+};
+const CANCEL_FEED_ENDPOINT: ApiEndpoint = {
+  id: 'cancel-feed',
+  name: 'Cancel Feed',
+  description: 'Cancel a feed that is still queued',
+  ...fromOperation('feeds', 'cancelFeed'),
+  requiresParams: true
+};
+const GET_FEED_DOCUMENT_ENDPOINT: ApiEndpoint = {
+  id: 'get-feed-document',
+  name: 'Feed Document',
+  description: 'Get the download details of a processing report',
+  ...fromOperation('feeds', 'getFeedDocument'),
+  requiresParams: true
+};
+
+// Feeds take a few minutes at least, so status checks start less often than for reports
+const INITIAL_POLL_INTERVAL = 30 * 1000;
+const MAX_POLL_INTERVAL = 5 * 60 * 1000;
+const FINISHED_STATUSES: ReportProcessingStatus[] = ['DONE', 'FATAL', 'CANCELLED'];
+
+export interface FeedSpecification {
+  feedType: string;
+  marketplaceIds: string[];
+  content: string;
+  feedOptions?: Record<string, string>;
+  changes?: ListingChange[]; // Listing changes the content was generated from
+}
+
+// Uploads feeds and follows them through processing until their processing reports are parsed
+class FeedService {
+  private feeds: FeedSubmission[] = []; // Of the active profile, newest first
+  private profileId: string | null = null; // Whose feeds are loaded
+  private polling = new Map<string, AbortController>(); // By feed id
+  private listeners: (() => void)[] = [];
+  private initialization: Promise<void>;
+
+  constructor() {
+    this.initialization = profileService.whenReady().then(() => this.loadFeeds());
+
+    // Feeds belong to the active profile and can only be checked with its credentials
+    profileService.onChange(() => {
+      if (profileService.getActiveProfileId() !== this.profileId) this.loadFeeds();
+    });
+    credentialVault.onChange(() => this.resumePending());
+  }
+
+  public whenReady(): Promise<void> {
+    return this.initialization;
+  }
+
+  private async loadFeeds() {
+    this.polling.forEach(controller => controller.abort());
+    this.polling.clear();
+
+    try {
+      this.profileId = profileService.getActiveProfileId();
+      this.feeds = await dbService.getFeedSubmissions(this.profileId);
+      this.notifyListeners();
+      this.resumePending();
+    } catch (error) {
+      console.error('Failed to load feeds:', error);
+    }
+  }
+
+  // Picks up feeds still being processed, e.g. after a reload; failed checks wait for a manual refresh
+  private resumePending() {
+    if (!amazonService.hasCredentials() || amazonService.isDemoMode()) return;
+
+    this.feeds
+      .filter(feed => !feed.error && (!FINISHED_STATUSES.includes(feed.status) || this.needsResult(feed)))
+      .forEach(feed => this.track(feed.feedId));
+  }
+
+  public getFeeds(): FeedSubmission[] {
+    return this.feeds;
+  }
+
+  // Feeds whose status is being checked or whose processing report is being downloaded
+  public getTrackedFeedIds(): string[] {
+    return [...this.polling.keys()];
+  }
+
+  public async submitFeed(specification: FeedSpecification): Promise<FeedSubmission> {
+    if (amazonService.isDemoMode()) {
+      throw new Error('Feeds cannot be submitted in demo mode');
+    }
+    if (specification.marketplaceIds.length === 0) {
+      throw new Error('Select at least one marketplace');
+    }
+
+    const feedType = getFeedType(specification.feedType);
+    if (!feedType) {
+      throw new Error(`Unsupported feed type: ${specification.feedType}`);
+    }
+    const { recordCount, skus } = indexFeedRecords(feedType.format, specification.content);
+
+    // The upload URL expires after five minutes, so the content is uploaded right away
+    const document = await amazonService.callEndpoint<SpApiOperationData['feeds']['createFeedDocument']>(
+      { ...CREATE_FEED_DOCUMENT_ENDPOINT, requestBody: { contentType: feedType.contentType } satisfies Feeds.CreateFeedDocumentSpecification }
+    );
+    await amazonService.uploadDocument(document.url, feedType.contentType, specification.content);
+
+    const body = {
+      feedType: feedType.type,
+      marketplaceIds: specification.marketplaceIds,
+      inputFeedDocumentId: document.feedDocumentId,
+      feedOptions: specification.feedOptions
+    } satisfies Feeds.CreateFeedSpecification;
+    const { feedId } = await amazonService.callEndpoint<SpApiOperationData['feeds']['createFeed']>(
+      { ...CREATE_FEED_ENDPOINT, requestBody: body }
+    );
+
+    const feed: FeedSubmission = {
+      feedId,
+      profileId: profileService.getActiveProfileId(),
+      feedType: body.feedType,
+      marketplaceIds: body.marketplaceIds,
+      recordCount,
+      skus,
+      changes: specification.changes,
+      status: 'IN_QUEUE',
+      submittedAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    await dbService.saveFeedSubmission(feed);
+    this.feeds = [feed, ...this.feeds];
+    this.notifyListeners();
+
+    this.track(feedId);
+    return feed;
+  }
+
+  // Checks a feed again, e.g. after a failed status check or download
+  public refreshFeed(feedId: string) {
+    this.track(feedId, 0);
+  }
+
+  // Only feeds Amazon hasn't started processing can be cancelled
+  public async cancelFeed(feedId: string): Promise<void> {
+    await amazonService.callEndpoint(CANCEL_FEED_ENDPOINT, { feedId });
+    this.refreshFeed(feedId);
+  }
+
+  public async deleteFeed(feedId: string): Promise<void> {
+    this.polling.get(feedId)?.abort();
+    this.polling.delete(feedId);
+
+    await dbService.deleteFeedSubmission(feedId);
+    this.feeds = this.feeds.filter(feed => feed.feedId !== feedId);
+    this.notifyListeners();
+  }
+
+  private needsResult(feed: FeedSubmission): boolean {
+    return !!feed.resultFeedDocumentId && !feed.result;
+  }
+
+  // Polls the feed until Amazon has finished processing it, then parses its processing report
+  private async track(feedId: string, firstDelay = INITIAL_POLL_INTERVAL) {
+    if (this.polling.has(feedId)) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.polling.set(feedId, controller);
+    this.notifyListeners();
+    const release = credentialVault.hold();
+
+    try {
+      let interval = firstDelay;
+      while (!FINISHED_STATUSES.includes(this.getFeed(feedId).status) || this.getFeed(feedId).error) {
+        await sleep(interval, signal);
+        interval = Math.min(Math.max(interval * 2, INITIAL_POLL_INTERVAL), MAX_POLL_INTERVAL);
+
+        const details = await amazonService.callEndpoint<SpApiOperationData['feeds']['getFeed']>(
+          GET_FEED_ENDPOINT,
+          { feedId },
+          { signal }
+        );
+        await this.updateFeed(feedId, {
+          status: details.processingStatus,
+          resultFeedDocumentId: details.resultFeedDocumentId,
+          error: undefined
+        });
+      }
+
+      if (this.needsResult(this.getFeed(feedId))) {
+        await this.storeResult(this.getFeed(feedId), signal);
+      }
+    } catch (error) {
+      // Cancelled because the feed was deleted or the profile switched
+      if (isAbortError(error) || signal.aborted) return;
+
+      console.error(`Failed to retrieve feed ${feedId}:`, error);
+      await this.updateFeed(feedId, { error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      release();
+      if (this.polling.get(feedId) === controller) {
+        this.polling.delete(feedId);
+        this.notifyListeners();
+      }
+    }
+  }
+
+  private async storeResult(feed: FeedSubmission, signal: AbortSignal) {
+    const document = await amazonService.callEndpoint<SpApiOperationData['feeds']['getFeedDocument'] & DocumentEncoding>(
+      GET_FEED_DOCUMENT_ENDPOINT,
+      { feedDocumentId: feed.resultFeedDocumentId },
+      { signal }
+    );
+    const { bytes, contentType } = await amazonService.downloadDocument(document.url, signal);
+    const { text } = decodeText(await decodeDocument(bytes, document), contentType);
+
+    await this.updateFeed(feed.feedId, { result: parseProcessingReport(text, feed.skus) });
+  }
+
+  private getFeed(feedId: string): FeedSubmission {
+    const feed = this.feeds.find(entry => entry.feedId === feedId);
+    if (!feed) {
+      throw new Error(`Unknown feed: ${feedId}`);
+    }
+    return feed;
+  }
+
+  private async updateFeed(feedId: string, changes: Partial<FeedSubmission>) {
+    const feed = { ...this.getFeed(feedId), ...changes, updatedAt: Date.now() };
+    await dbService.saveFeedSubmission(feed);
+    this.feeds = this.feeds.map(entry => entry.feedId === feedId ? feed : entry);
+    this.notifyListeners();
+  }
+
+  public onChange(callback: () => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const feedService = new FeedService();
+export default feedService;
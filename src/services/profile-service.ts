@@ -0,0 +1,130 @@
+
+import { DEFAULT_PROFILE_ID, SellerProfile } from '../types/amazon-api';
+import dbService from './db-service';
+import credentialVault from './credential-vault';
+
+const ACTIVE_PROFILE_SETTING = 'active-profile';
+
+type ProfileUpdate = Partial<Omit<SellerProfile, 'id' | 'createdAt'>>;
+
+// Keeps track of the seller account profiles and which one the app is working with
+class ProfileService {
+  private profiles: SellerProfile[] = [];
+  private activeProfileId = DEFAULT_PROFILE_ID;
+  private listeners: (() => void)[] = [];
+  private initialization: Promise<void>;
+
+  constructor() {
+    this.initialization = this.initializeProfiles();
+  }
+
+  public whenReady(): Promise<void> {
+    return this.initialization;
+  }
+
+  private async initializeProfiles() {
+    try {
+      this.profiles = await dbService.getProfiles();
+
+      if (this.profiles.length === 0) {
+        const profile: SellerProfile = {
+          id: DEFAULT_PROFILE_ID,
+          name: 'Default',
+          marketplaceIds: [],
+          createdAt: Date.now()
+        };
+        await dbService.saveProfile(profile);
+        this.profiles = [profile];
+      }
+
+      const activeProfileId = await dbService.getSetting<string>(ACTIVE_PROFILE_SETTING);
+      this.activeProfileId = this.profiles.some(profile => profile.id === activeProfileId)
+        ? activeProfileId!
+        : this.profiles[0].id;
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Failed to initialize profiles:', error);
+    }
+  }
+
+  public getProfiles(): SellerProfile[] {
+    return this.profiles;
+  }
+
+  public getActiveProfileId(): string {
+    return this.activeProfileId;
+  }
+
+  public getActiveProfile(): SellerProfile | undefined {
+    return this.profiles.find(profile => profile.id === this.activeProfileId);
+  }
+
+  public async setActiveProfile(profileId: string): Promise<void> {
+    if (!this.profiles.some(profile => profile.id === profileId)) {
+      throw new Error(`Unknown profile: ${profileId}`);
+    }
+
+    this.activeProfileId = profileId;
+    await dbService.saveSetting(ACTIVE_PROFILE_SETTING, profileId);
+    this.notifyListeners();
+  }
+
+  // Creates a profile and switches to it
+  public async createProfile(name: string): Promise<SellerProfile> {
+    const profile: SellerProfile = {
+      id: `profile-${Date.now()}`,
+      name,
+      marketplaceIds: [],
+      createdAt: Date.now()
+    };
+
+    await dbService.saveProfile(profile);
+    this.profiles = [...this.profiles, profile];
+    await this.setActiveProfile(profile.id);
+
+    return profile;
+  }
+
+  public async updateProfile(profileId: string, changes: ProfileUpdate): Promise<void> {
+    const profile = this.profiles.find(entry => entry.id === profileId);
+    if (!profile) {
+      throw new Error(`Unknown profile: ${profileId}`);
+    }
+
+    const updated = { ...profile, ...changes };
+    await dbService.saveProfile(updated);
+    this.profiles = this.profiles.map(entry => entry.id === profileId ? updated : entry);
+    this.notifyListeners();
+  }
+
+  // Deletes the profile with its credentials and data; the last profile can't be deleted
+  public async deleteProfile(profileId: string): Promise<void> {
+    if (this.profiles.length <= 1) {
+      throw new Error('At least one profile is required');
+    }
+
+    await dbService.deleteProfile(profileId);
+    await credentialVault.remove(profileId);
+    this.profiles = this.profiles.filter(profile => profile.id !== profileId);
+
+    if (this.activeProfileId === profileId) {
+      await this.setActiveProfile(this.profiles[0].id);
+    } else {
+      this.notifyListeners();
+    }
+  }
+
+  public onChange(callback: () => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const profileService = new ProfileService();
+export default profileService;
@@ -0,0 +1,140 @@
+
+import { RateLimit } from '../types/amazon-api';
+
+// Used for endpoints that don't declare a usage plan
+export const DEFAULT_RATE_LIMIT: RateLimit = { rate: 0.5, burst: 1 };
+
+interface AcquireOptions {
+  onWait?: (waitMs: number) => void;
+  signal?: AbortSignal;
+}
+
+interface Waiter {
+  resolve: () => void;
+}
+
+// Classic token bucket: holds up to `burst` tokens and regains `rate` tokens per second.
+// Callers that find the bucket empty are queued and released in FIFO order.
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private limit: RateLimit) {
+    this.tokens = limit.burst;
+  }
+
+  acquire({ onWait, signal }: AcquireOptions = {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.queue = this.queue.filter(entry => entry !== waiter);
+        this.reschedule();
+        reject(signal!.reason);
+      };
+      const waiter: Waiter = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+
+      this.queue.push(waiter);
+      this.drain();
+
+      if (this.queue.includes(waiter)) {
+        signal?.addEventListener('abort', onAbort, { once: true });
+        onWait?.(this.estimateWait(this.queue.length));
+      }
+    });
+  }
+
+  setRate(rate: number) {
+    this.refill();
+    this.limit = { ...this.limit, rate };
+    this.reschedule();
+  }
+
+  // Called after a 429: Amazon considers the bucket empty, so we do too
+  empty() {
+    this.refill();
+    this.tokens = 0;
+    this.reschedule();
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsed * this.limit.rate);
+    this.lastRefill = now;
+  }
+
+  private drain() {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!.resolve();
+    }
+
+    this.reschedule();
+  }
+
+  private reschedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.queue.length > 0) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, this.estimateWait(1));
+    }
+  }
+
+  // Milliseconds until the request at the given queue position can go out
+  private estimateWait(position: number): number {
+    const missing = position - this.tokens;
+    return missing <= 0 ? 0 : Math.ceil((missing / this.limit.rate) * 1000);
+  }
+}
+
+class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  // Waits until a request for the given key may be sent
+  public acquire(key: string, limit: RateLimit = DEFAULT_RATE_LIMIT, options?: AcquireOptions): Promise<void> {
+    return this.getBucket(key, limit).acquire(options);
+  }
+
+  // Adapts the bucket to the rate Amazon reports in the x-amzn-RateLimit-Limit header
+  public updateFromHeader(key: string, headerValue: string | null) {
+    const rate = headerValue ? parseFloat(headerValue) : NaN;
+    if (!Number.isFinite(rate) || rate <= 0) return;
+
+    this.buckets.get(key)?.setRate(rate);
+  }
+
+  public reportThrottled(key: string) {
+    this.buckets.get(key)?.empty();
+  }
+
+  private getBucket(key: string, limit: RateLimit): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
+
+const rateLimiter = new RateLimiter();
+export default rateLimiter;
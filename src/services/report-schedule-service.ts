@@ -0,0 +1,249 @@
+import { ApiEndpoint, LocalReportSchedule, fromOperation } from '../types/amazon-api';
+import { REPORT_TYPES, ReportPeriod, getReportPeriod, validateReportRequest } from '../types/report-types';
+import { Reports, SpApiOperationData } from '../types/sp-api';
+import amazonService from './amazon-service';
+import dbService from './db-service';
+import credentialVault from './credential-vault';
+import profileService from './profile-service';
+import reportService, { ReportSpecification } from './report-service';
+import { isRelativeDate } from '../utils/relative-date';
+
+const GET_SCHEDULES_ENDPOINT: ApiEndpoint = {
+  id: 'get-report-schedules',
+  name: 'Report Schedules',
+  description: 'List report schedules',
+  ...fromOperation('reports', 'getReportSchedules'),
+  requiresParams: true
+};
+const CREATE_SCHEDULE_ENDPOINT: ApiEndpoint = {
+  id: 'create-report-schedule',
+  name: 'Create Report Schedule',
+  description: 'Have Amazon create a report periodically',
+  ...fromOperation('reports', 'createReportSchedule'),
+  requiresParams: true
+};
+const CANCEL_SCHEDULE_ENDPOINT: ApiEndpoint = {
+  id: 'cancel-report-schedule',
+  name: 'Cancel Report Schedule',
+  description: 'Stop a report schedule',
+  ...fromOperation('reports', 'cancelReportSchedule'),
+  requiresParams: true
+};
+
+// Local schedules are due at most this long before the app requests their report
+const CHECK_INTERVAL = 60 * 1000;
+// getReportSchedules filters by at most ten report types per request
+const REPORT_TYPES_PER_REQUEST = 10;
+const HOUR = 60 * 60 * 1000;
+
+export type ScheduleSpecification = Omit<ReportSpecification, 'scheduleId'> & { period: ReportPeriod };
+
+// Report schedules of the active profile: those Amazon runs, and local ones the app runs while it is open
+class ReportScheduleService {
+  private amazonSchedules: Reports.ReportSchedule[] = [];
+  private localSchedules: LocalReportSchedule[] = [];
+  private profileId: string | null = null; // Whose schedules are loaded
+  private running = false;
+  private listeners: (() => void)[] = [];
+  private initialization: Promise<void>;
+
+  constructor() {
+    this.initialization = profileService.whenReady().then(() => this.loadSchedules());
+
+    // Edits of a profile, e.g. its selected marketplace, keep the loaded schedules
+    profileService.onChange(() => {
+      if (profileService.getActiveProfileId() !== this.profileId) this.loadSchedules();
+    });
+    credentialVault.onChange(() => this.runDueSchedules());
+    setInterval(() => this.runDueSchedules(), CHECK_INTERVAL);
+  }
+
+  public whenReady(): Promise<void> {
+    return this.initialization;
+  }
+
+  private async loadSchedules() {
+    // Amazon's schedules are listed on request, since they count against a low rate limit
+    this.amazonSchedules = [];
+
+    try {
+      this.profileId = profileService.getActiveProfileId();
+      this.localSchedules = await dbService.getReportSchedules(this.profileId);
+      this.notifyListeners();
+      this.runDueSchedules();
+    } catch (error) {
+      console.error('Failed to load report schedules:', error);
+    }
+  }
+
+  public getAmazonSchedules(): Reports.ReportSchedule[] {
+    return this.amazonSchedules;
+  }
+
+  public getLocalSchedules(): LocalReportSchedule[] {
+    return this.localSchedules;
+  }
+
+  // Lists Amazon's schedules for the catalog's and previously requested report types, and picks up
+  // the reports they created since
+  public async refreshAmazonSchedules(): Promise<Reports.ReportSchedule[]> {
+    if (amazonService.isDemoMode()) {
+      throw new Error('Report schedules cannot be listed in demo mode');
+    }
+
+    const reportTypes = [...new Set([
+      ...REPORT_TYPES.map(reportType => reportType.type),
+      ...reportService.getReports().map(report => report.reportType)
+    ])];
+
+    const schedules: Reports.ReportSchedule[] = [];
+    for (let index = 0; index < reportTypes.length; index += REPORT_TYPES_PER_REQUEST) {
+      const { reportSchedules } = await amazonService.callEndpoint<SpApiOperationData['reports']['getReportSchedules']>(
+        GET_SCHEDULES_ENDPOINT,
+        { reportTypes: reportTypes.slice(index, index + REPORT_TYPES_PER_REQUEST) }
+      );
+      schedules.push(...reportSchedules);
+    }
+
+    this.amazonSchedules = schedules;
+    this.notifyListeners();
+
+    if (schedules.length > 0) {
+      await reportService.importScheduledReports([...new Set(schedules.map(schedule => schedule.reportType))]);
+    }
+    return schedules;
+  }
+
+  // Amazon replaces an existing schedule for the same report type and marketplaces
+  public async createAmazonSchedule(specification: ScheduleSpecification, nextReportCreationTime?: string): Promise<string> {
+    if (amazonService.isDemoMode()) {
+      throw new Error('Report schedules cannot be created in demo mode');
+    }
+    this.validate(specification);
+
+    const body = {
+      reportType: specification.reportType,
+      marketplaceIds: specification.marketplaceIds,
+      reportOptions: specification.reportOptions,
+      period: specification.period,
+      nextReportCreationTime
+    } satisfies Reports.CreateReportScheduleSpecification;
+    const { reportScheduleId } = await amazonService.callEndpoint<SpApiOperationData['reports']['createReportSchedule']>(
+      { ...CREATE_SCHEDULE_ENDPOINT, requestBody: body }
+    );
+
+    const marketplaces = [...body.marketplaceIds].sort().join(',');
+    this.amazonSchedules = [
+      ...this.amazonSchedules.filter(schedule => schedule.reportType !== body.reportType
+        || [...(schedule.marketplaceIds ?? [])].sort().join(',') !== marketplaces),
+      { reportScheduleId, ...body }
+    ];
+    this.notifyListeners();
+    return reportScheduleId;
+  }
+
+  public async cancelAmazonSchedule(reportScheduleId: string): Promise<void> {
+    await amazonService.callEndpoint(CANCEL_SCHEDULE_ENDPOINT, { reportScheduleId });
+    this.amazonSchedules = this.amazonSchedules.filter(schedule => schedule.reportScheduleId !== reportScheduleId);
+    this.notifyListeners();
+  }
+
+  // The first report is requested right away, later ones once per period
+  public async createLocalSchedule(specification: ScheduleSpecification): Promise<LocalReportSchedule> {
+    this.validate(specification);
+    for (const value of [specification.dataStartTime, specification.dataEndTime]) {
+      if (value && !isRelativeDate(value)) {
+        throw new Error('Local schedules need relative dates such as now-1d, or every report would cover the same range');
+      }
+    }
+
+    const schedule: LocalReportSchedule = {
+      id: `schedule-${Date.now()}`,
+      profileId: profileService.getActiveProfileId(),
+      reportType: specification.reportType,
+      marketplaceIds: specification.marketplaceIds,
+      reportOptions: specification.reportOptions,
+      dataStartTime: specification.dataStartTime,
+      dataEndTime: specification.dataEndTime,
+      period: specification.period,
+      nextRunAt: Date.now(),
+      createdAt: Date.now()
+    };
+    await dbService.saveReportSchedule(schedule);
+    this.localSchedules = [...this.localSchedules, schedule];
+    this.notifyListeners();
+
+    this.runDueSchedules();
+    return schedule;
+  }
+
+  public async deleteLocalSchedule(scheduleId: string): Promise<void> {
+    await dbService.deleteReportSchedule(scheduleId);
+    this.localSchedules = this.localSchedules.filter(schedule => schedule.id !== scheduleId);
+    this.notifyListeners();
+  }
+
+  private validate(specification: ScheduleSpecification) {
+    if (specification.marketplaceIds.length === 0) {
+      throw new Error('Select at least one marketplace');
+    }
+    if (!getReportPeriod(specification.period)) {
+      throw new Error(`Unsupported schedule period: ${specification.period}`);
+    }
+
+    const problems = validateReportRequest(specification.reportType, specification.reportOptions);
+    if (problems.length > 0) {
+      throw new Error(problems.join('. '));
+    }
+  }
+
+  // Requests the reports of due local schedules; missed runs, e.g. while the app was closed, are made up once
+  private async runDueSchedules() {
+    if (this.running || !amazonService.hasCredentials() || amazonService.isDemoMode()) return;
+
+    this.running = true;
+    try {
+      const profileId = profileService.getActiveProfileId();
+      for (const schedule of this.localSchedules.filter(entry => entry.nextRunAt <= Date.now())) {
+        let lastError: string | undefined;
+        try {
+          await reportService.requestReport({ ...schedule, scheduleId: schedule.id });
+        } catch (error) {
+          console.error(`Failed to request the report of schedule ${schedule.id}:`, error);
+          lastError = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        // The profile switched or the schedule was deleted while the report was requested
+        if (profileService.getActiveProfileId() !== profileId) break;
+        if (!this.localSchedules.some(entry => entry.id === schedule.id)) continue;
+
+        const interval = getReportPeriod(schedule.period)!.hours * HOUR;
+        let nextRunAt = schedule.nextRunAt + interval;
+        while (nextRunAt <= Date.now()) nextRunAt += interval;
+
+        const updated = { ...schedule, nextRunAt, lastRunAt: Date.now(), lastError };
+        await dbService.saveReportSchedule(updated);
+        this.localSchedules = this.localSchedules.map(entry => entry.id === schedule.id ? updated : entry);
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error('Failed to run report schedules:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  public onChange(callback: () => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const reportScheduleService = new ReportScheduleService();
+export default reportScheduleService;
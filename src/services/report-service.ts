@@ -0,0 +1,340 @@
+import { ApiEndpoint, ReportDocumentContent, ReportProcessingStatus, ReportRequest, fromOperation } from '../types/amazon-api';
+import { getMarketplace } from '../types/marketplaces';
+import { validateReportRequest } from '../types/report-types';
+import { Reports, SpApiOperationData } from '../types/sp-api';
+import amazonService from './amazon-service';
+import dbService from './db-service';
+import credentialVault from './credential-vault';
+import profileService from './profile-service';
+import { isAbortError } from './amazon-errors';
+import { sleep } from './retry-policy';
+import { isRelativeDate, resolveRelativeDate } from '../utils/relative-date';
+import { DocumentEncoding, decodeDocument, parseDocument } from '../utils/report-document';
+
+// Reports API operations behind a report request
+const CREATE_REPORT_ENDPOINT: ApiEndpoint = {
+  id: 'create-report',
+  name: 'Create Report',
+  description: 'Request a report',
+  ...fromOperation('reports', 'createReport'),
+  requiresParams: true
+};
+const GET_REPORTS_ENDPOINT: ApiEndpoint = {
+  id: 'get-reports',
+  name: 'Reports',
+  description: 'List reports, e.g. those created by report schedules',
+  ...fromOperation('reports', 'getReports'),
+  requiresParams: false
+};
+const GET_REPORT_ENDPOINT: ApiEndpoint = {
+  id: 'get-report',
+  name: 'Report Status',
+  description: 'Check the processing status of a report',
+  ...fromOperation('reports', 'getReport'),
+  requiresParams: true
+};
+const GET_REPORT_DOCUMENT_ENDPOINT: ApiEndpoint = {
+  id: 'get-report-document',
+  name: 'Report Document',
+  description: 'Get the download details of a report document',
+  ...fromOperation('reports', 'getReportDocument'),
+  requiresParams: true
+};
+
+// Status checks start frequent, since small reports are ready within a minute, and slow down for large ones
+const INITIAL_POLL_INTERVAL = 10 * 1000;
+const MAX_POLL_INTERVAL = 2 * 60 * 1000;
+const FINISHED_STATUSES: ReportProcessingStatus[] = ['DONE', 'FATAL', 'CANCELLED'];
+// How far back reports created by Amazon report schedules are picked up
+const SCHEDULED_REPORT_WINDOW = 30 * 24 * 60 * 60 * 1000;
+// getReports filters by at most ten report types per request
+const REPORT_TYPES_PER_REQUEST = 10;
+
+// What to report on; dates may be relative expressions such as now-30d, resolved in the first marketplace's time zone
+export interface ReportSpecification {
+  reportType: string;
+  marketplaceIds: string[];
+  dataStartTime?: string;
+  dataEndTime?: string;
+  reportOptions?: Record<string, string>;
+  scheduleId?: string; // Local schedule the request is made for
+}
+
+// Requests reports and follows them through processing until their documents are stored
+class ReportService {
+  private reports: ReportRequest[] = []; // Of the active profile, newest first
+  private profileId: string | null = null; // Whose reports are loaded
+  private polling = new Map<string, AbortController>(); // By report id
+  private listeners: (() => void)[] = [];
+  private initialization: Promise<void>;
+
+  constructor() {
+    this.initialization = profileService.whenReady().then(() => this.loadReports());
+
+    // Reports belong to the active profile and can only be checked with its credentials
+    profileService.onChange(() => {
+      if (profileService.getActiveProfileId() !== this.profileId) this.loadReports();
+    });
+    credentialVault.onChange(() => this.resumePending());
+  }
+
+  public whenReady(): Promise<void> {
+    return this.initialization;
+  }
+
+  private async loadReports() {
+    this.polling.forEach(controller => controller.abort());
+    this.polling.clear();
+
+    try {
+      this.profileId = profileService.getActiveProfileId();
+      this.reports = await dbService.getReportRequests(this.profileId);
+      this.notifyListeners();
+      this.resumePending();
+    } catch (error) {
+      console.error('Failed to load reports:', error);
+    }
+  }
+
+  // Picks up reports still being processed, e.g. after a reload; failed checks wait for a manual refresh
+  private resumePending() {
+    if (!amazonService.hasCredentials() || amazonService.isDemoMode()) return;
+
+    this.reports
+      .filter(report => !report.error && (!FINISHED_STATUSES.includes(report.status) || this.needsDocument(report)))
+      .forEach(report => this.track(report.reportId));
+  }
+
+  public getReports(): ReportRequest[] {
+    return this.reports;
+  }
+
+  // Reports whose status is being checked or whose document is being downloaded
+  public getTrackedReportIds(): string[] {
+    return [...this.polling.keys()];
+  }
+
+  public async requestReport(specification: ReportSpecification): Promise<ReportRequest> {
+    if (amazonService.isDemoMode()) {
+      throw new Error('Reports cannot be requested in demo mode');
+    }
+    if (specification.marketplaceIds.length === 0) {
+      throw new Error('Select at least one marketplace');
+    }
+
+    const timeZone = getMarketplace(specification.marketplaceIds[0])?.timeZone ?? 'UTC';
+    const resolveDate = (value?: string) => {
+      if (!value) return undefined;
+      return isRelativeDate(value) ? resolveRelativeDate(value, timeZone) : new Date(value).toISOString();
+    };
+
+    const reportOptions = specification.reportOptions && Object.keys(specification.reportOptions).length > 0
+      ? specification.reportOptions
+      : undefined;
+    const body = {
+      reportType: specification.reportType,
+      marketplaceIds: specification.marketplaceIds,
+      dataStartTime: resolveDate(specification.dataStartTime),
+      dataEndTime: resolveDate(specification.dataEndTime),
+      reportOptions
+    } satisfies Reports.CreateReportSpecification;
+
+    const problems = validateReportRequest(body.reportType, reportOptions, body);
+    if (problems.length > 0) {
+      throw new Error(problems.join('. '));
+    }
+
+    const { reportId } = await amazonService.callEndpoint<SpApiOperationData['reports']['createReport']>(
+      { ...CREATE_REPORT_ENDPOINT, requestBody: body }
+    );
+
+    const report: ReportRequest = {
+      reportId,
+      profileId: profileService.getActiveProfileId(),
+      reportType: body.reportType,
+      marketplaceIds: body.marketplaceIds,
+      dataStartTime: body.dataStartTime,
+      dataEndTime: body.dataEndTime,
+      reportOptions,
+      scheduleId: specification.scheduleId,
+      status: 'IN_QUEUE',
+      requestedAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    await dbService.saveReportRequest(report);
+    this.reports = [report, ...this.reports];
+    this.notifyListeners();
+
+    this.track(reportId);
+    return report;
+  }
+
+  // Adds reports Amazon's report schedules created for the given types and follows them like
+  // requested ones, so their documents are stored as well
+  public async importScheduledReports(reportTypes: string[]): Promise<number> {
+    if (amazonService.isDemoMode()) return 0;
+
+    const createdSince = new Date(Date.now() - SCHEDULED_REPORT_WINDOW).toISOString();
+    const known = new Set(this.reports.map(report => report.reportId));
+    const imported: ReportRequest[] = [];
+
+    for (let index = 0; index < reportTypes.length; index += REPORT_TYPES_PER_REQUEST) {
+      const reports: Reports.Report[] = [];
+      let nextToken: string | undefined;
+      do {
+        // Further pages are requested with the token alone
+        const page = await amazonService.callEndpoint<SpApiOperationData['reports']['getReports']>(
+          GET_REPORTS_ENDPOINT,
+          nextToken
+            ? { nextToken }
+            : { reportTypes: reportTypes.slice(index, index + REPORT_TYPES_PER_REQUEST), createdSince, pageSize: 100 }
+        );
+        reports.push(...page.reports);
+        nextToken = page.nextToken;
+      } while (nextToken);
+
+      for (const details of reports) {
+        if (!details.reportScheduleId || known.has(details.reportId)) continue;
+
+        const report: ReportRequest = {
+          reportId: details.reportId,
+          profileId: profileService.getActiveProfileId(),
+          reportType: details.reportType,
+          marketplaceIds: details.marketplaceIds ?? [],
+          dataStartTime: details.dataStartTime,
+          dataEndTime: details.dataEndTime,
+          scheduleId: details.reportScheduleId,
+          status: details.processingStatus,
+          requestedAt: Date.parse(details.createdTime),
+          updatedAt: Date.now(),
+          reportDocumentId: details.reportDocumentId
+        };
+        await dbService.saveReportRequest(report);
+        imported.push(report);
+      }
+    }
+
+    if (imported.length > 0) {
+      this.reports = [...imported, ...this.reports].sort((a, b) => b.requestedAt - a.requestedAt);
+      this.notifyListeners();
+      imported.forEach(report => this.track(report.reportId, 0));
+    }
+    return imported.length;
+  }
+
+  // Checks a report again, e.g. after a failed status check or download
+  public refreshReport(reportId: string) {
+    this.track(reportId, 0);
+  }
+
+  public async deleteReport(reportId: string): Promise<void> {
+    this.polling.get(reportId)?.abort();
+    this.polling.delete(reportId);
+
+    await dbService.deleteReportRequest(reportId);
+    this.reports = this.reports.filter(report => report.reportId !== reportId);
+    this.notifyListeners();
+  }
+
+  public getDocument(reportId: string): Promise<ReportDocumentContent | undefined> {
+    return dbService.getReportDocument(reportId);
+  }
+
+  private needsDocument(report: ReportRequest): boolean {
+    return !!report.reportDocumentId && !report.documentStored;
+  }
+
+  // Polls the report until Amazon has finished processing it, then stores its document
+  private async track(reportId: string, firstDelay = INITIAL_POLL_INTERVAL) {
+    if (this.polling.has(reportId)) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.polling.set(reportId, controller);
+    this.notifyListeners();
+    const release = credentialVault.hold();
+
+    try {
+      let interval = firstDelay;
+      while (!FINISHED_STATUSES.includes(this.getReport(reportId).status) || this.getReport(reportId).error) {
+        await sleep(interval, signal);
+        interval = Math.min(Math.max(interval * 2, INITIAL_POLL_INTERVAL), MAX_POLL_INTERVAL);
+
+        const details = await amazonService.callEndpoint<SpApiOperationData['reports']['getReport']>(
+          GET_REPORT_ENDPOINT,
+          { reportId },
+          { signal }
+        );
+        await this.updateReport(reportId, {
+          status: details.processingStatus,
+          reportDocumentId: details.reportDocumentId,
+          error: undefined
+        });
+      }
+
+      if (this.needsDocument(this.getReport(reportId))) {
+        await this.storeDocument(this.getReport(reportId), signal);
+      }
+    } catch (error) {
+      // Cancelled because the report was deleted or the profile switched
+      if (isAbortError(error) || signal.aborted) return;
+
+      console.error(`Failed to retrieve report ${reportId}:`, error);
+      await this.updateReport(reportId, { error: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      release();
+      if (this.polling.get(reportId) === controller) {
+        this.polling.delete(reportId);
+        this.notifyListeners();
+      }
+    }
+  }
+
+  private async storeDocument(report: ReportRequest, signal: AbortSignal) {
+    // The download URL expires after five minutes, so it's requested right before downloading
+    const document = await amazonService.callEndpoint<SpApiOperationData['reports']['getReportDocument'] & DocumentEncoding>(
+      GET_REPORT_DOCUMENT_ENDPOINT,
+      { reportDocumentId: report.reportDocumentId },
+      { signal }
+    );
+    const { bytes, contentType } = await amazonService.downloadDocument(document.url, signal);
+    const contents = await decodeDocument(bytes, document);
+
+    await dbService.saveReportDocument({
+      reportId: report.reportId,
+      ...parseDocument(contents, contentType),
+      size: contents.byteLength,
+      storedAt: Date.now()
+    });
+    await this.updateReport(report.reportId, { documentStored: true });
+  }
+
+  private getReport(reportId: string): ReportRequest {
+    const report = this.reports.find(entry => entry.reportId === reportId);
+    if (!report) {
+      throw new Error(`Unknown report: ${reportId}`);
+    }
+    return report;
+  }
+
+  private async updateReport(reportId: string, changes: Partial<ReportRequest>) {
+    const report = { ...this.getReport(reportId), ...changes, updatedAt: Date.now() };
+    await dbService.saveReportRequest(report);
+    this.reports = this.reports.map(entry => entry.reportId === reportId ? report : entry);
+    this.notifyListeners();
+  }
+
+  public onChange(callback: () => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(listener => listener !== callback);
+    };
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const reportService = new ReportService();
+export default reportService;
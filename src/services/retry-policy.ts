@@ -0,0 +1,108 @@
+
+import { ErrorClass, RetryPolicy } from '../types/amazon-api';
+import { LwaError, ProxyConnectionError, SpApiRequestError, isAbortError } from './amazon-errors';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true
+};
+
+export interface RetryInfo {
+  attempt: number; // The attempt that just failed
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+interface RetryOptions {
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal;
+}
+
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+export function classifyError(error: unknown): ErrorClass {
+  if (error instanceof SpApiRequestError) {
+    return error.status === 429 || error.status >= 500 ? 'transient' : 'permanent';
+  }
+
+  if (error instanceof LwaError) {
+    return error.code === 'server_error' || error.code === 'temporarily_unavailable' ? 'transient' : 'permanent';
+  }
+
+  if (error instanceof ProxyConnectionError) {
+    return 'transient';
+  }
+
+  return 'permanent';
+}
+
+// Parses a Retry-After header, which is either a number of seconds or an HTTP date
+export function parseRetryAfter(headerValue: string | null): number | undefined {
+  if (!headerValue) return undefined;
+
+  const seconds = Number(headerValue);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(headerValue);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+// Exponential backoff with full jitter, unless the server told us how long to wait
+export function getRetryDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+  if (error instanceof SpApiRequestError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
+
+// Resolves after the given time, or rejects as soon as the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs the operation until it succeeds, fails permanently, or runs out of attempts
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  { onRetry, signal }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (isAbortError(error) || attempt >= policy.maxAttempts || classifyError(error) === 'permanent') {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(policy, attempt, error);
+      onRetry?.({ attempt, maxAttempts: policy.maxAttempts, delayMs, error });
+
+      await sleep(delayMs, signal);
+    }
+  }
+}
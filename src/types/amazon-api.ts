@@ -1,25 +1,199 @@
 
+import { Region, getMarketplace } from './marketplaces';
+import { SP_API_OPERATIONS } from './sp-api/operations';
+
 export interface AmazonCredentials {
   clientId: string;
   clientSecret: string;
   refreshToken: string;
+  region?: Region; // Region the refresh token was issued for; defaults to North America
+}
+
+// Data stored before profiles existed belongs to this profile
+export const DEFAULT_PROFILE_ID = 'default';
+
+// A seller account. Credentials are stored separately, encrypted and keyed by the profile id.
+export interface SellerProfile {
+  id: string;
+  name: string;
+  marketplaceIds: string[]; // Marketplaces "Fetch All Data" covers; empty means the selected one only
+  selectedMarketplaceId?: string; // Marketplace shown on the dashboard
+  createdAt: number;
+}
+
+// Credentials as stored at rest: the AES-GCM encrypted JSON of AmazonCredentials,
+// with the key derived from the user's passphrase
+export interface EncryptedCredentials {
+  version: 1;
+  salt: string; // Base64 PBKDF2 salt
+  iterations: number;
+  iv: string; // Base64 AES-GCM nonce
+  ciphertext: string; // Base64
+}
+
+// Records written before encryption was introduced are still plaintext
+export type StoredCredentials = AmazonCredentials | EncryptedCredentials;
+
+// Result of checking credentials with a token exchange and a probe request
+export type CredentialCheckOutcome =
+  | 'valid'
+  | 'invalid-client' // LWA rejected the client ID or secret
+  | 'invalid-grant' // LWA rejected the refresh token, e.g. because it was revoked
+  | 'unauthorized' // The token works, but the SP-API denied the probe request
+  | 'proxy-unreachable'
+  | 'error';
+
+export interface CredentialCheck {
+  outcome: CredentialCheckOutcome;
+  message: string;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Describes how a list operation hands out further pages
+export interface PaginationConfig {
+  requestParam: string; // Query parameter that carries the token, e.g. NextToken
+  tokenPath: string; // Dotted path to the next token in the raw response body
+  itemsPath: string; // Dotted path to the list to merge, relative to the response data
+  nextPageParams?: Record<string, unknown>; // Extra params sent with follow-up requests
+  tokenOnly?: boolean; // Follow-up requests must carry the token and nothing else
+  maxPages?: number; // Overrides the service-wide page limit
+}
+
+// An endpoint that needs ids from another endpoint's data, e.g. order items need order ids.
+// Fetch All Data fetches the parent first and sends one request per id, or per batch of ids.
+export interface EndpointDependency {
+  endpointId: string; // Parent endpoint
+  valuesPath: string; // Dotted path to the ids in the parent's data; lists along the way are stepped into
+  param: string; // Parameter or path placeholder that receives the ids
+  batchSize?: number; // Ids per request for list parameters; one request per id when missing
+  maxRequests?: number; // Overrides the service-wide fan-out limit
+  // Further params taken from the object holding each id, by path relative to it, e.g. a listing's
+  // price next to its SKU; only for one request per id
+  valueParams?: Record<string, string>;
+}
+
+// One request of a fan-out: the ids it was sent for and what came back
+export interface FanOutResult {
+  values: string[];
+  data?: unknown;
+  error?: string;
+}
+
+// SP-API usage plan of an operation: sustained requests per second and burst size
+export interface RateLimit {
+  rate: number;
+  burst: number;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  baseDelayMs: number; // Delay before the first retry, doubled for every further one
+  maxDelayMs: number;
+  jitter: boolean; // Randomize delays so parallel retries don't line up
+}
+
+// Operations that return personally identifiable information only when called with a
+// Restricted Data Token for the endpoint's path
+export interface RestrictedDataConfig {
+  dataElements?: string[]; // Restricted data elements to request, e.g. buyerInfo
+}
+
+// requested: fetched with a Restricted Data Token, so PII is included;
+// redacted: the token was denied and Amazon left the PII out
+export type PiiStatus = 'requested' | 'redacted';
+
+// How a parameter is edited: marketplace(s) pick from the known marketplaces, list is comma-separated text,
+// interval is two dates joined by --
+export type ParamFieldType = 'text' | 'number' | 'boolean' | 'date' | 'interval' | 'select' | 'multi-select' | 'list' | 'marketplace' | 'marketplaces';
+
+// A parameter shown in the endpoint's parameter editor; validated with a zod schema built from these fields
+export interface ParamField {
+  name: string; // Query parameter name
+  label: string;
+  type: ParamFieldType;
+  required?: boolean;
+  options?: string[]; // Choices of select and multi-select fields
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
+// An SP-API operation as described by the models in vendor/sp-api-models, generated into
+// src/types/sp-api by `npm run generate:sp-api`
+export interface SpApiOperation {
+  operationId: string;
+  path: string;
+  method: HttpMethod;
+  paramFields: ParamField[];
+  rateLimit?: RateLimit; // Usage plan from the operation's documentation
+  hasBody?: boolean; // Takes a JSON request body
 }
 
+// Transient failures (throttling, 5xx, network) may succeed later; permanent ones won't
+export type ErrorClass = 'transient' | 'permanent';
+
 export interface ApiEndpoint {
   id: string;
   name: string;
   description: string;
   endpoint: string;
+  method?: HttpMethod; // Defaults to GET
+  operation?: string; // Generated operation the endpoint calls, e.g. ordersV0.getOrders
   requiresParams: boolean;
   defaultParams?: Record<string, any>;
+  requestBody?: Record<string, unknown>; // JSON body sent with every request
+  // Builds the JSON body from the params of each request, returning the params left for the query
+  buildRequestBody?: (params: Record<string, unknown>) => { body: Record<string, unknown>; params: Record<string, unknown> };
+  paramFields?: ParamField[]; // Editable parameters; inferred from defaultParams when missing
+  pagination?: PaginationConfig;
+  dependsOn?: EndpointDependency;
+  rateLimit?: RateLimit; // Default usage plan, adapted at runtime from response headers
+  rateLimitKey?: string; // Endpoints calling the same operation share one bucket; defaults to id
+  retryPolicy?: Partial<RetryPolicy>; // Overrides DEFAULT_RETRY_POLICY
+  restrictedData?: RestrictedDataConfig;
+  role?: string; // SP-API role the application needs, for operations not open to every role
+  responseRoot?: string; // Dotted path to the data in the response body; defaults to `payload` when present
+  custom?: boolean; // Created by the user rather than built in
+  manual?: boolean; // Needs an id entered in the parameter editor, so it's only fetched from its card
+}
+
+// Custom endpoint ids carry this prefix so they can't collide with built-in ones
+export const CUSTOM_ENDPOINT_PREFIX = 'custom-';
+
+// Whether the active profile's application may call an endpoint, as last observed
+export interface EndpointAvailability {
+  status: 'available' | 'unauthorized';
+  checkedAt: number;
+  message?: string; // Amazon's explanation when access was denied
+}
+
+// A single entry of the `errors` array in an SP-API response
+export interface SpApiError {
+  code: string;
+  message: string;
+  details?: string;
 }
 
 export interface ApiResponse {
   endpointId: string;
-  data: any;
+  data: unknown; // The operation's response (see SpApiOperationData), a FanOutResult list after a fan-out, or null
   timestamp: number;
   success: boolean;
   error?: string;
+  statusCode?: number;
+  errors?: SpApiError[];
+  demo?: boolean; // True when the data came from the mock generator
+  pageCount?: number; // Number of pages merged into data
+  truncated?: boolean; // More pages, or more fan-out ids, were available than the limit allowed
+  fanOutCount?: number; // Requests sent for the parent's ids; data is then a FanOutResult list
+  skipped?: boolean; // Nothing was requested because the parent's data held no ids
+  attempts?: number; // Requests sent, including retries
+  errorClass?: ErrorClass;
+  marketplaceId?: string; // Marketplace the request targeted, if the operation is marketplace-scoped
+  pii?: PiiStatus; // Set for endpoints that need a Restricted Data Token
+  profileId?: string; // Seller profile the data belongs to
+  params?: Record<string, unknown>; // Parameters the request was sent with
   id?: string; // Add the id field that's used in the database service
 }
 
@@ -35,14 +209,149 @@ export interface ProgressStatus {
   currentEndpoint: string;
   progress: number;
   total: number;
-  status: 'idle' | 'running' | 'completed' | 'error';
+  status: 'idle' | 'running' | 'completed' | 'cancelled' | 'error';
   message?: string;
+  page?: number; // Page currently being fetched for paginated endpoints
+  inFlight?: string[]; // Names of the endpoints currently being fetched
 }
 
 export interface HistoricalSnapshot {
   id: string;
   date: number;
   responseIds: string[];
+  profileId?: string;
+}
+
+// Bookkeeping for a "Fetch All Data" run, persisted so an interrupted run can be resumed.
+// A job is one endpoint for one marketplace, keyed `endpointId@marketplaceId`, or just
+// `endpointId` for operations that aren't marketplace-scoped.
+export interface FetchRun {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  status: 'running' | 'cancelled' | 'incomplete'; // incomplete: finished with jobs left to retry
+  profileId: string;
+  endpointIds: string[];
+  marketplaceIds: string[];
+  totalJobs: number;
+  completedJobs: string[];
+  responseIds: Record<string, string>; // Stored response per completed job
+}
+
+export type ReportProcessingStatus = 'IN_QUEUE' | 'IN_PROGRESS' | 'DONE' | 'FATAL' | 'CANCELLED';
+
+// A report requested through the Reports API, tracked until Amazon has processed it and its
+// document is stored
+export interface ReportRequest {
+  reportId: string;
+  profileId: string;
+  reportType: string;
+  marketplaceIds: string[];
+  dataStartTime?: string;
+  dataEndTime?: string;
+  reportOptions?: Record<string, string>;
+  scheduleId?: string; // Amazon report schedule or local schedule that created the report
+  status: ReportProcessingStatus;
+  requestedAt: number;
+  updatedAt: number;
+  reportDocumentId?: string;
+  documentStored?: boolean; // The document was downloaded, decoded and stored
+  error?: string; // Why checking the report or retrieving its document failed
+}
+
+// A report the app requests again at a fixed interval while it is open, for report types or date
+// ranges an Amazon report schedule doesn't cover
+export interface LocalReportSchedule {
+  id: string;
+  profileId: string;
+  reportType: string;
+  marketplaceIds: string[];
+  reportOptions?: Record<string, string>;
+  dataStartTime?: string; // Relative expression such as now-1d, resolved for every request
+  dataEndTime?: string;
+  period: string; // ISO 8601 period, one of REPORT_PERIODS
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastError?: string; // Why the last request failed
+  createdAt: number;
+}
+
+// Contents of a report document. FATAL reports may come with a document describing the problem
+export interface ReportDocumentContent {
+  reportId: string;
+  format: 'json' | 'table' | 'text';
+  data: unknown; // Parsed JSON, the rows of a flat file (see utils/flat-file), or other text
+  encoding?: string; // Character encoding the document was decoded with
+  size: number; // Decoded size in bytes
+  storedAt: number;
+}
+
+// A problem Amazon found with one record of a feed, or with the feed as a whole
+export interface FeedIssue {
+  recordId?: number; // Message id of JSON and XML feeds, row number of flat files
+  sku?: string;
+  severity: 'ERROR' | 'WARNING' | 'INFO';
+  code: string;
+  message: string;
+  attribute?: string; // Listing attribute the issue is about
+}
+
+// Outcome of a feed, parsed from its processing report
+export interface FeedProcessingResult {
+  processed?: number;
+  accepted?: number;
+  invalid?: number;
+  errors?: number;
+  warnings?: number;
+  issues: FeedIssue[];
+  text?: string; // The report itself when its format isn't recognized
+}
+
+// A price or quantity change made in the bulk editor, kept with its feed to map the result back to the listing
+export interface ListingChange {
+  sku: string;
+  productType: string;
+  currency?: string;
+  price?: { from?: number; to: number };
+  quantity?: { from?: number; to: number };
+}
+
+// A feed submitted through the Feeds API, tracked until Amazon has processed it and its
+// processing report is parsed
+export interface FeedSubmission {
+  feedId: string;
+  profileId: string;
+  feedType: string;
+  marketplaceIds: string[];
+  recordCount: number;
+  skus: Record<number, string>; // By record id, to name the SKU of an issue
+  changes?: ListingChange[]; // Set for feeds generated by the bulk editor
+  status: ReportProcessingStatus;
+  submittedAt: number;
+  updatedAt: number;
+  resultFeedDocumentId?: string;
+  result?: FeedProcessingResult;
+  error?: string; // Why checking the feed or retrieving its processing report failed
+}
+
+type SpApiOperations = typeof SP_API_OPERATIONS;
+
+// Path, method, parameters and usage plan of a generated SP-API operation. Overrides adjust
+// individual parameter fields, e.g. to offer choices the model only describes in prose.
+export function fromOperation<Api extends keyof SpApiOperations>(
+  api: Api,
+  operationId: keyof SpApiOperations[Api] & string,
+  overrides: Record<string, Partial<ParamField>> = {}
+): Pick<ApiEndpoint, 'operation' | 'endpoint' | 'method' | 'paramFields' | 'rateLimit'> {
+  const operation = SP_API_OPERATIONS[api][operationId] as SpApiOperation;
+
+  return {
+    operation: `${api}.${operationId}`,
+    endpoint: operation.path,
+    method: operation.method,
+    paramFields: operation.paramFields.map(field => ({ ...field, ...overrides[field.name] })),
+    rateLimit: operation.rateLimit
+  };
 }
 
 export const API_ENDPOINTS: ApiEndpoint[] = [
@@ -50,57 +359,123 @@ export const API_ENDPOINTS: ApiEndpoint[] = [
     id: 'listings-items',
     name: 'Listings Items',
     description: 'Get detailed information about your Amazon listings',
-    endpoint: '/listings/2021-08-01/items',
-    requiresParams: false
+    ...fromOperation('listingsItems', 'searchListingsItems'),
+    role: 'Product Listing',
+    requiresParams: true,
+    defaultParams: {
+      // sellerId (the merchant token) has to be entered in the parameter editor
+      marketplaceIds: ['ATVPDKIKX0DER'], // US marketplace
+      includedData: ['summaries', 'offers', 'fulfillmentAvailability']
+    },
+    pagination: {
+      requestParam: 'pageToken',
+      tokenPath: 'pagination.nextToken',
+      itemsPath: 'items'
+    }
   },
   {
     id: 'orders',
     name: 'Orders',
     description: 'Get order information from Amazon',
-    endpoint: '/orders/v0/orders',
+    ...fromOperation('ordersV0', 'getOrders'),
+    role: 'Inventory and Order Tracking',
     requiresParams: true,
     defaultParams: {
       MarketplaceIds: ['ATVPDKIKX0DER'], // US marketplace
-      CreatedAfter: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString() // Last 30 days
-    }
+      CreatedAfter: 'now-30d' // Last 30 days, resolved when the request is sent
+    },
+    pagination: {
+      requestParam: 'NextToken',
+      tokenPath: 'payload.NextToken',
+      itemsPath: 'Orders'
+    },
+    restrictedData: { dataElements: ['buyerInfo', 'shippingAddress'] }
+  },
+  {
+    id: 'order-items',
+    name: 'Order Items',
+    description: 'Get the items of your orders',
+    ...fromOperation('ordersV0', 'getOrderItems'),
+    role: 'Inventory and Order Tracking',
+    requiresParams: true,
+    pagination: {
+      requestParam: 'NextToken',
+      tokenPath: 'payload.NextToken',
+      itemsPath: 'OrderItems'
+    },
+    dependsOn: { endpointId: 'orders', valuesPath: 'Orders.AmazonOrderId', param: 'orderId' }
   },
   {
     id: 'finances',
     name: 'Finances',
     description: 'Get financial information about your Amazon account',
-    endpoint: '/finances/v0/financialEvents',
-    requiresParams: false
+    ...fromOperation('financesV0', 'listFinancialEvents'),
+    role: 'Finance and Accounting',
+    requiresParams: false,
+    pagination: {
+      requestParam: 'NextToken',
+      tokenPath: 'payload.NextToken',
+      itemsPath: 'FinancialEvents'
+    }
   },
   {
     id: 'inventory',
     name: 'Inventory',
     description: 'Get inventory information',
-    endpoint: '/fba/inventory/v1/summaries',
+    ...fromOperation('fbaInventory', 'getInventorySummaries', {
+      granularityId: { label: 'Marketplace', type: 'marketplace' }
+    }),
+    role: 'Amazon Fulfillment',
     requiresParams: true,
     defaultParams: {
       granularityType: 'Marketplace',
-      granularityId: 'ATVPDKIKX0DER' // US marketplace
-    }
+      granularityId: 'ATVPDKIKX0DER', // US marketplace
+      marketplaceIds: ['ATVPDKIKX0DER']
+    },
+    pagination: {
+      requestParam: 'nextToken',
+      tokenPath: 'pagination.nextToken',
+      itemsPath: 'inventorySummaries'
+    },
+    rateLimitKey: 'getInventorySummaries'
   },
   {
     id: 'catalog-items',
     name: 'Catalog Items',
     description: 'Search for items in the Amazon catalog',
-    endpoint: '/catalog/v0/items',
+    ...fromOperation('catalogItems', 'searchCatalogItems'),
+    role: 'Product Listing',
     requiresParams: true,
     defaultParams: {
-      MarketplaceId: 'ATVPDKIKX0DER', // US marketplace
-      IncludeQuantity: true,
+      // Searches need either keywords or identifiers, entered in the parameter editor
+      marketplaceIds: ['ATVPDKIKX0DER'], // US marketplace
+      includedData: ['summaries', 'salesRanks']
+    },
+    pagination: {
+      requestParam: 'pageToken',
+      tokenPath: 'pagination.nextToken',
+      itemsPath: 'items'
     }
   },
   {
     id: 'reports',
     name: 'Reports',
     description: 'Get report information from Amazon',
-    endpoint: '/reports/2021-06-30/reports',
+    ...fromOperation('reports', 'getReports', {
+      reportTypes: {
+        type: 'multi-select',
+        options: ['GET_FLAT_FILE_OPEN_LISTINGS_DATA', 'GET_MERCHANT_LISTINGS_ALL_DATA', 'GET_FBA_MYI_UNSUPPRESSED_INVENTORY_DATA', 'GET_FLAT_FILE_ALL_ORDERS_DATA_BY_ORDER_DATE_GENERAL', 'GET_V2_SETTLEMENT_REPORT_DATA_FLAT_FILE']
+      }
+    }),
     requiresParams: true,
     defaultParams: {
       reportTypes: ['GET_FLAT_FILE_OPEN_LISTINGS_DATA']
+    },
+    pagination: {
+      requestParam: 'nextToken',
+      tokenPath: 'nextToken',
+      itemsPath: 'reports',
+      tokenOnly: true
     }
   },
   // Adding additional SP-API endpoints
@@ -108,124 +483,208 @@ export const API_ENDPOINTS: ApiEndpoint[] = [
     id: 'fba-inbound-eligibility',
     name: 'FBA Inbound Eligibility',
     description: 'Check FBA inbound eligibility for products',
-    endpoint: '/fba/inbound/v1/eligibility/inbound',
+    ...fromOperation('fbaInboundEligibility', 'getItemEligibilityPreview'),
+    role: 'Amazon Fulfillment',
     requiresParams: true,
     defaultParams: {
-      MarketplaceIds: ['ATVPDKIKX0DER'], // US marketplace
+      marketplaceIds: ['ATVPDKIKX0DER'], // US marketplace
+      program: 'INBOUND'
     }
   },
   {
     id: 'fba-inventory-age',
     name: 'FBA Inventory Age',
     description: 'Get FBA inventory age information',
-    endpoint: '/fba/inventory/v1/inventory/summaries',
+    ...fromOperation('fbaInventory', 'getInventorySummaries', {
+      granularityId: { label: 'Marketplace', type: 'marketplace' }
+    }),
+    role: 'Amazon Fulfillment',
     requiresParams: true,
     defaultParams: {
       details: true,
       granularityType: 'Marketplace',
-      granularityId: 'ATVPDKIKX0DER' // US marketplace
-    }
+      granularityId: 'ATVPDKIKX0DER', // US marketplace
+      marketplaceIds: ['ATVPDKIKX0DER']
+    },
+    pagination: {
+      requestParam: 'nextToken',
+      tokenPath: 'pagination.nextToken',
+      itemsPath: 'inventorySummaries'
+    },
+    rateLimitKey: 'getInventorySummaries'
   },
   {
     id: 'product-fees',
     name: 'Product Fees',
     description: 'Get Amazon fees for products',
-    endpoint: '/products/fees/v0/listings/2020-12-01/items/fees',
+    ...fromOperation('productFeesV0', 'getMyFeesEstimateForSKU'),
+    role: 'Pricing',
     requiresParams: true,
     defaultParams: {
       MarketplaceId: 'ATVPDKIKX0DER' // US marketplace
+    },
+    // Fees are estimated for the SKU's own price and fulfillment channel in the marketplace
+    buildRequestBody: ({ MarketplaceId, ListingPrice, CurrencyCode, FulfillmentChannel, ...params }) => {
+      const amount = Number(ListingPrice);
+      const currency = CurrencyCode ?? getMarketplace(String(MarketplaceId))?.currency;
+      if (ListingPrice === undefined || Number.isNaN(amount) || !currency) {
+        throw new Error('The listing has no price in this marketplace');
+      }
+
+      return {
+        body: {
+          FeesEstimateRequest: {
+            MarketplaceId,
+            IsAmazonFulfilled: typeof FulfillmentChannel === 'string' && FulfillmentChannel !== 'DEFAULT',
+            PriceToEstimateFees: {
+              ListingPrice: { CurrencyCode: currency, Amount: amount }
+            },
+            Identifier: `fees-estimate-${params.SellerSKU}`
+          }
+        },
+        params
+      };
+    },
+    dependsOn: {
+      endpointId: 'listings-items',
+      valuesPath: 'items.sku',
+      param: 'SellerSKU',
+      valueParams: {
+        ListingPrice: 'offers.price.amount',
+        CurrencyCode: 'offers.price.currencyCode',
+        FulfillmentChannel: 'fulfillmentAvailability.fulfillmentChannelCode'
+      }
     }
   },
   {
     id: 'product-pricing',
     name: 'Product Pricing',
     description: 'Get pricing information for products',
-    endpoint: '/products/pricing/v0/price',
+    ...fromOperation('productPricingV0', 'getPricing'),
+    role: 'Pricing',
     requiresParams: true,
     defaultParams: {
-      MarketplaceId: 'ATVPDKIKX0DER' // US marketplace
-    }
+      MarketplaceId: 'ATVPDKIKX0DER', // US marketplace
+      ItemType: 'Asin'
+    },
+    dependsOn: { endpointId: 'listings-items', valuesPath: 'items.summaries.asin', param: 'Asins', batchSize: 20 }
   },
   {
     id: 'sales-analytics',
     name: 'Sales Analytics',
     description: 'Get sales analytics data',
-    endpoint: '/sales/v1/orderMetrics',
+    ...fromOperation('sales', 'getOrderMetrics', {
+      interval: { type: 'interval' }
+    }),
+    role: 'Selling Partner Insights',
     requiresParams: true,
     defaultParams: {
       marketplaceIds: ['ATVPDKIKX0DER'],
-      interval: 'DAY',
-      granularity: 'TOTAL',
-      startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-      endDate: new Date().toISOString()
+      interval: 'now-30d--now', // Last 30 days, resolved when the request is sent
+      granularity: 'Total',
+      granularityTimeZone: 'America/Los_Angeles' // Set to the zone of the marketplace fetched
     }
   },
   {
     id: 'shipping',
     name: 'Shipping',
     description: 'Get shipping information',
-    endpoint: '/shipping/v1/shipments',
+    ...fromOperation('shipping', 'getShipment'),
+    role: 'Direct-to-Consumer Shipping',
     requiresParams: true,
-    defaultParams: {
-      marketplaceId: 'ATVPDKIKX0DER',
-      limit: 20
-    }
+    restrictedData: {},
+    // No operation lists shipment ids to fan out over
+    manual: true
   },
   {
     id: 'seller-account',
     name: 'Seller Account',
     description: 'Get seller account information',
-    endpoint: '/sellers/v1/marketplaceParticipations',
+    ...fromOperation('sellers', 'getMarketplaceParticipations'),
     requiresParams: false
   },
   {
     id: 'fulfillment-inbound',
     name: 'Fulfillment Inbound',
     description: 'Get inbound shipment data',
-    endpoint: '/fba/inbound/v0/shipments',
+    ...fromOperation('fulfillmentInboundV0', 'getShipments'),
+    role: 'Amazon Fulfillment',
     requiresParams: true,
     defaultParams: {
+      MarketplaceId: 'ATVPDKIKX0DER', // US marketplace
       ShipmentStatusList: ['WORKING', 'SHIPPED', 'IN_TRANSIT', 'DELIVERED', 'CHECKED_IN', 'RECEIVING', 'CLOSED', 'CANCELLED'],
       QueryType: 'SHIPMENT'
+    },
+    pagination: {
+      requestParam: 'NextToken',
+      tokenPath: 'payload.NextToken',
+      itemsPath: 'ShipmentData',
+      nextPageParams: { QueryType: 'NEXT_TOKEN' }
     }
   },
+  {
+    id: 'inbound-shipment-items',
+    name: 'Inbound Shipment Items',
+    description: 'Get the items of inbound shipments',
+    ...fromOperation('fulfillmentInboundV0', 'getShipmentItemsByShipmentId'),
+    role: 'Amazon Fulfillment',
+    requiresParams: true,
+    defaultParams: {
+      MarketplaceId: 'ATVPDKIKX0DER' // US marketplace
+    },
+    // Returns all items of the shipment at once; the operation takes no NextToken
+    dependsOn: { endpointId: 'fulfillment-inbound', valuesPath: 'ShipmentData.ShipmentId', param: 'shipmentId' }
+  },
   {
     id: 'fulfillment-outbound',
     name: 'Fulfillment Outbound',
     description: 'Get outbound fulfillment data',
-    endpoint: '/fba/outbound/v0/fulfillments/orders',
-    requiresParams: true,
-    defaultParams: {
-      MarketplaceId: 'ATVPDKIKX0DER',
-      limit: 20
+    ...fromOperation('fulfillmentOutbound', 'listAllFulfillmentOrders'),
+    role: 'Amazon Fulfillment',
+    requiresParams: false,
+    pagination: {
+      requestParam: 'nextToken',
+      tokenPath: 'payload.nextToken',
+      itemsPath: 'fulfillmentOrders'
     }
   },
   {
     id: 'notifications',
     name: 'Notifications',
     description: 'Get notifications from Amazon',
-    endpoint: '/notifications/v1/destinations',
+    ...fromOperation('notifications', 'getDestinations'),
     requiresParams: false
   },
   {
     id: 'merchant-fulfillment',
     name: 'Merchant Fulfillment',
     description: 'Get merchant fulfillment shipping data',
-    endpoint: '/mfn/v0/shipments',
+    ...fromOperation('merchantFulfillmentV0', 'getShipment'),
+    role: 'Direct-to-Consumer Shipping',
     requiresParams: true,
-    defaultParams: {
-      MarketplaceId: 'ATVPDKIKX0DER',
-      ShipmentStatusList: ['WORKING', 'SHIPPED']
-    }
+    restrictedData: {},
+    // No operation lists shipment ids to fan out over
+    manual: true
   },
   {
     id: 'feeds',
     name: 'Feeds',
     description: 'Get Amazon feed information',
-    endpoint: '/feeds/2021-06-30/feeds',
+    ...fromOperation('feeds', 'getFeeds', {
+      feedTypes: {
+        type: 'multi-select',
+        options: ['POST_PRODUCT_DATA', 'POST_INVENTORY_AVAILABILITY_DATA', 'POST_PRODUCT_PRICING_DATA', 'POST_ORDER_FULFILLMENT_DATA', 'JSON_LISTINGS_FEED']
+      }
+    }),
     requiresParams: true,
     defaultParams: {
       feedTypes: ['POST_PRODUCT_DATA']
+    },
+    pagination: {
+      requestParam: 'nextToken',
+      tokenPath: 'nextToken',
+      itemsPath: 'feeds',
+      tokenOnly: true
     }
   }
 ];
@@ -0,0 +1,96 @@
+export type FeedFormat = 'json' | 'flat-file' | 'xml';
+
+export interface FeedTypeInfo {
+  type: string;
+  name: string;
+  description: string;
+  format: FeedFormat;
+  contentType: string; // Content type the feed document is created and uploaded with
+  template: string; // Starting point for the feed content
+}
+
+const XML_HEADER = `<?xml version="1.0" encoding="UTF-8"?>
+<AmazonEnvelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="amzn-envelope.xsd">
+  <Header>
+    <DocumentVersion>1.01</DocumentVersion>
+    <MerchantIdentifier>SELLER_ID</MerchantIdentifier>
+  </Header>`;
+
+export const FEED_TYPES: FeedTypeInfo[] = [
+  {
+    type: 'JSON_LISTINGS_FEED',
+    name: 'Listings (JSON)',
+    description: 'Create, update or delete listings; patches can change prices, quantities and any other attribute',
+    format: 'json',
+    contentType: 'application/json; charset=UTF-8',
+    template: JSON.stringify({
+      header: { sellerId: 'SELLER_ID', version: '2.0', issueLocale: 'en_US' },
+      messages: [
+        {
+          messageId: 1,
+          sku: 'SKU',
+          operationType: 'PATCH',
+          productType: 'PRODUCT',
+          patches: [
+            {
+              op: 'replace',
+              path: '/attributes/fulfillment_availability',
+              value: [{ fulfillment_channel_code: 'DEFAULT', quantity: 10 }]
+            }
+          ]
+        }
+      ]
+    }, null, 2)
+  },
+  {
+    type: 'POST_FLAT_FILE_PRICEANDQUANTITYONLY_UPDATE_DATA',
+    name: 'Price and Quantity (flat file)',
+    description: 'Update the prices and quantities of existing listings, one SKU per row',
+    format: 'flat-file',
+    contentType: 'text/tab-separated-values; charset=UTF-8',
+    template: 'sku\tprice\tquantity\thandling-time\nSKU\t19.99\t10\t2'
+  },
+  {
+    type: 'POST_INVENTORY_AVAILABILITY_DATA',
+    name: 'Inventory (XML)',
+    description: 'Update the quantities of merchant-fulfilled listings',
+    format: 'xml',
+    contentType: 'text/xml; charset=UTF-8',
+    template: `${XML_HEADER}
+  <MessageType>Inventory</MessageType>
+  <Message>
+    <MessageID>1</MessageID>
+    <OperationType>Update</OperationType>
+    <Inventory>
+      <SKU>SKU</SKU>
+      <Quantity>10</Quantity>
+    </Inventory>
+  </Message>
+</AmazonEnvelope>`
+  },
+  {
+    type: 'POST_PRODUCT_PRICING_DATA',
+    name: 'Pricing (XML)',
+    description: 'Update the prices of listings',
+    format: 'xml',
+    contentType: 'text/xml; charset=UTF-8',
+    template: `${XML_HEADER}
+  <MessageType>Price</MessageType>
+  <Message>
+    <MessageID>1</MessageID>
+    <Price>
+      <SKU>SKU</SKU>
+      <StandardPrice currency="USD">19.99</StandardPrice>
+    </Price>
+  </Message>
+</AmazonEnvelope>`
+  }
+];
+
+export function getFeedType(type: string): FeedTypeInfo | undefined {
+  return FEED_TYPES.find(feedType => feedType.type === type);
+}
+
+export function getFeedTypeName(type: string): string {
+  return getFeedType(type)?.name ?? type;
+}
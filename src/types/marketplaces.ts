@@ -0,0 +1,148 @@
+
+export type Region = 'na' | 'eu' | 'fe';
+
+export interface RegionInfo {
+  id: Region;
+  name: string;
+  host: string; // SP-API endpoint the proxy forwards to
+  defaultMarketplaceId: string;
+}
+
+export interface Marketplace {
+  id: string;
+  name: string;
+  countryCode: string;
+  region: Region;
+  currency: string;
+  language: string;
+  timeZone: string; // IANA zone that relative dates such as "yesterday" are resolved in
+}
+
+export const REGIONS: Record<Region, RegionInfo> = {
+  na: {
+    id: 'na',
+    name: 'North America',
+    host: 'sellingpartnerapi-na.amazon.com',
+    defaultMarketplaceId: 'ATVPDKIKX0DER'
+  },
+  eu: {
+    id: 'eu',
+    name: 'Europe',
+    host: 'sellingpartnerapi-eu.amazon.com',
+    defaultMarketplaceId: 'A1F83G8C2ARO7P'
+  },
+  fe: {
+    id: 'fe',
+    name: 'Far East',
+    host: 'sellingpartnerapi-fe.amazon.com',
+    defaultMarketplaceId: 'A1VC38T7YXB528'
+  }
+};
+
+export const DEFAULT_REGION: Region = 'na';
+
+export const MARKETPLACES: Marketplace[] = [
+  // North America
+  { id: 'ATVPDKIKX0DER', name: 'Amazon.com', countryCode: 'US', region: 'na', currency: 'USD', language: 'en_US', timeZone: 'America/Los_Angeles' },
+  { id: 'A2EUQ1WTGCTBG2', name: 'Amazon.ca', countryCode: 'CA', region: 'na', currency: 'CAD', language: 'en_CA', timeZone: 'America/Toronto' },
+  { id: 'A1AM78C64UM0Y8', name: 'Amazon.com.mx', countryCode: 'MX', region: 'na', currency: 'MXN', language: 'es_MX', timeZone: 'America/Mexico_City' },
+  { id: 'A2Q3Y263D00KWC', name: 'Amazon.com.br', countryCode: 'BR', region: 'na', currency: 'BRL', language: 'pt_BR', timeZone: 'America/Sao_Paulo' },
+  // Europe
+  { id: 'A1F83G8C2ARO7P', name: 'Amazon.co.uk', countryCode: 'GB', region: 'eu', currency: 'GBP', language: 'en_GB', timeZone: 'Europe/London' },
+  { id: 'A1PA6795UKMFR9', name: 'Amazon.de', countryCode: 'DE', region: 'eu', currency: 'EUR', language: 'de_DE', timeZone: 'Europe/Berlin' },
+  { id: 'A13V1IB3VIYZZH', name: 'Amazon.fr', countryCode: 'FR', region: 'eu', currency: 'EUR', language: 'fr_FR', timeZone: 'Europe/Paris' },
+  { id: 'APJ6JRA9NG5V4', name: 'Amazon.it', countryCode: 'IT', region: 'eu', currency: 'EUR', language: 'it_IT', timeZone: 'Europe/Rome' },
+  { id: 'A1RKKUPIHCS9HS', name: 'Amazon.es', countryCode: 'ES', region: 'eu', currency: 'EUR', language: 'es_ES', timeZone: 'Europe/Madrid' },
+  { id: 'A1805IZSGTT6HS', name: 'Amazon.nl', countryCode: 'NL', region: 'eu', currency: 'EUR', language: 'nl_NL', timeZone: 'Europe/Amsterdam' },
+  { id: 'A2NODRKZP88ZB9', name: 'Amazon.se', countryCode: 'SE', region: 'eu', currency: 'SEK', language: 'sv_SE', timeZone: 'Europe/Stockholm' },
+  { id: 'A1C3SOZRARQ6R3', name: 'Amazon.pl', countryCode: 'PL', region: 'eu', currency: 'PLN', language: 'pl_PL', timeZone: 'Europe/Warsaw' },
+  { id: 'AMEN7PMS3EDWL', name: 'Amazon.com.be', countryCode: 'BE', region: 'eu', currency: 'EUR', language: 'fr_BE', timeZone: 'Europe/Brussels' },
+  { id: 'A33AVAJ2PDY3EV', name: 'Amazon.com.tr', countryCode: 'TR', region: 'eu', currency: 'TRY', language: 'tr_TR', timeZone: 'Europe/Istanbul' },
+  { id: 'A2VIGQ35RCS4UG', name: 'Amazon.ae', countryCode: 'AE', region: 'eu', currency: 'AED', language: 'en_AE', timeZone: 'Asia/Dubai' },
+  { id: 'A17E79C6D8DWNP', name: 'Amazon.sa', countryCode: 'SA', region: 'eu', currency: 'SAR', language: 'ar_SA', timeZone: 'Asia/Riyadh' },
+  { id: 'ARBP9OOSHTCHU', name: 'Amazon.eg', countryCode: 'EG', region: 'eu', currency: 'EGP', language: 'ar_EG', timeZone: 'Africa/Cairo' },
+  { id: 'A21TJRUUN4KGV', name: 'Amazon.in', countryCode: 'IN', region: 'eu', currency: 'INR', language: 'en_IN', timeZone: 'Asia/Kolkata' },
+  // Far East
+  { id: 'A1VC38T7YXB528', name: 'Amazon.co.jp', countryCode: 'JP', region: 'fe', currency: 'JPY', language: 'ja_JP', timeZone: 'Asia/Tokyo' },
+  { id: 'A39IBJ37TRP1C6', name: 'Amazon.com.au', countryCode: 'AU', region: 'fe', currency: 'AUD', language: 'en_AU', timeZone: 'Australia/Sydney' },
+  { id: 'A19VAU5U5O7RUS', name: 'Amazon.sg', countryCode: 'SG', region: 'fe', currency: 'SGD', language: 'en_SG', timeZone: 'Asia/Singapore' }
+];
+
+export function getMarketplace(marketplaceId: string): Marketplace | undefined {
+  return MARKETPLACES.find(marketplace => marketplace.id === marketplaceId);
+}
+
+export function getMarketplacesByRegion(region: Region): Marketplace[] {
+  return MARKETPLACES.filter(marketplace => marketplace.region === region);
+}
+
+interface MarketplaceParticipation {
+  marketplace?: { id?: string };
+  participation?: { isParticipating?: boolean };
+}
+
+// Marketplaces the seller participates in, from getMarketplaceParticipations data.
+// Accepts the bare payload array as well as `{ marketplaceParticipations }`; unknown marketplace IDs are skipped.
+export function getParticipatingMarketplaces(data: unknown): Marketplace[] {
+  const participations: unknown = Array.isArray(data)
+    ? data
+    : (data as { marketplaceParticipations?: unknown } | null)?.marketplaceParticipations;
+  if (!Array.isArray(participations)) return [];
+
+  return (participations as MarketplaceParticipation[])
+    .filter(entry => entry?.participation?.isParticipating && entry.marketplace?.id)
+    .map(entry => getMarketplace(entry.marketplace!.id!))
+    .filter((marketplace): marketplace is Marketplace => !!marketplace);
+}
+
+// Query parameters through which SP-API operations select a marketplace
+const SINGLE_MARKETPLACE_PARAMS = ['MarketplaceId', 'marketplaceId'];
+const MARKETPLACE_LIST_PARAMS = ['MarketplaceIds', 'marketplaceIds'];
+
+// Whether the operation's parameters select a marketplace
+export function isMarketplaceScoped(params?: Record<string, unknown>): boolean {
+  if (!params) return false;
+
+  return [...SINGLE_MARKETPLACE_PARAMS, ...MARKETPLACE_LIST_PARAMS].some(key => key in params)
+    || params.granularityType === 'Marketplace';
+}
+
+// Returns a copy of the params pointed at the given marketplace
+export function applyMarketplace(params: Record<string, unknown>, marketplaceId: string): Record<string, unknown> {
+  const result = { ...params };
+
+  SINGLE_MARKETPLACE_PARAMS.forEach(key => {
+    if (key in result) result[key] = marketplaceId;
+  });
+  MARKETPLACE_LIST_PARAMS.forEach(key => {
+    if (key in result) result[key] = [marketplaceId];
+  });
+  if (result.granularityType === 'Marketplace') {
+    result.granularityId = marketplaceId;
+  }
+  // Sales metrics are grouped by days in the marketplace's own zone
+  if ('granularityTimeZone' in result) {
+    result.granularityTimeZone = getParamsTimeZone(result, marketplaceId);
+  }
+
+  return result;
+}
+
+// Marketplaces the params currently point at
+export function getParamMarketplaceIds(params?: Record<string, unknown>): string[] {
+  if (!params) return [];
+
+  const ids = [
+    ...SINGLE_MARKETPLACE_PARAMS.map(key => params[key]),
+    ...MARKETPLACE_LIST_PARAMS.flatMap(key => Array.isArray(params[key]) ? params[key] as unknown[] : []),
+    params.granularityType === 'Marketplace' ? params.granularityId : undefined
+  ];
+
+  return Array.from(new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0)));
+}
+
+// Zone that relative dates in the params are resolved in: that of the first marketplace they point at
+export function getParamsTimeZone(params: Record<string, unknown> | undefined, fallbackMarketplaceId: string): string {
+  const marketplaceId = getParamMarketplaceIds(params)[0] ?? fallbackMarketplaceId;
+  return getMarketplace(marketplaceId)?.timeZone ?? 'UTC';
+}
@@ -0,0 +1,238 @@
+import { Reports } from './sp-api';
+
+export type ReportCategory = 'Orders' | 'Listings' | 'Inventory' | 'Fulfillment by Amazon' | 'Returns' | 'Settlement' | 'Analytics';
+
+// A reportOptions entry a report type accepts
+export interface ReportOption {
+  name: string;
+  label: string;
+  values: string[];
+  required?: boolean;
+}
+
+export interface ReportTypeInfo {
+  type: string;
+  name: string;
+  description: string;
+  category: ReportCategory;
+  dateRange: 'required' | 'optional' | 'none'; // Whether dataStartTime and dataEndTime apply
+  maxRangeDays?: number; // Longest data range Amazon accepts in one report
+  maxHistoryDays?: number; // How far back dataStartTime may reach
+  options?: ReportOption[];
+  scheduleOnly?: boolean; // Created by Amazon on its own schedule, can't be requested
+}
+
+export type ReportPeriod = Reports.CreateReportScheduleSpecification['period'];
+
+// Intervals Amazon offers for report schedules; local schedules repeat at the same intervals
+export const REPORT_PERIODS: { value: ReportPeriod; label: string; hours: number }[] = [
+  { value: 'PT1H', label: 'Every hour', hours: 1 },
+  { value: 'PT4H', label: 'Every 4 hours', hours: 4 },
+  { value: 'PT12H', label: 'Every 12 hours', hours: 12 },
+  { value: 'P1D', label: 'Daily', hours: 24 },
+  { value: 'P3D', label: 'Every 3 days', hours: 72 },
+  { value: 'P7D', label: 'Weekly', hours: 168 },
+  { value: 'P14D', label: 'Every 2 weeks', hours: 336 },
+  { value: 'P30D', label: 'Every 30 days', hours: 720 }
+];
+
+export const REPORT_TYPES: ReportTypeInfo[] = [
+  // Orders
+  {
+    type: 'GET_FLAT_FILE_ALL_ORDERS_DATA_BY_ORDER_DATE_GENERAL',
+    name: 'All Orders by Order Date',
+    description: 'Orders placed in the date range, whatever their status',
+    category: 'Orders',
+    dateRange: 'optional',
+    maxRangeDays: 30
+  },
+  {
+    type: 'GET_FLAT_FILE_ALL_ORDERS_DATA_BY_LAST_UPDATE_GENERAL',
+    name: 'All Orders by Last Update',
+    description: 'Orders created or updated in the date range',
+    category: 'Orders',
+    dateRange: 'optional',
+    maxRangeDays: 30
+  },
+  {
+    type: 'GET_FLAT_FILE_ACTIONABLE_ORDER_DATA_SHIPPING',
+    name: 'Unshipped Orders',
+    description: 'Orders that still need to be shipped',
+    category: 'Orders',
+    dateRange: 'none'
+  },
+  // Listings
+  {
+    type: 'GET_MERCHANT_LISTINGS_ALL_DATA',
+    name: 'All Listings',
+    description: 'Active, inactive and incomplete listings',
+    category: 'Listings',
+    dateRange: 'none'
+  },
+  {
+    type: 'GET_MERCHANT_LISTINGS_DATA',
+    name: 'Active Listings',
+    description: 'Listings that are currently for sale',
+    category: 'Listings',
+    dateRange: 'none'
+  },
+  {
+    type: 'GET_MERCHANT_LISTINGS_INACTIVE_DATA',
+    name: 'Inactive Listings',
+    description: 'Listings that are not for sale, e.g. because they are out of stock',
+    category: 'Listings',
+    dateRange: 'none'
+  },
+  // Inventory
+  {
+    type: 'GET_FLAT_FILE_OPEN_LISTINGS_DATA',
+    name: 'Inventory',
+    description: 'SKU, ASIN, price and quantity of every listing',
+    category: 'Inventory',
+    dateRange: 'none'
+  },
+  {
+    type: 'GET_LEDGER_SUMMARY_VIEW_DATA',
+    name: 'Inventory Ledger Summary',
+    description: 'Starting and ending FBA inventory balances with receipts, shipments and adjustments',
+    category: 'Inventory',
+    dateRange: 'required',
+    maxHistoryDays: 540,
+    options: [
+      { name: 'aggregateByLocation', label: 'Aggregate by', values: ['COUNTRY', 'FC'], required: true },
+      { name: 'aggregatedByTimePeriod', label: 'Period', values: ['DAILY', 'WEEKLY', 'MONTHLY'], required: true }
+    ]
+  },
+  // Fulfillment by Amazon
+  {
+    type: 'GET_FBA_MYI_UNSUPPRESSED_INVENTORY_DATA',
+    name: 'FBA Manage Inventory',
+    description: 'Current FBA inventory of listings that are not suppressed',
+    category: 'Fulfillment by Amazon',
+    dateRange: 'none'
+  },
+  {
+    type: 'GET_AFN_INVENTORY_DATA',
+    name: 'FBA Amazon Fulfilled Inventory',
+    description: 'Sellable and unsellable units in Amazon fulfillment centers',
+    category: 'Fulfillment by Amazon',
+    dateRange: 'none'
+  },
+  {
+    type: 'GET_FBA_ESTIMATED_FBA_FEES_TXT_DATA',
+    name: 'FBA Fee Preview',
+    description: 'Estimated referral and fulfillment fees per SKU',
+    category: 'Fulfillment by Amazon',
+    dateRange: 'optional',
+    maxRangeDays: 30
+  },
+  {
+    type: 'GET_AMAZON_FULFILLED_SHIPMENTS_DATA_GENERAL',
+    name: 'FBA Amazon Fulfilled Shipments',
+    description: 'Items shipped from Amazon fulfillment centers',
+    category: 'Fulfillment by Amazon',
+    dateRange: 'optional',
+    maxRangeDays: 30,
+    maxHistoryDays: 540
+  },
+  // Returns
+  {
+    type: 'GET_FBA_FULFILLMENT_CUSTOMER_RETURNS_DATA',
+    name: 'FBA Customer Returns',
+    description: 'Items customers returned to Amazon fulfillment centers',
+    category: 'Returns',
+    dateRange: 'optional',
+    maxRangeDays: 30
+  },
+  {
+    type: 'GET_FLAT_FILE_RETURNS_DATA_BY_RETURN_DATE',
+    name: 'Merchant Returns by Return Date',
+    description: 'Returns of merchant-fulfilled orders',
+    category: 'Returns',
+    dateRange: 'required',
+    maxRangeDays: 60
+  },
+  // Settlement
+  {
+    type: 'GET_V2_SETTLEMENT_REPORT_DATA_FLAT_FILE_V2',
+    name: 'Settlement',
+    description: 'Fees, payments and refunds of each settlement period',
+    category: 'Settlement',
+    dateRange: 'none',
+    scheduleOnly: true
+  },
+  // Analytics
+  {
+    type: 'GET_SALES_AND_TRAFFIC_REPORT',
+    name: 'Sales and Traffic',
+    description: 'Sales, page views and sessions, by date and by ASIN',
+    category: 'Analytics',
+    dateRange: 'required',
+    maxHistoryDays: 730,
+    options: [
+      { name: 'dateGranularity', label: 'Date granularity', values: ['DAY', 'WEEK', 'MONTH'] },
+      { name: 'asinGranularity', label: 'ASIN granularity', values: ['PARENT', 'CHILD', 'SKU'] }
+    ]
+  }
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function getReportType(type: string): ReportTypeInfo | undefined {
+  return REPORT_TYPES.find(reportType => reportType.type === type);
+}
+
+export function getReportTypeName(type: string): string {
+  return getReportType(type)?.name ?? type;
+}
+
+export function getReportPeriod(period: string) {
+  return REPORT_PERIODS.find(entry => entry.value === period);
+}
+
+// Problems Amazon would reject the request for; types outside the catalog aren't checked. Schedules
+// have no range of their own, Amazon derives it from their period.
+export function validateReportRequest(
+  type: string,
+  options: Record<string, string> = {},
+  range?: { dataStartTime?: string; dataEndTime?: string }
+): string[] {
+  const info = getReportType(type);
+  if (!info) return [];
+
+  const problems: string[] = [];
+  if (info.scheduleOnly) {
+    problems.push(`${info.name} reports are created by Amazon and can't be requested`);
+  }
+
+  for (const option of info.options ?? []) {
+    const value = options[option.name];
+    if (!value && option.required) {
+      problems.push(`${option.label} is required`);
+    } else if (value && !option.values.includes(value)) {
+      problems.push(`${option.label} must be one of ${option.values.join(', ')}`);
+    }
+  }
+
+  if (!range) return problems;
+
+  if (info.dateRange === 'required' && !range.dataStartTime) {
+    problems.push(`${info.name} reports need a data start date`);
+  }
+
+  const start = range.dataStartTime ? Date.parse(range.dataStartTime) : undefined;
+  const end = range.dataEndTime ? Date.parse(range.dataEndTime) : Date.now();
+  if (start !== undefined) {
+    if (start > end) {
+      problems.push('The data start date is after the end date');
+    }
+    if (info.maxRangeDays && end - start > info.maxRangeDays * DAY) {
+      problems.push(`${info.name} reports cover at most ${info.maxRangeDays} days`);
+    }
+    if (info.maxHistoryDays && Date.now() - start > info.maxHistoryDays * DAY) {
+      problems.push(`${info.name} reports reach back at most ${info.maxHistoryDays} days`);
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,80 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Catalog Items, version 2022-04-01
+
+/** Items in the Amazon catalog and search related metadata. */
+export interface ItemSearchResults {
+  /** For identifiers searches, the total number of Amazon catalog items found. */
+  numberOfResults: number;
+  pagination?: Pagination;
+  /** A list of items from the Amazon catalog. */
+  items: Item[];
+}
+
+/** When a request produces a response that exceeds the pageSize, pagination occurs. */
+export interface Pagination {
+  /** A token that can be used to fetch the next page. */
+  nextToken?: string;
+  /** A token that can be used to fetch the previous page. */
+  previousToken?: string;
+}
+
+/** An item in the Amazon catalog. */
+export interface Item {
+  /** Amazon Standard Identification Number (ASIN) is the unique identifier for an item in the Amazon catalog. */
+  asin: string;
+  /** A JSON object that contains structured item attribute data keyed by attribute name. */
+  attributes?: Record<string, unknown>;
+  /** Sales ranks of an Amazon catalog item. */
+  salesRanks?: ItemSalesRanksByMarketplace[];
+  /** Summary details of an Amazon catalog item. */
+  summaries?: ItemSummaryByMarketplace[];
+}
+
+/** Sales ranks of an Amazon catalog item for the indicated Amazon marketplace. */
+export interface ItemSalesRanksByMarketplace {
+  /** Amazon marketplace identifier. */
+  marketplaceId: string;
+  /** Sales ranks of an Amazon catalog item for an Amazon marketplace by website display group. */
+  displayGroupRanks?: ItemDisplayGroupSalesRank[];
+}
+
+/** Sales rank of an Amazon catalog item by website display group. */
+export interface ItemDisplayGroupSalesRank {
+  /** Name of the website display group associated with the sales rank. */
+  websiteDisplayGroup: string;
+  /** Title of the sales rank. */
+  title: string;
+  /** Sales rank value. */
+  rank: number;
+}
+
+/** Summary details of an Amazon catalog item for the indicated Amazon marketplace. */
+export interface ItemSummaryByMarketplace {
+  /** Amazon marketplace identifier. */
+  marketplaceId: string;
+  /** Name of the brand associated with an Amazon catalog item. */
+  brand?: string;
+  /** Classification type associated with the Amazon catalog item. */
+  itemClassification?: 'BASE_PRODUCT' | 'OTHER' | 'PRODUCT_BUNDLE' | 'VARIATION_PARENT';
+  /** Name, or title, associated with an Amazon catalog item. */
+  itemName?: string;
+  /** Name of the manufacturer associated with an Amazon catalog item. */
+  manufacturer?: string;
+  /** Model number associated with an Amazon catalog item. */
+  modelNumber?: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export interface ErrorList {
+  errors: Error[];
+}
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,35 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for FBA Inbound Eligibilty, version v1
+
+/** The response schema for the getItemEligibilityPreview operation. */
+export interface GetItemEligibilityPreviewResponse {
+  payload?: ItemEligibilityPreview;
+  errors?: ErrorList;
+}
+
+/** The response object which contains the ASIN, marketplaceId if required, eligibility program, the eligibility status (boolean), and a list of ineligibility reason codes. */
+export interface ItemEligibilityPreview {
+  /** The ASIN for which eligibility was determined. */
+  asin: string;
+  /** The marketplace for which eligibility was determined. */
+  marketplaceId?: string;
+  /** The program for which eligibility was determined. */
+  program: 'INBOUND' | 'COMMINGLING';
+  /** Indicates if the item is eligible for the program. */
+  isEligibleForProgram: boolean;
+  /** Potential Ineligibility Reason Codes. */
+  ineligibilityReasonList?: string[];
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition in a human-readable form. */
+  message?: string;
+  /** Additional information that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,76 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for FBA Inventory, version v1
+
+/** The Response schema. */
+export interface GetInventorySummariesResponse {
+  payload?: GetInventorySummariesResult;
+  pagination?: Pagination;
+  errors?: ErrorList;
+}
+
+/** The payload schema for the getInventorySummaries operation. */
+export interface GetInventorySummariesResult {
+  granularity: Granularity;
+  inventorySummaries: InventorySummaries;
+}
+
+/** Describes a granularity at which inventory data can be aggregated. */
+export interface Granularity {
+  /** The granularity type for the inventory aggregation level. */
+  granularityType?: string;
+  /** The granularity ID for the specified granularity type. */
+  granularityId?: string;
+}
+
+/** A list of inventory summaries. */
+export type InventorySummaries = InventorySummary[];
+
+/** Inventory summary for a specific item. */
+export interface InventorySummary {
+  /** The Amazon Standard Identification Number (ASIN) of an inventory item. */
+  asin?: string;
+  /** Amazon's fulfillment network SKU identifier. */
+  fnSku?: string;
+  /** The seller SKU of the item. */
+  sellerSku?: string;
+  /** The condition of the item as described by the seller (for example, New Item). */
+  condition?: string;
+  inventoryDetails?: InventoryDetails;
+  /** The date and time that any quantity was last updated. */
+  lastUpdatedTime?: string;
+  /** The localized language product title of the item within the specific marketplace. */
+  productName?: string;
+  /** The total number of units in an inbound shipment or in Amazon fulfillment centers. */
+  totalQuantity?: number;
+}
+
+/** Summarized inventory details. */
+export interface InventoryDetails {
+  /** The item quantity that can be picked, packed, and shipped. */
+  fulfillableQuantity?: number;
+  /** The number of units in an inbound shipment for which you have notified Amazon. */
+  inboundWorkingQuantity?: number;
+  /** The number of units in an inbound shipment that you have notified Amazon about and have provided a tracking number. */
+  inboundShippedQuantity?: number;
+  /** The number of units that have not yet been received at an Amazon fulfillment center for processing. */
+  inboundReceivingQuantity?: number;
+}
+
+/** The process of returning the results to a request in batches of a defined size called pages. */
+export interface Pagination {
+  /** A generated string used to retrieve the next page of the result. */
+  nextToken?: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** An error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message?: string;
+  /** Additional information that can help the caller understand or fix the issue. */
+  details?: string;
+}
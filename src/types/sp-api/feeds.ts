@@ -0,0 +1,88 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Feeds, version 2021-06-30
+
+/** Response schema. */
+export interface GetFeedsResponse {
+  feeds: FeedList;
+  /** Returned when the number of results exceeds pageSize. */
+  nextToken?: string;
+}
+
+export type FeedList = Feed[];
+
+/** Detailed information about the feed. */
+export interface Feed {
+  /** The identifier for the feed. */
+  feedId: string;
+  /** The feed type. */
+  feedType: string;
+  /** A list of identifiers for the marketplaces that the feed is applied to. */
+  marketplaceIds?: string[];
+  /** The date and time when the feed was created, in ISO 8601 date time format. */
+  createdTime: string;
+  /** The processing status of the feed. */
+  processingStatus: 'CANCELLED' | 'DONE' | 'FATAL' | 'IN_PROGRESS' | 'IN_QUEUE';
+  /** The date and time when feed processing started, in ISO 8601 date time format. */
+  processingStartTime?: string;
+  /** The date and time when feed processing completed, in ISO 8601 date time format. */
+  processingEndTime?: string;
+  /** The identifier for the feed document. */
+  resultFeedDocumentId?: string;
+}
+
+/** Information required to create the feed. */
+export interface CreateFeedSpecification {
+  /** The feed type. */
+  feedType: string;
+  /** A list of identifiers for marketplaces that you want the feed to be applied to. */
+  marketplaceIds: string[];
+  /** The document identifier returned by the createFeedDocument operation. */
+  inputFeedDocumentId: string;
+  /** Additional options to control the feed. */
+  feedOptions?: Record<string, unknown>;
+}
+
+/** Response schema. */
+export interface CreateFeedResponse {
+  /** The identifier for the feed. */
+  feedId: string;
+}
+
+/** Specifies the content type for the createFeedDocument operation. */
+export interface CreateFeedDocumentSpecification {
+  /** The content type of the feed. */
+  contentType: string;
+}
+
+/** Information required to upload a feed document's contents. */
+export interface CreateFeedDocumentResponse {
+  /** The identifier of the feed document. */
+  feedDocumentId: string;
+  /** The presigned URL for uploading the feed contents. */
+  url: string;
+}
+
+/** Information required for the feed document. */
+export interface FeedDocument {
+  /** The identifier for the feed document. */
+  feedDocumentId: string;
+  /** A presigned URL for the feed document. */
+  url: string;
+  /** If the feed document contents have been compressed, the compression algorithm used is returned in this property and you must decompress the feed when you download. */
+  compressionAlgorithm?: 'GZIP';
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export interface ErrorList {
+  errors: Error[];
+}
+
+/** An error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
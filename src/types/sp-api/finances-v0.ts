@@ -0,0 +1,105 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Finances, version v0
+
+/** The response schema for the listFinancialEvents operation. */
+export interface ListFinancialEventsResponse {
+  payload?: ListFinancialEventsPayload;
+  errors?: ErrorList;
+}
+
+/** The payload for the listFinancialEvents operation. */
+export interface ListFinancialEventsPayload {
+  /** When present and not empty, pass this string token in the next request to return the next response page. */
+  NextToken?: string;
+  FinancialEvents?: FinancialEvents;
+}
+
+/** Contains all information related to a financial event. */
+export interface FinancialEvents {
+  ShipmentEventList?: ShipmentEventList;
+  RefundEventList?: ShipmentEventList;
+  GuaranteeClaimEventList?: ShipmentEventList;
+  ChargebackEventList?: ShipmentEventList;
+  ServiceFeeEventList?: ServiceFeeEventList;
+}
+
+/** A list of shipment event information. */
+export type ShipmentEventList = ShipmentEvent[];
+
+/** A shipment, refund, guarantee claim, or chargeback. */
+export interface ShipmentEvent {
+  /** An Amazon-defined identifier for an order. */
+  AmazonOrderId?: string;
+  /** A seller-defined identifier for an order. */
+  SellerOrderId?: string;
+  /** The name of the marketplace where the event occurred. */
+  MarketplaceName?: string;
+  /** The date and time when the financial event was posted. */
+  PostedDate?: string;
+  /** A list of shipment items. */
+  ShipmentItemList?: ShipmentItem[];
+}
+
+/** An item of a shipment, refund, guarantee claim, or chargeback. */
+export interface ShipmentItem {
+  /** The seller SKU of the item. */
+  SellerSKU?: string;
+  /** An Amazon-defined order item identifier. */
+  OrderItemId?: string;
+  /** The number of items shipped. */
+  QuantityShipped?: number;
+  /** A list of charges related to the shipment item. */
+  ItemChargeList?: ChargeComponent[];
+  /** A list of fees related to the shipment item. */
+  ItemFeeList?: FeeComponent[];
+}
+
+/** A list of information about service fee events. */
+export type ServiceFeeEventList = ServiceFeeEvent[];
+
+/** A service fee on the seller's account. */
+export interface ServiceFeeEvent {
+  /** An Amazon-defined identifier for an order. */
+  AmazonOrderId?: string;
+  /** A short description of the service fee reason. */
+  FeeReason?: string;
+  /** A list of fee components associated with the service fee. */
+  FeeList?: FeeComponent[];
+  /** The seller SKU of the item. */
+  SellerSKU?: string;
+}
+
+/** A charge on the seller's account. */
+export interface ChargeComponent {
+  /** The type of charge, e.g. */
+  ChargeType?: string;
+  ChargeAmount?: Currency;
+}
+
+/** A fee associated with the event. */
+export interface FeeComponent {
+  /** The type of fee, e.g. */
+  FeeType?: string;
+  FeeAmount?: Currency;
+}
+
+/** A currency type and amount. */
+export interface Currency {
+  /** The three-digit currency code in ISO 4217 format. */
+  CurrencyCode?: string;
+  /** The monetary value. */
+  CurrencyAmount?: number;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
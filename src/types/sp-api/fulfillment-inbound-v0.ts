@@ -0,0 +1,97 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Fulfillment Inbound, version v0
+
+/** The response schema for the getShipments operation. */
+export interface GetShipmentsResponse {
+  payload?: GetShipmentsResult;
+  errors?: ErrorList;
+}
+
+/** Result for the get shipments operation */
+export interface GetShipmentsResult {
+  ShipmentData?: InboundShipmentList;
+  /** When present and not empty, pass this string token in the next request to return the next response page. */
+  NextToken?: string;
+}
+
+/** A list of inbound shipment information. */
+export type InboundShipmentList = InboundShipmentInfo[];
+
+/** Information about the seller's inbound shipments. */
+export interface InboundShipmentInfo {
+  /** The shipment identifier submitted in the request. */
+  ShipmentId?: string;
+  /** The name for the inbound shipment. */
+  ShipmentName?: string;
+  ShipFromAddress: Address;
+  /** An Amazon fulfillment center identifier created by Amazon. */
+  DestinationFulfillmentCenterId?: string;
+  /** Indicates the status of the inbound shipment. */
+  ShipmentStatus?: 'WORKING' | 'READY_TO_SHIP' | 'SHIPPED' | 'RECEIVING' | 'CANCELLED' | 'DELETED' | 'CLOSED' | 'ERROR' | 'IN_TRANSIT' | 'DELIVERED' | 'CHECKED_IN';
+  /** The type of label preparation that is required for the inbound shipment. */
+  LabelPrepType?: 'NO_LABEL' | 'SELLER_LABEL' | 'AMAZON_LABEL';
+  /** Indicates whether or not an inbound shipment contains case-packed boxes. */
+  AreCasesRequired: boolean;
+  /** Date by which the shipment must arrive at the Amazon fulfillment center to avoid delivery promise breaks for pre-ordered items. */
+  ConfirmedNeedByDate?: string;
+  /** Where the seller provided box contents information for a shipment. */
+  BoxContentsSource?: 'NONE' | 'FEED' | '2D_BARCODE' | 'INTERACTIVE';
+}
+
+/** The response schema for the getShipmentItems operation. */
+export interface GetShipmentItemsResponse {
+  payload?: GetShipmentItemsResult;
+  errors?: ErrorList;
+}
+
+/** Result for the get shipment items operation */
+export interface GetShipmentItemsResult {
+  /** A list of inbound shipment item information. */
+  ItemData?: InboundShipmentItem[];
+  /** When present and not empty, pass this string token in the next request to return the next response page. */
+  NextToken?: string;
+}
+
+/** Item information for an inbound shipment. */
+export interface InboundShipmentItem {
+  /** A shipment identifier originally returned by the createInboundShipmentPlan operation. */
+  ShipmentId?: string;
+  /** The seller SKU of the item. */
+  SellerSKU: string;
+  /** Amazon's fulfillment network SKU of the item. */
+  FulfillmentNetworkSKU?: string;
+  /** The item quantity that you are shipping. */
+  QuantityShipped: number;
+  /** The item quantity that has been received at an Amazon fulfillment center. */
+  QuantityReceived?: number;
+  /** The item quantity in each case, for case-packed items. */
+  QuantityInCase?: number;
+}
+
+export interface Address {
+  /** Name of the individual or business. */
+  Name: string;
+  /** The street address information. */
+  AddressLine1: string;
+  /** The city. */
+  City: string;
+  /** The state or province code. */
+  StateOrProvinceCode?: string;
+  /** The country code in two-character ISO 3166-1 alpha-2 format. */
+  CountryCode: string;
+  /** The postal code. */
+  PostalCode?: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occured. */
+  code: string;
+  /** A message that describes the error condition in a human-readable form. */
+  message?: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
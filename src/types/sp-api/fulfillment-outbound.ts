@@ -0,0 +1,72 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner APIs for Fulfillment Outbound, version 2020-07-01
+
+/** The response schema for the listAllFulfillmentOrders operation. */
+export interface ListAllFulfillmentOrdersResponse {
+  payload?: ListAllFulfillmentOrdersResult;
+  errors?: ErrorList;
+}
+
+/** The request for the listAllFulfillmentOrders operation. */
+export interface ListAllFulfillmentOrdersResult {
+  /** When present and not empty, pass this string token in the next request to return the next response page. */
+  nextToken?: string;
+  /** An array of fulfillment order information. */
+  fulfillmentOrders?: FulfillmentOrder[];
+}
+
+/** General information about a fulfillment order, including its status. */
+export interface FulfillmentOrder {
+  /** The fulfillment order identifier submitted with the createFulfillmentOrder operation. */
+  sellerFulfillmentOrderId: string;
+  /** The identifier for the marketplace the fulfillment order is placed against. */
+  marketplaceId: string;
+  /** A fulfillment order identifier submitted with the createFulfillmentOrder operation. */
+  displayableOrderId: string;
+  /** A date and time submitted with the createFulfillmentOrder operation. */
+  displayableOrderDate: string;
+  /** A text block submitted with the createFulfillmentOrder operation. */
+  displayableOrderComment: string;
+  /** The shipping method used for the fulfillment order. */
+  shippingSpeedCategory: 'Standard' | 'Expedited' | 'Priority' | 'ScheduledDelivery';
+  destinationAddress: Address;
+  /** Specifies whether the fulfillment order should ship now or have an order hold put on it. */
+  fulfillmentAction?: 'Ship' | 'Hold';
+  /** The current status of the fulfillment order. */
+  fulfillmentOrderStatus: 'New' | 'Received' | 'Planning' | 'Processing' | 'Cancelled' | 'Complete' | 'CompletePartialled' | 'Unfulfillable' | 'Invalid';
+  /** The date and time that the fulfillment order was received by an Amazon fulfillment center. */
+  receivedDate: string;
+  /** The date and time that the status of the fulfillment order last changed. */
+  statusUpdatedDate: string;
+}
+
+/** A physical address. */
+export interface Address {
+  /** The name of the person, business or institution at the address. */
+  name: string;
+  /** The first line of the address. */
+  addressLine1: string;
+  /** Additional address information, if required. */
+  addressLine2?: string;
+  /** The city where the person, business, or institution is located. */
+  city?: string;
+  /** The state or region where the person, business or institution is located. */
+  stateOrRegion: string;
+  /** The postal code of the address. */
+  postalCode: string;
+  /** The two digit country code. */
+  countryCode: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** An error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message?: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
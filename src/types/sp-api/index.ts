@@ -0,0 +1,94 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+
+import type * as CatalogItems from './catalog-items';
+import type * as FbaInboundEligibility from './fba-inbound-eligibility';
+import type * as FbaInventory from './fba-inventory';
+import type * as Feeds from './feeds';
+import type * as FinancesV0 from './finances-v0';
+import type * as FulfillmentInboundV0 from './fulfillment-inbound-v0';
+import type * as FulfillmentOutbound from './fulfillment-outbound';
+import type * as ListingsItems from './listings-items';
+import type * as MerchantFulfillmentV0 from './merchant-fulfillment-v0';
+import type * as Notifications from './notifications';
+import type * as OrdersV0 from './orders-v0';
+import type * as ProductFeesV0 from './product-fees-v0';
+import type * as ProductPricingV0 from './product-pricing-v0';
+import type * as Reports from './reports';
+import type * as Sales from './sales';
+import type * as Sellers from './sellers';
+import type * as Shipping from './shipping';
+import type * as Tokens from './tokens';
+
+export type { CatalogItems, FbaInboundEligibility, FbaInventory, Feeds, FinancesV0, FulfillmentInboundV0, FulfillmentOutbound, ListingsItems, MerchantFulfillmentV0, Notifications, OrdersV0, ProductFeesV0, ProductPricingV0, Reports, Sales, Sellers, Shipping, Tokens };
+export { SP_API_OPERATIONS } from './operations';
+
+// Data of a successful call per API and operation: the payload for operations that wrap their result in one
+export interface SpApiOperationData {
+  catalogItems: {
+    searchCatalogItems: CatalogItems.ItemSearchResults;
+  };
+  fbaInboundEligibility: {
+    getItemEligibilityPreview: NonNullable<FbaInboundEligibility.GetItemEligibilityPreviewResponse['payload']>;
+  };
+  fbaInventory: {
+    getInventorySummaries: NonNullable<FbaInventory.GetInventorySummariesResponse['payload']>;
+  };
+  feeds: {
+    getFeeds: Feeds.GetFeedsResponse;
+    createFeed: Feeds.CreateFeedResponse;
+    getFeed: Feeds.Feed;
+    cancelFeed: unknown;
+    createFeedDocument: Feeds.CreateFeedDocumentResponse;
+    getFeedDocument: Feeds.FeedDocument;
+  };
+  financesV0: {
+    listFinancialEvents: NonNullable<FinancesV0.ListFinancialEventsResponse['payload']>;
+  };
+  fulfillmentInboundV0: {
+    getShipments: NonNullable<FulfillmentInboundV0.GetShipmentsResponse['payload']>;
+    getShipmentItemsByShipmentId: NonNullable<FulfillmentInboundV0.GetShipmentItemsResponse['payload']>;
+  };
+  fulfillmentOutbound: {
+    listAllFulfillmentOrders: NonNullable<FulfillmentOutbound.ListAllFulfillmentOrdersResponse['payload']>;
+  };
+  listingsItems: {
+    searchListingsItems: ListingsItems.ItemSearchResults;
+  };
+  merchantFulfillmentV0: {
+    getShipment: NonNullable<MerchantFulfillmentV0.GetShipmentResponse['payload']>;
+  };
+  notifications: {
+    getDestinations: NonNullable<Notifications.GetDestinationsResponse['payload']>;
+  };
+  ordersV0: {
+    getOrders: NonNullable<OrdersV0.GetOrdersResponse['payload']>;
+    getOrderItems: NonNullable<OrdersV0.GetOrderItemsResponse['payload']>;
+  };
+  productFeesV0: {
+    getMyFeesEstimateForSKU: NonNullable<ProductFeesV0.GetMyFeesEstimateResponse['payload']>;
+  };
+  productPricingV0: {
+    getPricing: NonNullable<ProductPricingV0.GetPricingResponse['payload']>;
+  };
+  reports: {
+    getReports: Reports.GetReportsResponse;
+    createReport: Reports.CreateReportResponse;
+    getReport: Reports.Report;
+    getReportSchedules: Reports.ReportScheduleList;
+    createReportSchedule: Reports.CreateReportScheduleResponse;
+    cancelReportSchedule: unknown;
+    getReportDocument: Reports.ReportDocument;
+  };
+  sales: {
+    getOrderMetrics: NonNullable<Sales.GetOrderMetricsResponse['payload']>;
+  };
+  sellers: {
+    getMarketplaceParticipations: NonNullable<Sellers.GetMarketplaceParticipationsResponse['payload']>;
+  };
+  shipping: {
+    getShipment: NonNullable<Shipping.GetShipmentResponse['payload']>;
+  };
+  tokens: {
+    createRestrictedDataToken: Tokens.CreateRestrictedDataTokenResponse;
+  };
+}
@@ -0,0 +1,105 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Listings Items, version 2021-08-01
+
+/** Selling partner listings items and search related metadata. */
+export interface ItemSearchResults {
+  /** The total number of selling partner listings items found for the search criteria (only results up to the page count limit will be returned per request regardless of the number found). */
+  numberOfResults: number;
+  pagination?: Pagination;
+  /** A list of listings items. */
+  items: Item[];
+}
+
+/** When a request produces a response that exceeds the pageSize, pagination occurs. */
+export interface Pagination {
+  /** A token that can be used to fetch the next page. */
+  nextToken?: string;
+  /** A token that can be used to fetch the previous page. */
+  previousToken?: string;
+}
+
+/** A listings item. */
+export interface Item {
+  /** A selling partner provided identifier for an Amazon listing. */
+  sku: string;
+  /** Summary details of a listings item. */
+  summaries?: ItemSummaryByMarketplace[];
+  /** A JSON object containing structured listings item attribute data keyed by attribute name. */
+  attributes?: Record<string, unknown>;
+  /** The issues associated with the listings item. */
+  issues?: Issue[];
+  /** Offer details for the listings item. */
+  offers?: ItemOfferByMarketplace[];
+  /** The fulfillment availability for the listings item. */
+  fulfillmentAvailability?: FulfillmentAvailability[];
+}
+
+/** Summary details of a listings item for an Amazon marketplace. */
+export interface ItemSummaryByMarketplace {
+  /** A marketplace identifier. */
+  marketplaceId: string;
+  /** Amazon Standard Identification Number (ASIN) of the listings item. */
+  asin?: string;
+  /** The Amazon product type of the listings item. */
+  productType: string;
+  /** Identifies the condition of the listings item. */
+  conditionType?: 'new_new' | 'new_open_box' | 'new_oem' | 'refurbished_refurbished' | 'used_like_new' | 'used_very_good' | 'used_good' | 'used_acceptable' | 'collectible_like_new' | 'collectible_very_good' | 'collectible_good' | 'collectible_acceptable' | 'club_club';
+  /** Statuses that apply to the listings item. */
+  status: ('BUYABLE' | 'DISCOVERABLE')[];
+  /** The name or title associated with an Amazon catalog item. */
+  itemName?: string;
+  /** The date the listings item was created in ISO 8601 format. */
+  createdDate: string;
+  /** The date the listings item was last updated in ISO 8601 format. */
+  lastUpdatedDate: string;
+}
+
+/** An issue with a listings item. */
+export interface Issue {
+  /** An issue code that identifies the type of issue. */
+  code: string;
+  /** A message that describes the issue. */
+  message: string;
+  /** The severity of the issue. */
+  severity: 'ERROR' | 'WARNING' | 'INFO';
+}
+
+/** Offer details of a listings item for an Amazon marketplace. */
+export interface ItemOfferByMarketplace {
+  /** The Amazon marketplace identifier. */
+  marketplaceId: string;
+  /** Type of offer for the listings item. */
+  offerType: 'B2C' | 'B2B';
+  price: Money;
+}
+
+/** The currency type and the amount. */
+export interface Money {
+  /** Three-digit currency code. */
+  currencyCode: string;
+  /** A decimal number with no loss of precision. */
+  amount: string;
+}
+
+/** The fulfillment availability details for the listings item. */
+export interface FulfillmentAvailability {
+  /** The code of the fulfillment network that will be used. */
+  fulfillmentChannelCode: string;
+  /** The quantity of the item you are making available for sale. */
+  quantity?: number;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export interface ErrorList {
+  errors: Error[];
+}
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
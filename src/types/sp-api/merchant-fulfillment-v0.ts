@@ -0,0 +1,71 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Merchant Fulfillment, version v0
+
+/** Response schema. */
+export interface GetShipmentResponse {
+  payload?: Shipment;
+  errors?: ErrorList;
+}
+
+/** The details of a shipment. */
+export interface Shipment {
+  /** An Amazon-defined shipment identifier. */
+  ShipmentId: string;
+  /** An Amazon-defined order identifier, in 3-7-7 format. */
+  AmazonOrderId: string;
+  /** A seller-defined order identifier. */
+  SellerOrderId?: string;
+  /** The list of items to be included in a shipment. */
+  ItemList: Item[];
+  ShipFromAddress: Address;
+  ShipToAddress: Address;
+  /** The shipment status. */
+  Status: 'Purchased' | 'RefundPending' | 'RefundRejected' | 'RefundApplied';
+  /** The shipment tracking identifier provided by the carrier. */
+  TrackingId?: string;
+  /** Date-time formatted timestamp. */
+  CreatedDate: string;
+  /** Date-time formatted timestamp. */
+  LastUpdatedDate?: string;
+}
+
+/** An Amazon order item identifier and a quantity. */
+export interface Item {
+  /** An Amazon-defined identifier for an individual item in an order. */
+  OrderItemId: string;
+  /** The number of items. */
+  Quantity: number;
+}
+
+/** The postal address information. */
+export interface Address {
+  /** The name of the addressee, or business name. */
+  Name: string;
+  /** The street address information. */
+  AddressLine1: string;
+  /** The city. */
+  City: string;
+  /** The state or province code. */
+  StateOrProvinceCode?: string;
+  /** The zip code or postal code. */
+  PostalCode?: string;
+  /** The two-letter country code in ISO 3166-1 alpha-2 format. */
+  CountryCode: string;
+  /** The email address. */
+  Email: string;
+  /** The phone number. */
+  Phone: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition in a human-readable form. */
+  message?: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,55 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Notifications, version v1
+
+/** The response schema for the getDestinations operation. */
+export interface GetDestinationsResponse {
+  payload?: DestinationList;
+  errors?: ErrorList;
+}
+
+/** A list of destinations. */
+export type DestinationList = Destination[];
+
+/** Information about the destination created when you call the createDestination operation. */
+export interface Destination {
+  /** The developer-defined name for this destination. */
+  name: string;
+  /** The destination identifier generated when you created the destination. */
+  destinationId: string;
+  resource: DestinationResource;
+}
+
+/** The destination resource types. */
+export interface DestinationResource {
+  sqs?: SqsResource;
+  eventBridge?: EventBridgeResource;
+}
+
+/** The information required to create an Amazon Simple Queue Service (Amazon SQS) queue destination. */
+export interface SqsResource {
+  /** The Amazon Resource Name (ARN) associated with the SQS queue. */
+  arn: string;
+}
+
+/** The Amazon EventBridge destination. */
+export interface EventBridgeResource {
+  /** The name of the partner event source associated with the destination. */
+  name: string;
+  /** The AWS region in which you receive the notifications. */
+  region: string;
+  /** The identifier for the AWS account that is responsible for charges related to receiving notifications. */
+  accountId: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,377 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+
+import type { SpApiOperation } from '../amazon-api';
+
+export const SP_API_OPERATIONS = {
+  catalogItems: {
+    searchCatalogItems: {
+      operationId: 'searchCatalogItems',
+      path: '/catalog/2022-04-01/items',
+      method: 'GET',
+      paramFields: [
+        { name: 'identifiers', label: 'Identifiers', type: 'list', description: 'A comma-delimited list of product identifiers to search the Amazon catalog for.' },
+        { name: 'identifiersType', label: 'Identifiers type', type: 'select', options: ['ASIN', 'EAN', 'GTIN', 'ISBN', 'JAN', 'MINSAN', 'SKU', 'UPC'], description: 'Type of product identifiers to search the Amazon catalog for.' },
+        { name: 'marketplaceIds', label: 'Marketplaces', type: 'marketplaces', required: true, description: 'A comma-delimited list of Amazon marketplace identifiers for the request.' },
+        { name: 'includedData', label: 'Included data', type: 'multi-select', options: ['attributes', 'classifications', 'dimensions', 'identifiers', 'images', 'productTypes', 'relationships', 'salesRanks', 'summaries', 'vendorDetails'], description: 'A comma-delimited list of data sets to include in the response.' },
+        { name: 'locale', label: 'Locale', type: 'text', description: 'Locale for retrieving localized summaries.' },
+        { name: 'sellerId', label: 'Seller ID', type: 'text', description: 'A selling partner identifier, such as a seller account or vendor code.' },
+        { name: 'keywords', label: 'Keywords', type: 'list', description: 'A comma-delimited list of words to search the Amazon catalog for.' },
+        { name: 'brandNames', label: 'Brand names', type: 'list', description: 'A comma-delimited list of brand names to limit the search for keywords-based queries.' },
+        { name: 'pageSize', label: 'Page size', type: 'number', max: 20, description: 'Number of results to be returned per page.' }
+      ],
+      rateLimit: { rate: 2, burst: 2 }
+    }
+  },
+  fbaInboundEligibility: {
+    getItemEligibilityPreview: {
+      operationId: 'getItemEligibilityPreview',
+      path: '/fba/inbound/v1/eligibility/itemPreview',
+      method: 'GET',
+      paramFields: [
+        { name: 'marketplaceIds', label: 'Marketplaces', type: 'marketplaces', description: 'The identifier for the marketplace in which you want to determine eligibility.' },
+        { name: 'asin', label: 'ASIN', type: 'text', required: true, description: 'The ASIN of the item for which you want an eligibility preview.' },
+        { name: 'program', label: 'Program', type: 'select', required: true, options: ['INBOUND', 'COMMINGLING'], description: 'The program that you want to check eligibility against.' }
+      ],
+      rateLimit: { rate: 1, burst: 1 }
+    }
+  },
+  fbaInventory: {
+    getInventorySummaries: {
+      operationId: 'getInventorySummaries',
+      path: '/fba/inventory/v1/summaries',
+      method: 'GET',
+      paramFields: [
+        { name: 'details', label: 'Details', type: 'boolean', description: 'true to return inventory summaries with additional summarized inventory details and quantities.' },
+        { name: 'granularityType', label: 'Granularity type', type: 'select', required: true, options: ['Marketplace'], description: 'The granularity type for the inventory aggregation level.' },
+        { name: 'granularityId', label: 'Granularity ID', type: 'text', required: true, description: 'The granularity ID for the inventory aggregation level.' },
+        { name: 'startDateTime', label: 'Start date time', type: 'date', description: 'A start date and time in ISO8601 format.' },
+        { name: 'sellerSkus', label: 'Seller SKUs', type: 'list', description: 'A list of seller SKUs for which to return inventory summaries.' },
+        { name: 'sellerSku', label: 'Seller SKU', type: 'text', description: 'A single seller SKU used for querying the specified seller SKU inventory summaries.' },
+        { name: 'marketplaceIds', label: 'Marketplaces', type: 'marketplaces', required: true, description: 'The marketplace ID for the marketplace for which to return inventory summaries.' }
+      ],
+      rateLimit: { rate: 2, burst: 2 }
+    }
+  },
+  feeds: {
+    getFeeds: {
+      operationId: 'getFeeds',
+      path: '/feeds/2021-06-30/feeds',
+      method: 'GET',
+      paramFields: [
+        { name: 'feedTypes', label: 'Feed types', type: 'list', description: 'A list of feed types used to filter feeds.' },
+        { name: 'marketplaceIds', label: 'Marketplaces', type: 'marketplaces', description: 'A list of marketplace identifiers used to filter feeds.' },
+        { name: 'pageSize', label: 'Page size', type: 'number', min: 1, max: 100, description: 'The maximum number of feeds to return in a single call.' },
+        { name: 'processingStatuses', label: 'Processing statuses', type: 'multi-select', options: ['CANCELLED', 'DONE', 'FATAL', 'IN_PROGRESS', 'IN_QUEUE'], description: 'A list of processing statuses used to filter feeds.' },
+        { name: 'createdSince', label: 'Created since', type: 'date', description: 'The earliest feed creation date and time for feeds included in the response, in ISO 8601 format.' },
+        { name: 'createdUntil', label: 'Created until', type: 'date', description: 'The latest feed creation date and time for feeds included in the response, in ISO 8601 format.' }
+      ],
+      rateLimit: { rate: 0.0222, burst: 10 }
+    },
+    createFeed: {
+      operationId: 'createFeed',
+      path: '/feeds/2021-06-30/feeds',
+      method: 'POST',
+      paramFields: [],
+      rateLimit: { rate: 0.0083, burst: 15 },
+      hasBody: true
+    },
+    getFeed: {
+      operationId: 'getFeed',
+      path: '/feeds/2021-06-30/feeds/{feedId}',
+      method: 'GET',
+      paramFields: [
+        { name: 'feedId', label: 'Feed ID', type: 'text', required: true, description: 'The identifier for the feed.' }
+      ],
+      rateLimit: { rate: 2, burst: 15 }
+    },
+    cancelFeed: {
+      operationId: 'cancelFeed',
+      path: '/feeds/2021-06-30/feeds/{feedId}',
+      method: 'DELETE',
+      paramFields: [
+        { name: 'feedId', label: 'Feed ID', type: 'text', required: true, description: 'The identifier for the feed.' }
+      ],
+      rateLimit: { rate: 2, burst: 15 }
+    },
+    createFeedDocument: {
+      operationId: 'createFeedDocument',
+      path: '/feeds/2021-06-30/documents',
+      method: 'POST',
+      paramFields: [],
+      rateLimit: { rate: 0.5, burst: 15 },
+      hasBody: true
+    },
+    getFeedDocument: {
+      operationId: 'getFeedDocument',
+      path: '/feeds/2021-06-30/documents/{feedDocumentId}',
+      method: 'GET',
+      paramFields: [
+        { name: 'feedDocumentId', label: 'Feed document ID', type: 'text', required: true, description: 'The identifier of the feed document.' }
+      ],
+      rateLimit: { rate: 0.0222, burst: 10 }
+    }
+  },
+  financesV0: {
+    listFinancialEvents: {
+      operationId: 'listFinancialEvents',
+      path: '/finances/v0/financialEvents',
+      method: 'GET',
+      paramFields: [
+        { name: 'MaxResultsPerPage', label: 'Max results per page', type: 'number', min: 1, max: 100, description: 'The maximum number of results to return per page.' },
+        { name: 'PostedAfter', label: 'Posted after', type: 'date', description: 'A date used for selecting financial events posted after (or at) a specified time.' },
+        { name: 'PostedBefore', label: 'Posted before', type: 'date', description: 'A date used for selecting financial events posted before (but not at) a specified time.' }
+      ],
+      rateLimit: { rate: 0.5, burst: 30 }
+    }
+  },
+  fulfillmentInboundV0: {
+    getShipments: {
+      operationId: 'getShipments',
+      path: '/fba/inbound/v0/shipments',
+      method: 'GET',
+      paramFields: [
+        { name: 'ShipmentStatusList', label: 'Shipment status list', type: 'multi-select', options: ['WORKING', 'READY_TO_SHIP', 'SHIPPED', 'RECEIVING', 'CANCELLED', 'DELETED', 'CLOSED', 'ERROR', 'IN_TRANSIT', 'DELIVERED', 'CHECKED_IN'], description: 'A list of ShipmentStatus values.' },
+        { name: 'ShipmentIdList', label: 'Shipment ID list', type: 'list', description: 'A list of shipment IDs used to select the shipments that you want.' },
+        { name: 'LastUpdatedAfter', label: 'Last updated after', type: 'date', description: 'A date used for selecting inbound shipments that were last updated after (or at) a specified time.' },
+        { name: 'LastUpdatedBefore', label: 'Last updated before', type: 'date', description: 'A date used for selecting inbound shipments that were last updated before (or at) a specified time.' },
+        { name: 'QueryType', label: 'Query type', type: 'select', required: true, options: ['SHIPMENT', 'DATE_RANGE', 'NEXT_TOKEN'], description: 'Indicates whether shipments are returned using shipment information (by providing the ShipmentStatusList or ShipmentIdList parameters), using a date range (by providing the LastUpdatedAfter and LastUpdatedBefore parameters), or by using NextToken to continue returning items specified in a previous request.' },
+        { name: 'MarketplaceId', label: 'Marketplace', type: 'marketplace', required: true, description: 'A marketplace identifier.' }
+      ],
+      rateLimit: { rate: 2, burst: 30 }
+    },
+    getShipmentItemsByShipmentId: {
+      operationId: 'getShipmentItemsByShipmentId',
+      path: '/fba/inbound/v0/shipments/{shipmentId}/items',
+      method: 'GET',
+      paramFields: [
+        { name: 'shipmentId', label: 'Shipment ID', type: 'text', required: true, description: 'A shipment identifier used for selecting items in a specific inbound shipment.' },
+        { name: 'MarketplaceId', label: 'Marketplace', type: 'marketplace', required: true, description: 'A marketplace identifier.' }
+      ],
+      rateLimit: { rate: 2, burst: 30 }
+    }
+  },
+  fulfillmentOutbound: {
+    listAllFulfillmentOrders: {
+      operationId: 'listAllFulfillmentOrders',
+      path: '/fba/outbound/2020-07-01/fulfillmentOrders',
+      method: 'GET',
+      paramFields: [
+        { name: 'queryStartDate', label: 'Query start date', type: 'date', description: 'A date used to select fulfillment orders that were last updated after (or at) a specified time.' }
+      ],
+      rateLimit: { rate: 2, burst: 30 }
+    }
+  },
+  listingsItems: {
+    searchListingsItems: {
+      operationId: 'searchListingsItems',
+      path: '/listings/2021-08-01/items/{sellerId}',
+      method: 'GET',
+      paramFields: [
+        { name: 'sellerId', label: 'Seller ID', type: 'text', required: true, description: 'A selling partner identifier, such as a merchant account or vendor code.' },
+        { name: 'marketplaceIds', label: 'Marketplaces', type: 'marketplaces', required: true, description: 'A comma-delimited list of Amazon marketplace identifiers for the request.' },
+        { name: 'issueLocale', label: 'Issue locale', type: 'text', description: 'A locale for localization of issues.' },
+        { name: 'includedData', label: 'Included data', type: 'multi-select', options: ['summaries', 'attributes', 'issues', 'offers', 'fulfillmentAvailability', 'procurement', 'relationships', 'productTypes'], description: 'A comma-delimited list of data sets to include in the response.' },
+        { name: 'identifiers', label: 'Identifiers', type: 'list', description: 'A comma-delimited list of product identifiers to search for listings items.' },
+        { name: 'identifiersType', label: 'Identifiers type', type: 'select', options: ['ASIN', 'EAN', 'FNSKU', 'GTIN', 'ISBN', 'JAN', 'MINSAN', 'SKU', 'UPC'], description: 'Type of product identifiers to search for listings items.' },
+        { name: 'pageSize', label: 'Page size', type: 'number', max: 20, description: 'Number of results to be returned per page.' }
+      ],
+      rateLimit: { rate: 5, burst: 5 }
+    }
+  },
+  merchantFulfillmentV0: {
+    getShipment: {
+      operationId: 'getShipment',
+      path: '/mfn/v0/shipments/{shipmentId}',
+      method: 'GET',
+      paramFields: [
+        { name: 'shipmentId', label: 'Shipment ID', type: 'text', required: true, description: 'The Amazon-defined shipment identifier for the shipment.' }
+      ],
+      rateLimit: { rate: 1, burst: 1 }
+    }
+  },
+  notifications: {
+    getDestinations: {
+      operationId: 'getDestinations',
+      path: '/notifications/v1/destinations',
+      method: 'GET',
+      paramFields: [],
+      rateLimit: { rate: 1, burst: 5 }
+    }
+  },
+  ordersV0: {
+    getOrders: {
+      operationId: 'getOrders',
+      path: '/orders/v0/orders',
+      method: 'GET',
+      paramFields: [
+        { name: 'CreatedAfter', label: 'Created after', type: 'date', description: 'Use this date to select orders created after (or at) a specified time.' },
+        { name: 'CreatedBefore', label: 'Created before', type: 'date', description: 'Use this date to select orders created before (or at) a specified time.' },
+        { name: 'LastUpdatedAfter', label: 'Last updated after', type: 'date', description: 'Use this date to select orders that were last updated after (or at) a specified time.' },
+        { name: 'LastUpdatedBefore', label: 'Last updated before', type: 'date', description: 'Use this date to select orders that were last updated before (or at) a specified time.' },
+        { name: 'OrderStatuses', label: 'Order statuses', type: 'multi-select', options: ['PendingAvailability', 'Pending', 'Unshipped', 'PartiallyShipped', 'Shipped', 'InvoiceUnconfirmed', 'Canceled', 'Unfulfillable'], description: 'A list of OrderStatus values used to filter the results.' },
+        { name: 'MarketplaceIds', label: 'Marketplaces', type: 'marketplaces', required: true, description: 'A list of MarketplaceId values.' },
+        { name: 'FulfillmentChannels', label: 'Fulfillment channels', type: 'multi-select', options: ['AFN', 'MFN'], description: 'A list that indicates how an order was fulfilled.' },
+        { name: 'PaymentMethods', label: 'Payment methods', type: 'multi-select', options: ['COD', 'CVS', 'Other'], description: 'A list of payment method values.' },
+        { name: 'BuyerEmail', label: 'Buyer email', type: 'text', description: 'The email address of a buyer.' },
+        { name: 'SellerOrderId', label: 'Seller order ID', type: 'text', description: 'An order identifier that is specified by the seller.' },
+        { name: 'MaxResultsPerPage', label: 'Max results per page', type: 'number', min: 1, max: 100, description: 'A number that indicates the maximum number of orders that can be returned per page.' },
+        { name: 'AmazonOrderIds', label: 'Amazon order IDs', type: 'list', description: 'A list of AmazonOrderId values.' }
+      ],
+      rateLimit: { rate: 0.0167, burst: 20 }
+    },
+    getOrderItems: {
+      operationId: 'getOrderItems',
+      path: '/orders/v0/orders/{orderId}/orderItems',
+      method: 'GET',
+      paramFields: [
+        { name: 'orderId', label: 'Order ID', type: 'text', required: true, description: 'An Amazon-defined order identifier, in 3-7-7 format.' }
+      ],
+      rateLimit: { rate: 0.5, burst: 30 }
+    }
+  },
+  productFeesV0: {
+    getMyFeesEstimateForSKU: {
+      operationId: 'getMyFeesEstimateForSKU',
+      path: '/products/fees/v0/listings/{SellerSKU}/feesEstimate',
+      method: 'POST',
+      paramFields: [
+        { name: 'SellerSKU', label: 'Seller SKU', type: 'text', required: true, description: 'Used to identify an item in the given marketplace.' }
+      ],
+      rateLimit: { rate: 1, burst: 2 },
+      hasBody: true
+    }
+  },
+  productPricingV0: {
+    getPricing: {
+      operationId: 'getPricing',
+      path: '/products/pricing/v0/price',
+      method: 'GET',
+      paramFields: [
+        { name: 'MarketplaceId', label: 'Marketplace', type: 'marketplace', required: true, description: 'A marketplace identifier.' },
+        { name: 'Asins', label: 'ASINs', type: 'list', description: 'A list of up to twenty Amazon Standard Identification Number (ASIN) values used to identify items in the given marketplace.' },
+        { name: 'Skus', label: 'SKUs', type: 'list', description: 'A list of up to twenty seller SKU values used to identify items in the given marketplace.' },
+        { name: 'ItemType', label: 'Item type', type: 'select', required: true, options: ['Asin', 'Sku'], description: 'Indicates whether ASIN values or seller SKU values are used to identify items.' },
+        { name: 'ItemCondition', label: 'Item condition', type: 'select', options: ['New', 'Used', 'Collectible', 'Refurbished', 'Club'], description: 'Filters the offer listings based on item condition.' },
+        { name: 'OfferType', label: 'Offer type', type: 'select', options: ['B2C', 'B2B'], description: 'Indicates whether to request pricing information for the seller\'s B2C or B2B offers.' }
+      ],
+      rateLimit: { rate: 0.5, burst: 1 }
+    }
+  },
+  reports: {
+    getReports: {
+      operationId: 'getReports',
+      path: '/reports/2021-06-30/reports',
+      method: 'GET',
+      paramFields: [
+        { name: 'reportTypes', label: 'Report types', type: 'list', description: 'A list of report types used to filter reports.' },
+        { name: 'processingStatuses', label: 'Processing statuses', type: 'multi-select', options: ['CANCELLED', 'DONE', 'FATAL', 'IN_PROGRESS', 'IN_QUEUE'], description: 'A list of processing statuses used to filter reports.' },
+        { name: 'marketplaceIds', label: 'Marketplaces', type: 'marketplaces', description: 'A list of marketplace identifiers used to filter reports.' },
+        { name: 'pageSize', label: 'Page size', type: 'number', min: 1, max: 100, description: 'The maximum number of reports to return in a single call.' },
+        { name: 'createdSince', label: 'Created since', type: 'date', description: 'The earliest report creation date and time for reports to include in the response, in ISO 8601 date time format.' },
+        { name: 'createdUntil', label: 'Created until', type: 'date', description: 'The latest report creation date and time for reports to include in the response, in ISO 8601 date time format.' }
+      ],
+      rateLimit: { rate: 0.0222, burst: 10 }
+    },
+    createReport: {
+      operationId: 'createReport',
+      path: '/reports/2021-06-30/reports',
+      method: 'POST',
+      paramFields: [],
+      rateLimit: { rate: 0.0167, burst: 15 },
+      hasBody: true
+    },
+    getReport: {
+      operationId: 'getReport',
+      path: '/reports/2021-06-30/reports/{reportId}',
+      method: 'GET',
+      paramFields: [
+        { name: 'reportId', label: 'Report ID', type: 'text', required: true, description: 'The identifier for the report.' }
+      ],
+      rateLimit: { rate: 2, burst: 15 }
+    },
+    getReportSchedules: {
+      operationId: 'getReportSchedules',
+      path: '/reports/2021-06-30/schedules',
+      method: 'GET',
+      paramFields: [
+        { name: 'reportTypes', label: 'Report types', type: 'list', required: true, description: 'A list of report types used to filter report schedules.' }
+      ],
+      rateLimit: { rate: 0.0222, burst: 10 }
+    },
+    createReportSchedule: {
+      operationId: 'createReportSchedule',
+      path: '/reports/2021-06-30/schedules',
+      method: 'POST',
+      paramFields: [],
+      rateLimit: { rate: 0.0222, burst: 10 },
+      hasBody: true
+    },
+    cancelReportSchedule: {
+      operationId: 'cancelReportSchedule',
+      path: '/reports/2021-06-30/schedules/{reportScheduleId}',
+      method: 'DELETE',
+      paramFields: [
+        { name: 'reportScheduleId', label: 'Report schedule ID', type: 'text', required: true, description: 'The identifier for the report schedule.' }
+      ],
+      rateLimit: { rate: 0.0222, burst: 10 }
+    },
+    getReportDocument: {
+      operationId: 'getReportDocument',
+      path: '/reports/2021-06-30/documents/{reportDocumentId}',
+      method: 'GET',
+      paramFields: [
+        { name: 'reportDocumentId', label: 'Report document ID', type: 'text', required: true, description: 'The identifier for the report document.' }
+      ],
+      rateLimit: { rate: 0.0167, burst: 15 }
+    }
+  },
+  sales: {
+    getOrderMetrics: {
+      operationId: 'getOrderMetrics',
+      path: '/sales/v1/orderMetrics',
+      method: 'GET',
+      paramFields: [
+        { name: 'marketplaceIds', label: 'Marketplaces', type: 'marketplaces', required: true, description: 'A list of marketplace identifiers.' },
+        { name: 'interval', label: 'Interval', type: 'text', required: true, description: 'A time interval used for selecting order metrics.' },
+        { name: 'granularityTimeZone', label: 'Granularity time zone', type: 'text', description: 'An IANA-compatible time zone for determining the day boundary.' },
+        { name: 'granularity', label: 'Granularity', type: 'select', required: true, options: ['Hour', 'Day', 'Week', 'Month', 'Year', 'Total'], description: 'The granularity of the grouping of order metrics, based on a unit of time.' },
+        { name: 'buyerType', label: 'Buyer type', type: 'select', options: ['B2B', 'B2C', 'All'], description: 'Filters the results by the buyer type that you specify, B2B (business to business) or B2C (business to customer).' },
+        { name: 'fulfillmentNetwork', label: 'Fulfillment network', type: 'text', description: 'Filters the results by the fulfillment network that you specify, MFN (merchant fulfillment network) or AFN (Amazon fulfillment network).' },
+        { name: 'firstDayOfWeek', label: 'First day of week', type: 'select', options: ['Monday', 'Sunday'], description: 'Specifies the day that the week starts on when granularity=Week, either Monday or Sunday.' },
+        { name: 'asin', label: 'ASIN', type: 'text', description: 'Filters the results by the ASIN that you specify.' },
+        { name: 'sku', label: 'SKU', type: 'text', description: 'Filters the results by the SKU that you specify.' }
+      ],
+      rateLimit: { rate: 0.5, burst: 15 }
+    }
+  },
+  sellers: {
+    getMarketplaceParticipations: {
+      operationId: 'getMarketplaceParticipations',
+      path: '/sellers/v1/marketplaceParticipations',
+      method: 'GET',
+      paramFields: [],
+      rateLimit: { rate: 0.016, burst: 15 }
+    }
+  },
+  shipping: {
+    getShipment: {
+      operationId: 'getShipment',
+      path: '/shipping/v1/shipments/{shipmentId}',
+      method: 'GET',
+      paramFields: [
+        { name: 'shipmentId', label: 'Shipment ID', type: 'text', required: true }
+      ],
+      rateLimit: { rate: 5, burst: 15 }
+    }
+  },
+  tokens: {
+    createRestrictedDataToken: {
+      operationId: 'createRestrictedDataToken',
+      path: '/tokens/2021-03-01/restrictedDataToken',
+      method: 'POST',
+      paramFields: [],
+      rateLimit: { rate: 1, burst: 10 },
+      hasBody: true
+    }
+  }
+} satisfies Record<string, Record<string, SpApiOperation>>;
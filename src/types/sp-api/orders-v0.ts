@@ -0,0 +1,143 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Orders, version v0
+
+/** The response schema for the getOrders operation. */
+export interface GetOrdersResponse {
+  payload?: OrdersList;
+  errors?: ErrorList;
+}
+
+/** A list of orders along with additional information to make subsequent API calls. */
+export interface OrdersList {
+  Orders: OrderList;
+  /** When present and not empty, pass this string token in the next request to return the next response page. */
+  NextToken?: string;
+  /** Use this date to select orders that were last updated before (or at) a specified time. */
+  LastUpdatedBefore?: string;
+  /** Use this date to select orders created before (or at) a specified time. */
+  CreatedBefore?: string;
+}
+
+/** A list of orders. */
+export type OrderList = Order[];
+
+/** Order information. */
+export interface Order {
+  /** An Amazon-defined order identifier, in 3-7-7 format. */
+  AmazonOrderId: string;
+  /** A seller-defined order identifier. */
+  SellerOrderId?: string;
+  /** The date when the order was created. */
+  PurchaseDate: string;
+  /** The date when the order was last updated. */
+  LastUpdateDate: string;
+  /** The current order status. */
+  OrderStatus: 'Pending' | 'Unshipped' | 'PartiallyShipped' | 'Shipped' | 'Canceled' | 'Unfulfillable' | 'InvoiceUnconfirmed' | 'PendingAvailability';
+  /** Whether the order was fulfilled by Amazon (AFN) or by the seller (MFN). */
+  FulfillmentChannel?: 'MFN' | 'AFN';
+  /** The sales channel for the first item in the order. */
+  SalesChannel?: string;
+  OrderTotal?: Money;
+  /** The number of items shipped. */
+  NumberOfItemsShipped?: number;
+  /** The number of items unshipped. */
+  NumberOfItemsUnshipped?: number;
+  /** The payment method for the order. */
+  PaymentMethod?: 'COD' | 'CVS' | 'Other';
+  /** The identifier for the marketplace where the order was placed. */
+  MarketplaceId?: string;
+  /** The shipment service level category for the order. */
+  ShipmentServiceLevelCategory?: string;
+  /** The order's type. */
+  OrderType?: 'StandardOrder' | 'LongLeadTimeOrder' | 'Preorder' | 'BackOrder' | 'SourcingOnDemandOrder';
+  /** The start of the time period within which you have committed to ship the order. */
+  EarliestShipDate?: string;
+  /** The end of the time period within which you have committed to ship the order. */
+  LatestShipDate?: string;
+  /** When true, the order is an Amazon Business order. */
+  IsBusinessOrder?: boolean;
+  /** When true, the order is a seller-fulfilled Amazon Prime order. */
+  IsPrime?: boolean;
+  ShippingAddress?: Address;
+  BuyerInfo?: BuyerInfo;
+}
+
+/** The response schema for the getOrderItems operation. */
+export interface GetOrderItemsResponse {
+  payload?: OrderItemsList;
+  errors?: ErrorList;
+}
+
+/** The order items list along with the order ID. */
+export interface OrderItemsList {
+  /** A list of order items. */
+  OrderItems: OrderItem[];
+  /** When present and not empty, pass this string token in the next request to return the next response page. */
+  NextToken?: string;
+  /** An Amazon-defined order identifier, in 3-7-7 format. */
+  AmazonOrderId: string;
+}
+
+/** A single order item. */
+export interface OrderItem {
+  /** The item's Amazon Standard Identification Number (ASIN). */
+  ASIN: string;
+  /** The item's seller stock keeping unit (SKU). */
+  SellerSKU?: string;
+  /** An Amazon-defined order item identifier. */
+  OrderItemId: string;
+  /** The item's name. */
+  Title?: string;
+  /** The number of items in the order. */
+  QuantityOrdered: number;
+  /** The number of items shipped. */
+  QuantityShipped?: number;
+  ItemPrice?: Money;
+  ItemTax?: Money;
+  PromotionDiscount?: Money;
+}
+
+/** The monetary value of the order. */
+export interface Money {
+  /** The three-digit currency code. */
+  CurrencyCode?: string;
+  /** The currency amount. */
+  Amount?: string;
+}
+
+/** The shipping address for the order. */
+export interface Address {
+  /** The name. */
+  Name: string;
+  /** The street address. */
+  AddressLine1?: string;
+  /** The city. */
+  City?: string;
+  /** The state or region. */
+  StateOrRegion?: string;
+  /** The postal code. */
+  PostalCode?: string;
+  /** The country code. */
+  CountryCode?: string;
+}
+
+/** Buyer information. */
+export interface BuyerInfo {
+  /** The anonymized email address of the buyer. */
+  BuyerEmail?: string;
+  /** The buyer name or the recipient name. */
+  BuyerName?: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message?: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,89 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Product Fees, version v0
+
+/** Request schema. */
+export interface GetMyFeesEstimateRequest {
+  FeesEstimateRequest?: FeesEstimateRequest;
+}
+
+/** A product, marketplace, and proposed price used to request estimated fees. */
+export interface FeesEstimateRequest {
+  /** A marketplace identifier. */
+  MarketplaceId: string;
+  /** When true, the offer is fulfilled by Amazon. */
+  IsAmazonFulfilled?: boolean;
+  PriceToEstimateFees: PriceToEstimateFees;
+  /** A unique identifier provided by the caller to track this request. */
+  Identifier: string;
+}
+
+/** Price information for an item, used to estimate fees. */
+export interface PriceToEstimateFees {
+  ListingPrice: MoneyType;
+  Shipping?: MoneyType;
+}
+
+export interface GetMyFeesEstimateResponse {
+  payload?: GetMyFeesEstimateResult;
+  errors?: ErrorList;
+}
+
+/** Response schema. */
+export interface GetMyFeesEstimateResult {
+  FeesEstimateResult?: FeesEstimateResult;
+}
+
+/** An item identifier and the estimated fees for the item. */
+export interface FeesEstimateResult {
+  /** The status of the fee request. */
+  Status?: string;
+  FeesEstimate?: FeesEstimate;
+  Error?: FeesEstimateError;
+}
+
+/** The total estimated fees for an item and a list of details. */
+export interface FeesEstimate {
+  /** The time at which the fees were estimated. */
+  TimeOfFeesEstimation: string;
+  TotalFeesEstimate?: MoneyType;
+  /** A list of other fees that contribute to a given fee. */
+  FeeDetailList?: FeeDetail[];
+}
+
+/** The type of fee, fee amount, and other details. */
+export interface FeeDetail {
+  /** The type of fee charged to a seller. */
+  FeeType: string;
+  FeeAmount: MoneyType;
+  FinalFee: MoneyType;
+}
+
+/** An unexpected error occurred during this operation. */
+export interface FeesEstimateError {
+  /** An error type, identifying either the receiver or the sender as the originator of the error. */
+  Type: string;
+  /** An error code that identifies the type of error that occurred. */
+  Code: string;
+  /** A message that describes the error condition. */
+  Message: string;
+}
+
+export interface MoneyType {
+  /** The currency code in ISO 4217 format. */
+  CurrencyCode?: string;
+  /** The monetary value. */
+  Amount?: number;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
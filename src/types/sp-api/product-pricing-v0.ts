@@ -0,0 +1,78 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Pricing, version v0
+
+/** The response schema for the getPricing and getCompetitivePricing operations. */
+export interface GetPricingResponse {
+  payload?: PriceList;
+  errors?: ErrorList;
+}
+
+export type PriceList = Price[];
+
+export interface Price {
+  /** The status of the operation. */
+  status: string;
+  /** The seller stock keeping unit (SKU) of the item. */
+  SellerSKU?: string;
+  /** The Amazon Standard Identification Number (ASIN) of the item. */
+  ASIN?: string;
+  Product?: Product;
+}
+
+/** An item. */
+export interface Product {
+  Identifiers: IdentifierType;
+  Offers?: OffersList;
+}
+
+/** Specifies the identifiers used to uniquely identify an item. */
+export interface IdentifierType {
+  MarketplaceASIN: ASINIdentifier;
+}
+
+export interface ASINIdentifier {
+  /** A marketplace identifier. */
+  MarketplaceId: string;
+  /** The Amazon Standard Identification Number (ASIN) of the item. */
+  ASIN: string;
+}
+
+/** A list of offers. */
+export type OffersList = OfferType[];
+
+export interface OfferType {
+  BuyingPrice: PriceType;
+  RegularPrice: MoneyType;
+  /** The fulfillment channel for the offer listing. */
+  FulfillmentChannel: string;
+  /** The item condition for the offer listing. */
+  ItemCondition: string;
+  /** The seller stock keeping unit (SKU) of the item. */
+  SellerSKU: string;
+}
+
+export interface PriceType {
+  LandedPrice?: MoneyType;
+  ListingPrice: MoneyType;
+  Shipping?: MoneyType;
+}
+
+export interface MoneyType {
+  /** The currency code in ISO 4217 format. */
+  CurrencyCode?: string;
+  /** The monetary value. */
+  Amount?: number;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional information that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,123 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Report v2021-06-30, version 2021-06-30
+
+/** The response for the getReports operation. */
+export interface GetReportsResponse {
+  reports: ReportList;
+  /** Returned when the number of results exceeds pageSize. */
+  nextToken?: string;
+}
+
+/** A list of reports. */
+export type ReportList = Report[];
+
+/** Detailed information about the report. */
+export interface Report {
+  /** A list of marketplace identifiers for the report. */
+  marketplaceIds?: string[];
+  /** The identifier for the report. */
+  reportId: string;
+  /** The report type. */
+  reportType: string;
+  /** The start of a date and time range used for selecting the data to report. */
+  dataStartTime?: string;
+  /** The end of a date and time range used for selecting the data to report. */
+  dataEndTime?: string;
+  /** The identifier of the report schedule that created this report (if any). */
+  reportScheduleId?: string;
+  /** The date and time when the report was created. */
+  createdTime: string;
+  /** The processing status of the report. */
+  processingStatus: 'CANCELLED' | 'DONE' | 'FATAL' | 'IN_PROGRESS' | 'IN_QUEUE';
+  /** The date and time when the report processing started, in ISO 8601 date time format. */
+  processingStartTime?: string;
+  /** The date and time when the report processing completed, in ISO 8601 date time format. */
+  processingEndTime?: string;
+  /** The identifier for the report document. */
+  reportDocumentId?: string;
+}
+
+/** Information required to create the report. */
+export interface CreateReportSpecification {
+  /** Additional information passed to reports. */
+  reportOptions?: Record<string, unknown>;
+  /** The report type. */
+  reportType: string;
+  /** The start of a date and time range, in ISO 8601 date time format, used for selecting the data to report. */
+  dataStartTime?: string;
+  /** The end of a date and time range, in ISO 8601 date time format, used for selecting the data to report. */
+  dataEndTime?: string;
+  /** A list of marketplace identifiers. */
+  marketplaceIds: string[];
+}
+
+/** The response schema. */
+export interface CreateReportResponse {
+  /** The identifier for the report. */
+  reportId: string;
+}
+
+export interface CreateReportScheduleSpecification {
+  /** The report type. */
+  reportType: string;
+  /** A list of marketplace identifiers for the report schedule. */
+  marketplaceIds: string[];
+  /** Additional information passed to reports. */
+  reportOptions?: Record<string, unknown>;
+  /** One of a set of predefined ISO 8601 periods that specifies how often a report should be created. */
+  period: 'PT5M' | 'PT15M' | 'PT30M' | 'PT1H' | 'PT2H' | 'PT4H' | 'PT8H' | 'PT12H' | 'P1D' | 'P2D' | 'P3D' | 'PT84H' | 'P7D' | 'P14D' | 'P15D' | 'P18D' | 'P30D' | 'P1M';
+  /** The date and time when the schedule will create its next report, in ISO 8601 date time format. */
+  nextReportCreationTime?: string;
+}
+
+/** Response schema. */
+export interface CreateReportScheduleResponse {
+  /** The identifier for the report schedule. */
+  reportScheduleId: string;
+}
+
+/** A list of report schedules. */
+export interface ReportScheduleList {
+  reportSchedules: ReportSchedule[];
+}
+
+/** Detailed information about a report schedule. */
+export interface ReportSchedule {
+  /** The identifier for the report schedule. */
+  reportScheduleId: string;
+  /** The report type. */
+  reportType: string;
+  /** A list of marketplace identifiers. */
+  marketplaceIds?: string[];
+  /** Additional information passed to reports. */
+  reportOptions?: Record<string, unknown>;
+  /** An ISO 8601 period value that indicates how often a report should be created. */
+  period: string;
+  /** The date and time when the schedule will create its next report, in ISO 8601 date time format. */
+  nextReportCreationTime?: string;
+}
+
+/** Information required for the report document. */
+export interface ReportDocument {
+  /** The identifier for the report document. */
+  reportDocumentId: string;
+  /** A presigned URL for the report document. */
+  url: string;
+  /** If the report document contents have been compressed, the compression algorithm used is returned in this property and you must decompress the report when you download. */
+  compressionAlgorithm?: 'GZIP';
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export interface ErrorList {
+  errors: Error[];
+}
+
+/** An error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
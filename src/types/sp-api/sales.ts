@@ -0,0 +1,46 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Sales, version v1
+
+/** The response schema for the getOrderMetrics operation. */
+export interface GetOrderMetricsResponse {
+  payload?: OrderMetricsList;
+  errors?: ErrorList;
+}
+
+/** A set of order metrics, each scoped to a particular time interval. */
+export type OrderMetricsList = OrderMetricsInterval[];
+
+/** Contains order metrics. */
+export interface OrderMetricsInterval {
+  /** The interval of time based on requested granularity (ex. */
+  interval: string;
+  /** The number of units in orders based on the specified filters. */
+  unitCount: number;
+  /** The number of order items based on the specified filters. */
+  orderItemCount: number;
+  /** The number of orders based on the specified filters. */
+  orderCount: number;
+  averageUnitPrice: Money;
+  totalSales: Money;
+}
+
+/** The currency type and the amount. */
+export interface Money {
+  /** Three-digit currency code. */
+  currencyCode: string;
+  /** A decimal number with no loss of precision. */
+  amount: string;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition in a human-readable form. */
+  message?: string;
+  /** Additional information that can help the caller understand or fix the issue. */
+  details?: string;
+}
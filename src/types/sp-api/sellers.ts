@@ -0,0 +1,55 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Sellers, version v1
+
+/** The response schema for the getMarketplaceParticipations operation. */
+export interface GetMarketplaceParticipationsResponse {
+  payload?: MarketplaceParticipationList;
+  errors?: ErrorList;
+}
+
+/** List of marketplace participations. */
+export type MarketplaceParticipationList = MarketplaceParticipation[];
+
+export interface MarketplaceParticipation {
+  marketplace: Marketplace;
+  participation: Participation;
+  /** The name of the seller's store as displayed in the marketplace. */
+  storeName: string;
+}
+
+/** Information about an Amazon marketplace where a seller can list items and customers can view and purchase items. */
+export interface Marketplace {
+  /** The encrypted marketplace value. */
+  id: string;
+  /** Marketplace name. */
+  name: string;
+  /** The ISO 3166-1 alpha-2 format country code of the marketplace. */
+  countryCode: string;
+  /** The ISO 4217 format currency code of the marketplace. */
+  defaultCurrencyCode: string;
+  /** The ISO 639-1 format language code of the marketplace. */
+  defaultLanguageCode: string;
+  /** The domain name of the marketplace. */
+  domainName: string;
+}
+
+/** Information that is specific to a seller in a marketplace. */
+export interface Participation {
+  /** If true, the seller participates in the marketplace. */
+  isParticipating: boolean;
+  /** Specifies if the seller has suspended listings. */
+  hasSuspendedListings: boolean;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
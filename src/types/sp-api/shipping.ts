@@ -0,0 +1,99 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Shipping, version v1
+
+/** The response schema for the getShipment operation. */
+export interface GetShipmentResponse {
+  payload?: Shipment;
+  errors?: ErrorList;
+}
+
+/** The shipment related data. */
+export interface Shipment {
+  /** The unique shipment identifier. */
+  shipmentId: string;
+  /** Client reference id. */
+  clientReferenceId: string;
+  shipFrom: Address;
+  shipTo: Address;
+  acceptedRate?: AcceptedRate;
+  shipper?: Party;
+  containers: ContainerList;
+}
+
+/** The address. */
+export interface Address {
+  /** The name of the person, business or institution at that address. */
+  name: string;
+  /** First line of that address. */
+  addressLine1: string;
+  /** Additional address information, if required. */
+  addressLine2?: string;
+  /** The state or region where the person, business or institution is located. */
+  stateOrRegion: string;
+  /** The city where the person, business or institution is located. */
+  city: string;
+  /** The two digit country code. */
+  countryCode: string;
+  /** The postal code of that address. */
+  postalCode: string;
+  /** The email address of the contact associated with the address. */
+  email?: string;
+  /** The phone number of the person, business or institution located at that address. */
+  phoneNumber?: string;
+}
+
+/** The specific rate purchased for the shipment, or null if unpurchased. */
+export interface AcceptedRate {
+  totalCharge?: Currency;
+  billedWeight?: Weight;
+  /** The type of shipping service that will be used for the service offering. */
+  serviceType?: 'Amazon Shipping Ground' | 'Amazon Shipping Standard' | 'Amazon Shipping Premium';
+}
+
+/** The account related with the shipment. */
+export interface Party {
+  /** This is the Amazon Shipping account id generated during the Amazon Shipping onboarding process. */
+  accountId?: string;
+}
+
+/** A list of container. */
+export type ContainerList = Container[];
+
+/** Container in the shipment. */
+export interface Container {
+  /** The type of physical container being used. */
+  containerType?: 'PACKAGE';
+  /** An identifier for the container. */
+  containerReferenceId: string;
+  value: Currency;
+  weight?: Weight;
+}
+
+/** The total value of all items in the container. */
+export interface Currency {
+  /** The amount of currency. */
+  value: number;
+  /** A 3-character currency code. */
+  unit: string;
+}
+
+/** The weight. */
+export interface Weight {
+  /** The unit of measurement. */
+  unit: 'g' | 'kg' | 'oz' | 'lb';
+  /** The measurement value. */
+  value: number;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export type ErrorList = Error[];
+
+/** Error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occured. */
+  code: string;
+  /** A message that describes the error condition in a human-readable form. */
+  message?: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,43 @@
+// Generated by scripts/generate-sp-api.mjs from vendor/sp-api-models. Do not edit.
+// Selling Partner API for Tokens, version 2021-03-01
+
+/** The request schema for the createRestrictedDataToken operation. */
+export interface CreateRestrictedDataTokenRequest {
+  /** The application ID for the target application to which access is being delegated. */
+  targetApplication?: string;
+  /** A list of restricted resources. */
+  restrictedResources: RestrictedResource[];
+}
+
+/** Model of a restricted resource. */
+export interface RestrictedResource {
+  /** The HTTP method in the restricted resource. */
+  method: 'GET' | 'PUT' | 'POST' | 'DELETE';
+  /** The path in the restricted resource. */
+  path: string;
+  /** Indicates the type of Personally Identifiable Information requested. */
+  dataElements?: string[];
+}
+
+/** The response schema for the createRestrictedDataToken operation. */
+export interface CreateRestrictedDataTokenResponse {
+  /** A Restricted Data Token (RDT). */
+  restrictedDataToken?: string;
+  /** The lifetime of the Restricted Data Token, in seconds. */
+  expiresIn?: number;
+}
+
+/** A list of error responses returned when a request is unsuccessful. */
+export interface ErrorList {
+  errors: Error[];
+}
+
+/** An error response returned when the request is unsuccessful. */
+export interface Error {
+  /** An error code that identifies the type of error that occurred. */
+  code: string;
+  /** A message that describes the error condition. */
+  message: string;
+  /** Additional details that can help the caller understand or fix the issue. */
+  details?: string;
+}
@@ -0,0 +1,185 @@
+import { FeedIssue, FeedProcessingResult } from '../types/amazon-api';
+import { FeedFormat } from '../types/feed-types';
+import { parseFlatFile } from './flat-file';
+
+type Severity = FeedIssue['severity'];
+
+interface ListingsFeed {
+  messages?: { messageId?: number; sku?: string }[];
+}
+
+// Processing report of a JSON_LISTINGS_FEED
+interface ListingsProcessingReport {
+  summary?: { errors?: number; warnings?: number; messagesProcessed?: number; messagesAccepted?: number; messagesInvalid?: number };
+  issues?: { messageId?: number; code?: string; severity?: string; message?: string; attributeNames?: string[] }[];
+}
+
+const toSeverity = (value?: string): Severity => {
+  const severity = value?.toUpperCase();
+  return severity === 'ERROR' || severity === 'WARNING' ? severity : 'INFO';
+};
+
+const toNumber = (value?: string | null) => {
+  const number = value ? Number(value.trim()) : NaN;
+  return Number.isNaN(number) ? undefined : number;
+};
+
+function parseXml(text: string): Document {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The feed is not valid XML');
+  }
+  return document;
+}
+
+const childText = (element: Element, tagName: string) => element.getElementsByTagName(tagName)[0]?.textContent?.trim();
+
+// Counts the records of a feed and notes their SKUs, by message id or row number; throws when the
+// content can't be read as the feed type's format
+export function indexFeedRecords(format: FeedFormat, content: string): { recordCount: number; skus: Record<number, string> } {
+  const skus: Record<number, string> = {};
+
+  switch (format) {
+    case 'json': {
+      let feed: ListingsFeed;
+      try {
+        feed = JSON.parse(content);
+      } catch {
+        throw new Error('The feed is not valid JSON');
+      }
+      if (!Array.isArray(feed.messages) || feed.messages.length === 0) {
+        throw new Error('The feed has no messages');
+      }
+
+      feed.messages.forEach(message => {
+        if (typeof message.messageId === 'number' && message.sku) skus[message.messageId] = message.sku;
+      });
+      return { recordCount: feed.messages.length, skus };
+    }
+    case 'xml': {
+      const messages = Array.from(parseXml(content).getElementsByTagName('Message'));
+      if (messages.length === 0) {
+        throw new Error('The feed has no messages');
+      }
+
+      messages.forEach(message => {
+        const messageId = toNumber(childText(message, 'MessageID'));
+        const sku = childText(message, 'SKU');
+        if (messageId !== undefined && sku) skus[messageId] = sku;
+      });
+      return { recordCount: messages.length, skus };
+    }
+    default: {
+      const { rows } = parseFlatFile(content);
+      if (rows.length === 0) {
+        throw new Error('The feed has no rows below its header');
+      }
+
+      rows.forEach((row, index) => {
+        if (row.sku !== null && row.sku !== undefined) skus[index + 1] = String(row.sku);
+      });
+      return { recordCount: rows.length, skus };
+    }
+  }
+}
+
+function parseJsonReport(report: ListingsProcessingReport, skus: Record<number, string>): FeedProcessingResult {
+  return {
+    processed: report.summary?.messagesProcessed,
+    accepted: report.summary?.messagesAccepted,
+    invalid: report.summary?.messagesInvalid,
+    errors: report.summary?.errors,
+    warnings: report.summary?.warnings,
+    issues: (report.issues ?? []).map(issue => ({
+      recordId: issue.messageId,
+      sku: issue.messageId !== undefined ? skus[issue.messageId] : undefined,
+      severity: toSeverity(issue.severity),
+      code: issue.code ?? '',
+      message: issue.message ?? '',
+      attribute: issue.attributeNames?.join(', ')
+    }))
+  };
+}
+
+// <ProcessingReport> of XML feeds: a summary and a <Result> per message with an error or warning
+function parseXmlReport(text: string, skus: Record<number, string>): FeedProcessingResult {
+  const document = parseXml(text);
+  const summary = document.getElementsByTagName('ProcessingSummary')[0];
+  const count = (tagName: string) => (summary ? toNumber(childText(summary, tagName)) : undefined);
+
+  const issues: FeedIssue[] = Array.from(document.getElementsByTagName('Result')).map(result => {
+    const recordId = toNumber(childText(result, 'MessageID'));
+    return {
+      recordId: recordId || undefined, // Message id 0 stands for the feed as a whole
+      sku: childText(result, 'SKU') ?? (recordId ? skus[recordId] : undefined),
+      severity: toSeverity(childText(result, 'ResultCode')),
+      code: childText(result, 'ResultMessageCode') ?? '',
+      message: childText(result, 'ResultDescription') ?? ''
+    };
+  });
+
+  return {
+    processed: count('MessagesProcessed'),
+    accepted: count('MessagesSuccessful'),
+    invalid: count('MessagesWithError'),
+    errors: issues.filter(issue => issue.severity === 'ERROR').length,
+    warnings: count('MessagesWithWarning'),
+    issues
+  };
+}
+
+// Flat file reports list the record counts, then a table of the rows with problems:
+// original-record-number, sku, error-code, error-type, error-message
+function parseFlatFileReport(text: string, skus: Record<number, string>): FeedProcessingResult {
+  const count = (pattern: RegExp) => toNumber(pattern.exec(text)?.[1]);
+  const processed = count(/records processed\s+(\d+)/i);
+  const accepted = count(/records successful\s+(\d+)/i);
+
+  const lines = text.split(/\r\n|\n|\r/);
+  const headerIndex = lines.findIndex(line => line.trim().startsWith('original-record-number'));
+  const rows = headerIndex >= 0 ? parseFlatFile(lines.slice(headerIndex).join('\n')).rows : [];
+  const issues: FeedIssue[] = rows.map(row => {
+    const recordId = typeof row['original-record-number'] === 'number' ? row['original-record-number'] : undefined;
+    return {
+      recordId,
+      sku: row.sku !== null && row.sku !== undefined ? String(row.sku) : recordId !== undefined ? skus[recordId] : undefined,
+      severity: toSeverity(String(row['error-type'] ?? '')),
+      code: String(row['error-code'] ?? ''),
+      message: String(row['error-message'] ?? '')
+    };
+  });
+
+  return {
+    processed,
+    accepted,
+    invalid: processed !== undefined && accepted !== undefined ? processed - accepted : undefined,
+    errors: issues.filter(issue => issue.severity === 'ERROR').length,
+    warnings: issues.filter(issue => issue.severity === 'WARNING').length,
+    issues
+  };
+}
+
+// Reads the processing report of a feed, whichever of Amazon's report formats it comes in
+export function parseProcessingReport(text: string, skus: Record<number, string>): FeedProcessingResult {
+  const content = text.replace(/^\uFEFF/, '').trim();
+
+  if (content.startsWith('{')) {
+    try {
+      return parseJsonReport(JSON.parse(content), skus);
+    } catch {
+      // Not a JSON report after all
+    }
+  }
+  if (content.startsWith('<')) {
+    try {
+      return parseXmlReport(content, skus);
+    } catch {
+      // Not an XML report after all
+    }
+  }
+  if (/records processed/i.test(content)) {
+    return parseFlatFileReport(content, skus);
+  }
+
+  return { issues: [], text };
+}
@@ -0,0 +1,189 @@
+// Parser for the tab-delimited flat files most reports are delivered as. Headers differ per report
+// type (amazon-order-id, item-name, settlement-start-date, ...), so columns are taken from the first
+// line and their types inferred from the values.
+
+export type FlatFileValue = string | number | boolean | null;
+export type FlatFileColumnType = 'text' | 'number' | 'boolean' | 'date';
+
+export interface FlatFileColumn {
+  key: string; // Header as in the file, made unique when a report repeats one
+  label: string; // Readable header, e.g. Amazon order ID
+  type: FlatFileColumnType;
+}
+
+export interface FlatFile {
+  columns: FlatFileColumn[];
+  rows: Record<string, FlatFileValue>[]; // Keyed by column key; empty cells are null, dates ISO 8601 strings
+  encoding: string; // Character encoding the file was decoded with
+}
+
+const BYTE_ORDER_MARKS = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' }
+];
+
+// Java charset names Amazon uses in Content-Type headers, as TextDecoder labels
+const CHARSET_ALIASES: Record<string, string> = {
+  cp1252: 'windows-1252',
+  'windows-31j': 'shift_jis',
+  ms932: 'shift_jis',
+  cp932: 'shift_jis'
+};
+
+const ACRONYMS: Record<string, string> = {
+  id: 'ID', asin: 'ASIN', sku: 'SKU', fnsku: 'FNSKU', upc: 'UPC', ean: 'EAN', isbn: 'ISBN', url: 'URL', fba: 'FBA'
+};
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+// Amounts in some European reports, e.g. 12,99; values like 1,234 stay text since they may be thousands
+const DECIMAL_COMMA = /^[-+]?\d+,\d{1,2}$/;
+// Identifiers such as 00123 or postal codes look numeric but lose their leading zeros as numbers
+const LEADING_ZERO = /^[-+]?0\d/;
+// Longer digit strings, e.g. settlement ids, don't fit a number exactly
+const MAX_DIGITS = 15;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?( ?(Z|UTC|[+-]\d{2}:?\d{2}))?$/;
+// Settlement reports of European marketplaces, e.g. 05.01.2024 10:00:00 UTC
+const DOTTED_DATE = /^(\d{2})\.(\d{2})\.(\d{4})(?: (\d{2}:\d{2}:\d{2}))?(?: UTC)?$/;
+
+// Decodes a document using its byte order mark, the charset of its Content-Type, or UTF-8 with a
+// fallback to Windows-1252 for files that aren't valid UTF-8
+export function decodeText(bytes: ArrayBuffer, contentType = ''): { text: string; encoding: string } {
+  const view = new Uint8Array(bytes);
+
+  const bom = BYTE_ORDER_MARKS.find(mark => mark.bytes.every((byte, index) => view[index] === byte));
+  if (bom) {
+    return { text: new TextDecoder(bom.encoding).decode(view.subarray(bom.bytes.length)), encoding: bom.encoding };
+  }
+
+  const charset = /charset="?([^";]+)/i.exec(contentType)?.[1].trim().toLowerCase();
+  if (charset) {
+    const encoding = CHARSET_ALIASES[charset] ?? charset;
+    try {
+      return { text: new TextDecoder(encoding).decode(view), encoding };
+    } catch {
+      // Not a label the browser knows, detect the encoding instead
+    }
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(view), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(view), encoding: 'windows-1252' };
+  }
+}
+
+// A file is treated as tab-delimited when its first line has more than one column
+export function isTabDelimited(text: string): boolean {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/, 1)[0];
+  return firstLine.includes('\t');
+}
+
+export function isFlatFile(value: unknown): value is FlatFile {
+  return !!value && typeof value === 'object'
+    && Array.isArray((value as FlatFile).columns)
+    && Array.isArray((value as FlatFile).rows);
+}
+
+// amazon-order-id -> Amazon order ID
+export function labelFor(header: string): string {
+  const words = header.trim().split(/[-_\s]+/).filter(Boolean).map(word => ACRONYMS[word.toLowerCase()] ?? word.toLowerCase());
+  if (words.length === 0) return header;
+  const label = words.join(' ');
+  return label[0].toUpperCase() + label.slice(1);
+}
+
+// A cell wrapped in double quotes loses them, with doubled quotes inside unescaped
+function unquote(cell: string): string {
+  const value = cell.trim();
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1).replace(/""/g, '"')
+    : value;
+}
+
+function toIsoDate(value: string): string | null {
+  const dotted = DOTTED_DATE.exec(value);
+  const normalized = dotted
+    ? `${dotted[3]}-${dotted[2]}-${dotted[1]}T${dotted[4] ?? '00:00:00'}Z`
+    : ISO_DATE.test(value) ? value.replace(' ', 'T').replace(/ ?UTC$/, 'Z').replace(/ (?=[+-]\d)/, '') : null;
+  if (!normalized) return null;
+
+  const time = Date.parse(normalized);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function isNumeric(value: string, decimalComma: boolean): boolean {
+  const pattern = decimalComma ? DECIMAL_COMMA.test(value) || /^[-+]?\d+$/.test(value) : NUMBER.test(value);
+  return pattern && !LEADING_ZERO.test(value) && value.replace(/\D/g, '').length <= MAX_DIGITS;
+}
+
+function inferType(values: string[]): FlatFileColumnType {
+  if (values.length === 0) return 'text';
+  if (values.every(value => /^(true|false)$/i.test(value))) return 'boolean';
+  if (values.every(value => isNumeric(value, false)) || values.every(value => isNumeric(value, true))) return 'number';
+  if (values.every(value => toIsoDate(value) !== null)) return 'date';
+  return 'text';
+}
+
+function convert(value: string, type: FlatFileColumnType): FlatFileValue {
+  if (value === '') return null;
+
+  switch (type) {
+    case 'boolean':
+      return value.toLowerCase() === 'true';
+    case 'number':
+      return Number(value.replace(',', '.'));
+    case 'date':
+      return toIsoDate(value);
+    default:
+      return value;
+  }
+}
+
+export function parseFlatFile(text: string, encoding = 'utf-8'): FlatFile {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    return { columns: [], rows: [], encoding };
+  }
+
+  const cells = lines.map(line => line.split('\t').map(unquote));
+  const width = cells.reduce((widest, row) => Math.max(widest, row.length), 0);
+
+  // Repeated or missing headers get a suffix or a position, so every column has its own key. A suffixed
+  // key can itself be a header, e.g. a, a, a-2, so suffixes are counted up until the key is free
+  const seen = new Set<string>();
+  const keys = Array.from({ length: width }, (_, index) => {
+    const header = cells[0][index] || `column-${index + 1}`;
+    let key = header;
+    for (let count = 2; seen.has(key); count++) {
+      key = `${header}-${count}`;
+    }
+    seen.add(key);
+    return key;
+  });
+
+  const body = cells.slice(1);
+  const columns = keys.map((key, index): FlatFileColumn => ({
+    key,
+    label: labelFor(key),
+    type: inferType(body.map(row => row[index] ?? '').filter(value => value !== ''))
+  }));
+
+  const rows = body.map(row => Object.fromEntries(
+    columns.map((column, index) => [column.key, convert(row[index] ?? '', column.type)])
+  ));
+
+  return { columns, rows, encoding };
+}
+
+// Tab-delimited text of a parsed file, e.g. for downloading it again
+export function formatFlatFile({ columns, rows }: FlatFile): string {
+  const format = (value: FlatFileValue) => (value === null ? '' : String(value));
+  return [
+    columns.map(column => column.key).join('\t'),
+    ...rows.map(row => columns.map(column => format(row[column.key])).join('\t'))
+  ].join('\n');
+}
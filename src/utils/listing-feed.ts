@@ -0,0 +1,129 @@
+import { ApiResponse, FeedIssue, FeedSubmission, ListingChange } from '../types/amazon-api';
+import { getMarketplace } from '../types/marketplaces';
+import { SpApiOperationData } from '../types/sp-api';
+
+// A listing as the bulk editor shows it, from the latest listings-items and inventory responses
+export interface ListingRow {
+  sku: string;
+  asin?: string;
+  title?: string;
+  productType?: string; // Needed for a PATCH; unknown for SKUs only found in FBA inventory
+  currency?: string;
+  price?: number;
+  quantity?: number; // Merchant-fulfilled quantity
+  fulfilledByAmazon: boolean; // Amazon sets the quantity of FBA listings, a feed can't
+  fbaQuantity?: number; // Units in Amazon fulfillment centers
+}
+
+// Outcome of the latest feed that changed a SKU
+export interface ListingChangeResult {
+  feed: FeedSubmission;
+  change: ListingChange;
+  status: 'pending' | 'accepted' | 'rejected';
+  issues: FeedIssue[];
+}
+
+// Fulfillment channels of FBA listings, e.g. AMAZON_NA or AMAZON_EU
+const FBA_CHANNEL = /^AMAZON_/;
+
+const toNumber = (value?: string | number) => {
+  const number = value === undefined ? NaN : Number(value);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+export function extractListingRows(marketplaceId: string, listings?: ApiResponse, inventory?: ApiResponse): ListingRow[] {
+  const rows = new Map<string, ListingRow>();
+  const currency = getMarketplace(marketplaceId)?.currency;
+
+  const listingData = listings?.success ? listings.data as SpApiOperationData['listingsItems']['searchListingsItems'] : undefined;
+  for (const item of listingData?.items ?? []) {
+    const summary = item.summaries?.find(entry => entry.marketplaceId === marketplaceId) ?? item.summaries?.[0];
+    const offer = item.offers?.find(entry => entry.marketplaceId === marketplaceId && entry.offerType === 'B2C');
+    const merchantFulfilled = item.fulfillmentAvailability?.find(entry => entry.fulfillmentChannelCode === 'DEFAULT');
+
+    rows.set(item.sku, {
+      sku: item.sku,
+      asin: summary?.asin,
+      title: summary?.itemName,
+      productType: summary?.productType,
+      currency: offer?.price.currencyCode ?? currency,
+      price: toNumber(offer?.price.amount),
+      quantity: merchantFulfilled?.quantity,
+      fulfilledByAmazon: !merchantFulfilled && !!item.fulfillmentAvailability?.some(entry => FBA_CHANNEL.test(entry.fulfillmentChannelCode))
+    });
+  }
+
+  // FBA inventory adds the units in fulfillment centers, and SKUs the listings response didn't cover
+  const inventoryData = inventory?.success ? inventory.data as SpApiOperationData['fbaInventory']['getInventorySummaries'] : undefined;
+  for (const summary of inventoryData?.inventorySummaries ?? []) {
+    if (!summary.sellerSku) continue;
+
+    const row = rows.get(summary.sellerSku);
+    rows.set(summary.sellerSku, row
+      ? { ...row, fulfilledByAmazon: row.quantity === undefined, fbaQuantity: summary.totalQuantity }
+      : {
+          sku: summary.sellerSku,
+          asin: summary.asin,
+          title: summary.productName,
+          currency,
+          fulfilledByAmazon: true,
+          fbaQuantity: summary.totalQuantity
+        });
+  }
+
+  return [...rows.values()].sort((a, b) => a.sku.localeCompare(b.sku));
+}
+
+// A JSON_LISTINGS_FEED with one PATCH message per changed SKU, numbered in the order of the changes
+export function buildListingsFeed(sellerId: string, marketplaceId: string, changes: ListingChange[]): string {
+  const messages = changes.map((change, index) => {
+    const patches: Record<string, unknown>[] = [];
+    if (change.price) {
+      if (!change.currency) {
+        throw new Error(`The currency of ${change.sku} is unknown`);
+      }
+
+      patches.push({
+        op: 'replace',
+        path: '/attributes/purchasable_offer',
+        value: [{
+          marketplace_id: marketplaceId,
+          currency: change.currency,
+          our_price: [{ schedule: [{ value_with_tax: change.price.to }] }]
+        }]
+      });
+    }
+    if (change.quantity) {
+      patches.push({
+        op: 'replace',
+        path: '/attributes/fulfillment_availability',
+        value: [{ fulfillment_channel_code: 'DEFAULT', quantity: change.quantity.to }]
+      });
+    }
+
+    return { messageId: index + 1, sku: change.sku, operationType: 'PATCH', productType: change.productType, patches };
+  });
+
+  return JSON.stringify({ header: { sellerId, version: '2.0' }, messages }, null, 2);
+}
+
+// Maps the feeds of the bulk editor back to the SKUs they changed; feeds are newest first, so the
+// latest change of a SKU wins
+export function getListingChangeResults(feeds: FeedSubmission[]): Map<string, ListingChangeResult> {
+  const results = new Map<string, ListingChangeResult>();
+
+  for (const feed of feeds) {
+    for (const change of feed.changes ?? []) {
+      if (results.has(change.sku)) continue;
+
+      // Issues without a record concern the feed as a whole
+      const issues = feed.result?.issues.filter(issue => issue.sku === change.sku || issue.recordId === undefined) ?? [];
+      const status = feed.status === 'FATAL' || feed.status === 'CANCELLED' || issues.some(issue => issue.severity === 'ERROR')
+        ? 'rejected'
+        : feed.status === 'DONE' && feed.result ? 'accepted' : 'pending';
+      results.set(change.sku, { feed, change, status, issues });
+    }
+  }
+
+  return results;
+}
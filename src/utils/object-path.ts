@@ -0,0 +1,38 @@
+
+// Reads a dotted path such as 'payload.NextToken' from a parsed JSON value
+export function getPath(source: unknown, path: string): unknown {
+  if (!path) return source;
+
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+// Writes a value at a dotted path, creating intermediate objects as needed
+export function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = target;
+
+  keys.slice(0, -1).forEach(key => {
+    if (current[key] === null || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  });
+
+  current[keys[keys.length - 1]] = value;
+}
+
+// Collects every value at a dotted path, stepping into each element of the lists along the way:
+// 'Orders.AmazonOrderId' yields the id of every order
+export function collectPath(source: unknown, path: string): unknown[] {
+  const values = path.split('.').reduce<unknown[]>((current, key) => current
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter((value): value is Record<string, unknown> => value !== null && typeof value === 'object')
+    .map(value => value[key]), [source]);
+
+  return values
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter(value => value !== undefined && value !== null);
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { ApiEndpoint, ParamField, ParamFieldType } from '../types/amazon-api';
+import { isInterval, isRelativeDate } from './relative-date';
+
+// Values as edited in the parameter form: numbers, dates and lists are typed in as text
+export type ParamFormValue = string | boolean | string[];
+export type ParamFormValues = Record<string, ParamFormValue>;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === ''
+  || (Array.isArray(value) && value.length === 0);
+
+function inferFieldType(name: string, value: unknown): ParamFieldType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return 'number';
+  if (Array.isArray(value)) return /^marketplaceids$/i.test(name) ? 'marketplaces' : 'list';
+  if (/^marketplaceid$/i.test(name)) return 'marketplace';
+  if (isInterval(value)) return 'interval';
+  if (typeof value === 'string' && (isRelativeDate(value) || /^\d{4}-\d{2}-\d{2}T/.test(value))) return 'date';
+  return 'text';
+}
+
+// The endpoint's editable parameters; endpoints without field definitions get one field per default param
+export function getParamFields(endpoint: ApiEndpoint): ParamField[] {
+  if (endpoint.paramFields) return endpoint.paramFields;
+
+  return Object.entries(endpoint.defaultParams ?? {}).map(([name, value]) => ({
+    name,
+    label: name,
+    type: inferFieldType(name, value)
+  }));
+}
+
+function buildFieldSchema(field: ParamField): z.ZodTypeAny {
+  if (field.type === 'boolean') {
+    return z.boolean();
+  }
+
+  if (field.type === 'multi-select' || field.type === 'marketplaces') {
+    const schema = z.array(z.string());
+    return field.required ? schema.min(1, { message: 'Select at least one' }) : schema;
+  }
+
+  let schema: z.ZodTypeAny = field.required
+    ? z.string().trim().min(1, { message: `${field.label} is required` })
+    : z.string().trim();
+
+  if (field.type === 'number') {
+    schema = schema
+      .refine(value => value === '' || Number.isFinite(Number(value)), { message: 'Enter a number' })
+      .refine(value => value === '' || field.min === undefined || Number(value) >= field.min, { message: `Must be at least ${field.min}` })
+      .refine(value => value === '' || field.max === undefined || Number(value) <= field.max, { message: `Must be at most ${field.max}` });
+  }
+
+  if (field.type === 'date') {
+    schema = schema.refine(value => value === '' || isRelativeDate(value) || !Number.isNaN(Date.parse(value)), {
+      message: 'Enter a date or an expression such as now-30d'
+    });
+  }
+
+  if (field.type === 'interval') {
+    schema = schema.refine(value => value === '' || isInterval(value), {
+      message: 'Enter two dates or expressions joined by --, such as now-30d--now'
+    });
+  }
+
+  return schema;
+}
+
+// Zod schema validating the parameter form of the given fields
+export function buildParamSchema(fields: ParamField[]) {
+  return z.object(Object.fromEntries(fields.map(field => [field.name, buildFieldSchema(field)])));
+}
+
+export function toFormValues(fields: ParamField[], params: Record<string, unknown> = {}): ParamFormValues {
+  return Object.fromEntries(fields.map(field => {
+    const value = params[field.name];
+
+    switch (field.type) {
+      case 'boolean':
+        return [field.name, value === true];
+      case 'multi-select':
+      case 'marketplaces':
+        return [field.name, Array.isArray(value) ? value.map(String) : []];
+      case 'list':
+        return [field.name, Array.isArray(value) ? value.join(', ') : isEmpty(value) ? '' : String(value)];
+      default:
+        return [field.name, isEmpty(value) ? '' : String(value)];
+    }
+  }));
+}
+
+// Applies the form values on top of the base params. Fields left empty are removed, so
+// params that aren't part of the form (e.g. granularityType) are kept as they are.
+export function fromFormValues(
+  fields: ParamField[],
+  values: ParamFormValues,
+  base: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const params = { ...base };
+
+  fields.forEach(field => {
+    const value = values[field.name];
+
+    let converted: unknown = typeof value === 'string' ? value.trim() : value;
+    if (field.type === 'number' && converted !== '') {
+      converted = Number(converted);
+    } else if (field.type === 'list' && typeof converted === 'string') {
+      converted = converted.split(',').map(item => item.trim()).filter(Boolean);
+    }
+
+    if (isEmpty(converted)) {
+      delete params[field.name];
+    } else {
+      params[field.name] = converted;
+    }
+  });
+
+  return params;
+}
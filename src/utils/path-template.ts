@@ -0,0 +1,24 @@
+// Substitutes `{name}` placeholders in an operation path, e.g. /orders/v0/orders/{orderId}/orderItems.
+// The params used for the path are left out of the returned query params.
+export function fillPathTemplate(
+  path: string,
+  params: Record<string, unknown>
+): { path: string; params: Record<string, unknown> } {
+  const remaining = { ...params };
+
+  const filled = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = remaining[name];
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Missing value for the path parameter ${name}`);
+    }
+
+    delete remaining[name];
+    return encodeURIComponent(String(value));
+  });
+
+  return { path: filled, params: remaining };
+}
+
+export function getPathParameters(path: string): string[] {
+  return Array.from(path.matchAll(/\{(\w+)\}/g), match => match[1]);
+}
@@ -2,269 +2,63 @@
 export const proxySetupInstructions = `
 # Amazon SP-API Local Proxy Setup Instructions
 
-This guide will help you set up a local proxy server to bypass CORS restrictions when accessing the Amazon SP-API.
+The local proxy lives in the \`proxy/\` folder of this repository. It exchanges your
+refresh token with Login with Amazon and forwards requests to the regional SP-API host,
+so the browser never has to deal with CORS.
 
 ## Prerequisites
 
-- Node.js (v14 or later)
-- npm or yarn
+- Node.js 18 or later
+- npm
 
-## Step 1: Create a new directory for your proxy server
+## Step 1: Install the proxy dependencies
 
-Create a new folder somewhere on your computer, for example:
+From the root of this repository:
 \`\`\`
-mkdir amazon-sp-api-proxy
-cd amazon-sp-api-proxy
+cd proxy
+npm install
 \`\`\`
 
-## Step 2: Initialize a new Node.js project
+## Step 2: Review the configuration
 
-Run the following command to create a new Node.js project:
-\`\`\`
-npm init -y
-\`\`\`
-
-## Step 3: Install the required dependencies
-
-\`\`\`
-npm install express cors axios dotenv
-\`\`\`
-
-## Step 4: Create a .env file
-
-Create a file named \`.env\` in the root directory and add:
-\`\`\`
-PORT=8080
-\`\`\`
-
-## Step 5: Create the proxy server file
-
-Create a file named \`server.js\` with the following content:
-
-\`\`\`javascript
-// ES Module syntax (for Node.js with "type": "module" in package.json)
-import express from 'express';
-import cors from 'cors';
-import axios from 'axios';
-import dotenv from 'dotenv';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-dotenv.config();
-
-const app = express();
-const PORT = process.env.PORT || 8080;
-
-// Enable CORS for all routes
-app.use(cors());
-app.use(express.json());
-
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.status(200).json({ status: 'ok' });
-});
-
-// Amazon SP-API proxy endpoint
-app.post('/api/amazon/token', async (req, res) => {
-  try {
-    const { clientId, clientSecret, refreshToken } = req.body;
-    
-    if (!clientId || !clientSecret || !refreshToken) {
-      return res.status(400).json({ 
-        error: 'Missing required parameters: clientId, clientSecret, refreshToken' 
-      });
-    }
-
-    // In a production environment, you would make an actual call to Amazon's token endpoint
-    // For local testing, we'll just simulate a successful response
-    res.status(200).json({
-      access_token: 'simulated-access-token-' + Date.now(),
-      token_type: 'bearer',
-      expires_in: 3600
-    });
-  } catch (error) {
-    console.error('Error obtaining token:', error);
-    res.status(500).json({ 
-      error: 'Failed to obtain access token',
-      details: error.message
-    });
-  }
-});
-
-// Proxy API requests to Amazon SP-API
-app.post('/api/amazon/request', async (req, res) => {
-  try {
-    const { endpoint, method = 'GET', params, headers, body } = req.body;
-    
-    if (!endpoint) {
-      return res.status(400).json({ error: 'Missing required parameter: endpoint' });
-    }
+Settings are read from \`proxy/proxy.config.json\`:
 
-    // In a production environment, you would make an actual call to Amazon's SP-API
-    // For local testing, we'll just simulate a successful response with mock data
-    const mockResponse = {
-      success: true,
-      endpoint,
-      timestamp: new Date().toISOString(),
-      data: {
-        message: 'This is a simulated response from the proxy server',
-        endpoint,
-        params
-      }
-    };
-
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    res.status(200).json(mockResponse);
-  } catch (error) {
-    console.error('Error proxying request:', error);
-    res.status(500).json({ 
-      error: 'Failed to proxy request to Amazon SP-API',
-      details: error.message
-    });
-  }
-});
-
-app.listen(PORT, () => {
-  console.log(\`Amazon SP-API proxy server running on port \${PORT}\`);
-  console.log(\`Health check: http://localhost:\${PORT}/health\`);
-});
+\`\`\`json
+{
+  "host": "127.0.0.1",
+  "port": 3001,
+  "allowedOrigins": ["http://localhost:8080", "http://localhost:5173"],
+  "lwaTokenUrl": "https://api.amazon.com/auth/o2/token",
+  "defaultRegion": "na",
+  "requestTimeoutMs": 30000
+}
 \`\`\`
 
-## Alternative: Using CommonJS syntax
-
-If you're having issues with ES Modules, you can use CommonJS syntax instead. To do this, either:
-
-1. Delete the "type": "module" line from your package.json, or
-2. Rename your server.js file to server.cjs, or
-3. Create a new server.cjs file with the following CommonJS code:
-
-\`\`\`javascript
-// CommonJS syntax
-const express = require('express');
-const cors = require('cors');
-const axios = require('axios');
-const dotenv = require('dotenv');
-
-dotenv.config();
-
-const app = express();
-const PORT = process.env.PORT || 8080;
-
-// Enable CORS for all routes
-app.use(cors());
-app.use(express.json());
-
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.status(200).json({ status: 'ok' });
-});
-
-// Amazon SP-API proxy endpoint
-app.post('/api/amazon/token', async (req, res) => {
-  try {
-    const { clientId, clientSecret, refreshToken } = req.body;
-    
-    if (!clientId || !clientSecret || !refreshToken) {
-      return res.status(400).json({ 
-        error: 'Missing required parameters: clientId, clientSecret, refreshToken' 
-      });
-    }
-
-    // In a production environment, you would make an actual call to Amazon's token endpoint
-    // For local testing, we'll just simulate a successful response
-    res.status(200).json({
-      access_token: 'simulated-access-token-' + Date.now(),
-      token_type: 'bearer',
-      expires_in: 3600
-    });
-  } catch (error) {
-    console.error('Error obtaining token:', error);
-    res.status(500).json({ 
-      error: 'Failed to obtain access token',
-      details: error.message
-    });
-  }
-});
+- \`allowedOrigins\` must contain the address you open this app on.
+- \`PORT\` and \`HOST\` environment variables override the file, and \`PROXY_CONFIG\`
+  points the proxy at a different config file.
 
-// Proxy API requests to Amazon SP-API
-app.post('/api/amazon/request', async (req, res) => {
-  try {
-    const { endpoint, method = 'GET', params, headers, body } = req.body;
-    
-    if (!endpoint) {
-      return res.status(400).json({ error: 'Missing required parameter: endpoint' });
-    }
+## Step 3: Start the proxy server
 
-    // In a production environment, you would make an actual call to Amazon's SP-API
-    // For local testing, we'll just simulate a successful response with mock data
-    const mockResponse = {
-      success: true,
-      endpoint,
-      timestamp: new Date().toISOString(),
-      data: {
-        message: 'This is a simulated response from the proxy server',
-        endpoint,
-        params
-      }
-    };
-
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    res.status(200).json(mockResponse);
-  } catch (error) {
-    console.error('Error proxying request:', error);
-    res.status(500).json({ 
-      error: 'Failed to proxy request to Amazon SP-API',
-      details: error.message
-    });
-  }
-});
-
-app.listen(PORT, () => {
-  console.log(\`Amazon SP-API proxy server running on port \${PORT}\`);
-  console.log(\`Health check: http://localhost:\${PORT}/health\`);
-});
-\`\`\`
-
-## Step 6: Start the proxy server
-
-If using ES Module syntax (server.js with "type": "module"):
 \`\`\`
-node server.js
+npm start
 \`\`\`
 
-If using CommonJS syntax (server.cjs or after removing "type": "module"):
-\`\`\`
-node server.cjs
-\`\`\`
-
-You should see a message indicating that the server is running.
+This compiles the TypeScript sources and starts the server. You can also run
+\`npm run proxy\` from the repository root.
 
-## Step 7: Testing the proxy server
+## Routes
 
-1. Make sure the proxy server is running.
-2. In the Amazon SP-API Data Extractor application, enter your credentials.
-3. The application will automatically use the proxy server to bypass CORS restrictions.
+- \`GET /health\` returns \`{"status":"ok"}\`
+- \`POST /api/amazon/token\` exchanges \`clientId\`, \`clientSecret\` and \`refreshToken\` for an access token
+- \`POST /api/amazon/request\` forwards \`endpoint\`, \`method\`, \`params\` and \`body\` to the SP-API
+- \`POST /api/amazon/document\` downloads the report or feed document at the presigned \`url\`
+- \`POST /api/amazon/document/upload\` uploads a feed's \`content\` to the presigned \`url\`
 
 ## Troubleshooting
 
-- If you encounter errors about 'require' not being defined, your Node.js is treating the file as an ES module. Use the ES Module code or one of the CommonJS alternatives mentioned above.
-- If you encounter errors about 'import' not being recognized, your Node.js is treating the file as CommonJS. Use the CommonJS code or add "type": "module" to your package.json.
-- Make sure the proxy server is running on the expected port (default: 8080).
+- Make sure the proxy server is running on the expected port (default: 3001).
 - Ensure no other application is using the same port.
-
-## Notes for Production Use
-
-For production use, you would need to:
-1. Implement proper error handling.
-2. Add authentication to the proxy server.
-3. Deploy to a secure server environment.
-4. Use HTTPS instead of HTTP.
-5. Implement proper caching and rate limiting.
+- A CORS error in the browser console means the app's address is missing from \`allowedOrigins\`.
+- The proxy only listens on 127.0.0.1, so it is not reachable from other machines.
 `;
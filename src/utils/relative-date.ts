@@ -0,0 +1,153 @@
+// Relative date expressions stored in endpoint params and resolved when a request is sent, e.g.
+// `now-30d`, `yesterday`, `startOfMonth-1M`. An anchor is followed by any number of offsets:
+// m (minutes), h (hours), d (days), w (weeks), M (months) and y (years).
+// Calendar anchors and day-based offsets follow the wall clock of the given time zone.
+// Intervals join two dates with `--`, e.g. `now-30d--now`, as the Sales API expects.
+
+const ANCHORS = ['now', 'today', 'yesterday', 'startOfWeek', 'startOfMonth', 'startOfYear'] as const;
+type Anchor = typeof ANCHORS[number];
+
+const EXPRESSION = new RegExp(`^(${ANCHORS.join('|')})((?:[+-]\\d+[mhdwMy])*)$`);
+const OFFSET = /([+-])(\d+)([mhdwMy])/g;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Wall clock time in a zone, as milliseconds of a fake UTC date so Date.UTC arithmetic applies
+function toWallClock(instant: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(new Date(instant)).map(part => [part.type, Number(part.value)])
+  );
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, instant % 1000);
+}
+
+// The instant at which the zone's clock shows the wall clock time
+function fromWallClock(wallClock: number, timeZone: string): number {
+  let instant = wallClock - (toWallClock(wallClock, timeZone) - wallClock);
+  // A second pass corrects the offset when a DST change lies between the guess and the result
+  instant = wallClock - (toWallClock(instant, timeZone) - instant);
+  return instant;
+}
+
+function startOfAnchor(anchor: Exclude<Anchor, 'now'>, wallClock: number): number {
+  const date = new Date(wallClock);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (anchor) {
+    case 'today':
+      return Date.UTC(year, month, day);
+    case 'yesterday':
+      return Date.UTC(year, month, day - 1);
+    case 'startOfWeek':
+      // Weeks start on Monday
+      return Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7));
+    case 'startOfMonth':
+      return Date.UTC(year, month, 1);
+    case 'startOfYear':
+      return Date.UTC(year, 0, 1);
+  }
+}
+
+export function isRelativeDate(value: unknown): value is string {
+  return typeof value === 'string' && EXPRESSION.test(value.trim());
+}
+
+// Resolves an expression to an ISO 8601 timestamp
+export function resolveRelativeDate(expression: string, timeZone: string, now = Date.now()): string {
+  const match = EXPRESSION.exec(expression.trim());
+  if (!match) {
+    throw new Error(`Not a relative date: ${expression}`);
+  }
+
+  const anchor = match[1] as Anchor;
+  let wallClock = toWallClock(now, timeZone);
+  if (anchor !== 'now') {
+    wallClock = startOfAnchor(anchor, wallClock);
+  }
+
+  // Minutes and hours are elapsed time, the other units move along the calendar
+  let elapsed = 0;
+  for (const [, sign, amountText, unit] of match[2].matchAll(OFFSET)) {
+    const amount = Number(amountText) * (sign === '-' ? -1 : 1);
+    const date = new Date(wallClock);
+
+    switch (unit) {
+      case 'm':
+        elapsed += amount * MINUTE;
+        break;
+      case 'h':
+        elapsed += amount * HOUR;
+        break;
+      case 'd':
+        wallClock = date.setUTCDate(date.getUTCDate() + amount);
+        break;
+      case 'w':
+        wallClock = date.setUTCDate(date.getUTCDate() + amount * 7);
+        break;
+      case 'M':
+        wallClock = date.setUTCMonth(date.getUTCMonth() + amount);
+        break;
+      case 'y':
+        wallClock = date.setUTCFullYear(date.getUTCFullYear() + amount);
+        break;
+    }
+  }
+
+  const instant = anchor === 'now' && wallClock === toWallClock(now, timeZone)
+    ? now
+    : fromWallClock(wallClock, timeZone);
+
+  return new Date(instant + elapsed).toISOString();
+}
+
+const INTERVAL_SEPARATOR = '--';
+
+// Two ends joined by --, each a relative date or a timestamp
+export function isInterval(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+
+  const ends = value.trim().split(INTERVAL_SEPARATOR);
+  return ends.length === 2 && ends.every(end => isRelativeDate(end) || !Number.isNaN(Date.parse(end)));
+}
+
+// An interval with at least one relative end; the other end may be a timestamp
+export function isRelativeInterval(value: unknown): value is string {
+  return isInterval(value) && value.trim().split(INTERVAL_SEPARATOR).some(end => isRelativeDate(end));
+}
+
+// The start and end of an interval, with relative ends resolved to ISO 8601 timestamps
+export function resolveIntervalEnds(interval: string, timeZone: string, now = Date.now()): string[] {
+  return interval.trim()
+    .split(INTERVAL_SEPARATOR)
+    .map(end => isRelativeDate(end) ? resolveRelativeDate(end, timeZone, now) : end);
+}
+
+export function resolveRelativeInterval(interval: string, timeZone: string, now = Date.now()): string {
+  return resolveIntervalEnds(interval, timeZone, now).join(INTERVAL_SEPARATOR);
+}
+
+// Returns a copy of the params with every relative date expression and interval resolved
+export function resolveDateParams(
+  params: Record<string, unknown>,
+  timeZone: string,
+  now = Date.now()
+): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(params).map(([key, value]) => [
+    key,
+    isRelativeDate(value)
+      ? resolveRelativeDate(value, timeZone, now)
+      : isRelativeInterval(value) ? resolveRelativeInterval(value, timeZone, now) : value
+  ]));
+}
@@ -0,0 +1,52 @@
+import { fromBase64 } from './crypto';
+import { decodeText, isTabDelimited, parseFlatFile } from './flat-file';
+
+// AES-256-CBC key of a document of the 2020-09-04 Reports API; current documents aren't encrypted
+export interface DocumentEncryptionDetails {
+  standard: 'AES';
+  initializationVector: string; // Base64
+  key: string; // Base64
+}
+
+// How a downloaded document has to be decoded, as described by getReportDocument
+export interface DocumentEncoding {
+  compressionAlgorithm?: 'GZIP';
+  encryptionDetails?: DocumentEncryptionDetails;
+}
+
+// Decrypts, then decompresses a downloaded document
+export async function decodeDocument(bytes: ArrayBuffer, { compressionAlgorithm, encryptionDetails }: DocumentEncoding): Promise<ArrayBuffer> {
+  let contents = bytes;
+
+  if (encryptionDetails) {
+    const key = await crypto.subtle.importKey('raw', fromBase64(encryptionDetails.key), 'AES-CBC', false, ['decrypt']);
+    contents = await crypto.subtle.decrypt({ name: 'AES-CBC', iv: fromBase64(encryptionDetails.initializationVector) }, key, contents);
+  }
+
+  if (compressionAlgorithm === 'GZIP') {
+    const stream = new Blob([contents]).stream().pipeThrough(new DecompressionStream('gzip'));
+    contents = await new Response(stream).arrayBuffer();
+  }
+
+  return contents;
+}
+
+// Reports are JSON documents, tab-delimited flat files parsed into rows, or other text such as XML
+export function parseDocument(contents: ArrayBuffer, contentType?: string): { format: 'json' | 'table' | 'text'; data: unknown; encoding: string } {
+  const { text, encoding } = decodeText(contents, contentType);
+  const start = text.trimStart()[0];
+
+  if (start === '{' || start === '[') {
+    try {
+      return { format: 'json', data: JSON.parse(text), encoding };
+    } catch {
+      // Flat files may start with a bracket too
+    }
+  }
+
+  if (isTabDelimited(text)) {
+    return { format: 'table', data: parseFlatFile(text, encoding), encoding };
+  }
+
+  return { format: 'text', data: text, encoding };
+}
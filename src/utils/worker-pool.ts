@@ -0,0 +1,22 @@
+
+// Runs the worker over all items with at most `concurrency` calls in flight.
+// Workers are expected to handle their own errors. Once the signal aborts,
+// no new items are started and the pool resolves when the running ones settle.
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+
+  const runner = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      await worker(item);
+    }
+  };
+
+  const runners = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, runner);
+  await Promise.all(runners);
+}